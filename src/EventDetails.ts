@@ -1,4 +1,8 @@
-import { parseCustomDate } from "./additionalFunctions"
+import { IANAZone } from "luxon"
+import { parseCustomDate, checkTimeInPast, startTimeBeforeEndTime } from "./additionalFunctions"
+import { parseEventTimes, suggestTimezones } from "./dateParser"
+import { parseRecurrenceRule } from "./recurrenceEngine"
+import { DEFAULT_GUILD_SETTINGS, type GuildSettings } from "./guildSettings"
 
 export interface EventDetails {
     eventName: string
@@ -9,6 +13,147 @@ export interface EventDetails {
     description: string
     interval: string
     frequency: number
+    // How ambiguous or relative start/end inputs were read, echoed in confirmations
+    dateNotes?: string[]
+}
+
+export type EventField = "name" | "start" | "end" | "timezone" | "location" | "description" | "interval" | "frequency"
+
+export interface EventFieldError {
+    // `null` if the input could not be assigned to a field
+    field: EventField | null
+    // 1-based position of the field in the positional syntax, `null` if it was given as key=value
+    position: number | null
+    input: string
+    message: string
+}
+
+export interface ParsedEventDetails {
+    details: EventDetails
+    errors: EventFieldError[]
+}
+
+// Field order of the positional syntax
+const eventFields: EventField[] = ["name", "start", "end", "timezone", "location", "description", "interval", "frequency"]
+
+const fieldLabels: Record<EventField, string> = {
+    name: "name",
+    start: "start time",
+    end: "end time",
+    timezone: "timezone",
+    location: "location",
+    description: "description",
+    interval: "interval",
+    frequency: "frequency",
+}
+
+const fieldAliases: Record<string, EventField> = {
+    name: "name", title: "name",
+    start: "start", from: "start",
+    end: "end", to: "end", duration: "end",
+    timezone: "timezone", tz: "timezone",
+    location: "location", loc: "location", where: "location",
+    description: "description", desc: "description",
+    interval: "interval", repeat: "interval",
+    frequency: "frequency", every: "frequency",
+}
+
+// A semicolon separates fields if a space or a key=value field follows, so names and descriptions may contain "a;b"
+const FIELD_SEPARATOR = /;(?=\s|$|[a-z]+\s*=)/i
+
+// Discord limits of scheduled events
+const MAX_NAME_LENGTH = 100
+const MAX_LOCATION_LENGTH = 100
+const MAX_DESCRIPTION_LENGTH = 1000
+
+/**
+ * Splits the field string of a command into its fields.
+ *
+ * ### Example:
+ * ```ts
+ * splitEventFields("Raid; 2025-06-20 20:00 ; 2h; ; Discord; ; RRULE:FREQ=MONTHLY;BYDAY=2SA")
+ * // Returns: ["Raid", "2025-06-20 20:00", "2h", "", "Discord", "", "RRULE:FREQ=MONTHLY;BYDAY=2SA"]
+ * splitEventFields("name=Raid;start=20:00; description=Snacks;drinks")
+ * // Returns: ["name=Raid", "start=20:00", "description=Snacks;drinks"]
+ * ```
+ *
+ * @param baseString - The fields separated by `"; "`. Before a `key=value` field the space is optional.
+ *
+ * @returns The trimmed fields, empty fields are kept so positions stay intact.
+ *
+ * @remarks
+ * - Parts of an RRULE (`BYDAY=2SA`, `COUNT=6`, ...) are joined back to the rule they belong to.
+ */
+export function splitEventFields(baseString: string): string[] {
+    let fields: string[] = []
+
+    for (let part of baseString.split(FIELD_SEPARATOR).map(part => part.trim())) {
+        let previousField = fields[fields.length - 1] ?? ""
+        let isRRulePart = /^(FREQ|COUNT|UNTIL|BY[A-Z]+|WKST)=/i.test(part) || /^INTERVAL=\d+$/i.test(part)
+        if (isRRulePart && /^(?:(?:interval|repeat)\s*=\s*)?(RRULE:|FREQ=)/i.test(previousField)) {
+            fields[fields.length - 1] = previousField + ";" + part
+        }
+        else {
+            fields.push(part)
+        }
+    }
+
+    return fields
+}
+
+/**
+ * Formats a single field error, naming the field by position or key.
+ *
+ * ### Example:
+ * ```ts
+ * formatFieldError(error)
+ * // Returns: "field 2 (start time): `2025-13-01 10:00` is not a valid date and time"
+ * ```
+ *
+ * @param error - An error returned by `extractEventdetails`, `eventDetailsFromFields` or `extractEventUpdates`.
+ *
+ * @returns The formatted error.
+ */
+export function formatFieldError(error: EventFieldError): string {
+    if (!error.field) {
+        return error.message
+    }
+
+    let fieldName = error.position != null ? `field ${error.position} (${fieldLabels[error.field]})` : fieldLabels[error.field]
+    return `${fieldName}: ${error.message}`
+}
+
+/**
+ * Formats field errors for a reply, one line per error.
+ *
+ * @param errors - The errors returned by `extractEventdetails`, `eventDetailsFromFields` or `extractEventUpdates`.
+ *
+ * @returns The formatted errors as Markdown list.
+ */
+export function formatFieldErrors(errors: EventFieldError[]): string {
+    return errors.map(error => "- " + formatFieldError(error)).join("\n")
+}
+
+/**
+ * Checks a timezone and builds the error with suggestions if it is unknown.
+ *
+ * @param timezone - The IANA timezone as typed by the user.
+ * @param position - The position of the field, or `null` for key=value input.
+ *
+ * @returns The `EventFieldError`, or `null` if the timezone is valid.
+ */
+function validateTimezone(timezone: string, position: number | null): EventFieldError | null {
+    if (IANAZone.isValidZone(timezone)) {
+        return null
+    }
+
+    let suggestions = suggestTimezones(timezone)
+    return {
+        field: "timezone",
+        position: position,
+        input: timezone,
+        message: `timezone \`${timezone}\` unknown` + (suggestions.length > 0 ? `, did you mean ${suggestions.join(" or ")}?` : ", use an IANA timezone like Europe/Berlin."),
+    }
 }
 
 /**
@@ -17,87 +162,300 @@ export interface EventDetails {
  * ### Example:
  * ```ts
  * const baseString = "Team Meeting; 2025-06-20 09:00; 2025-06-20 10:00; Europe/Berlin; Zoom; Discuss roadmap";
- * const event = await extractEventdetails(baseString, "New Event");
- * // Returns: EventDetails object with parsed values
+ * const { details, errors } = await extractEventdetails(baseString, "New Event");
+ *
+ * const namedString = "name=Team Meeting; start=tomorrow 9:00; end=1h; location=Zoom";
+ * const { details, errors } = await extractEventdetails(namedString, "New Event");
+ * // Returns: EventDetails object with parsed values and an empty error list
  * ```
  *
  * @param baseString - A semicolon-separated string containing the event attributes.
  *   - For `"New Event"`: `"Event Name; Start Time; End Time; Timezone; Location; Description"`
  *   - For `"New Schedule"`: `"Event Name; Start Time; End Time; Timezone; Location; Description; Interval; Frequency"`
+ *   - Or in any order as `key=value` pairs: `name`, `start`, `end`, `timezone` (`tz`), `location`, `description`, `interval`, `frequency`.
  *
  * @param eventType - A string indicating the event type. Accepts `"New Event"` or `"New Schedule"`.
+ * @param defaults - The guild's default timezone, location and locale, used for empty fields and ambiguous dates (see `getGuildSettings`).
  * 
- * @returns A `Promise<EventDetails>` object containing the parsed and structured event properties.
+ * @returns A `Promise<ParsedEventDetails>` containing the parsed event properties and one error per invalid field.
  *
  * @remarks
- * - If the timezone field is empty, defaults to `"Europe/Amsterdam"`.
- * - Dates are parsed using `parseCustomDate`, and converted to JavaScript `Date` objects.
- * - If the `eventType` is unrecognized, an empty/default `EventDetails` object is returned and an error is logged.
+ * - See `eventDetailsFromFields` for the validation of the single fields.
  * - Used to support both single-instance events and recurring scheduled events.
  *
- * @throws Does not throw; logs errors and returns default fallback object if input is invalid.
+ * @throws Does not throw; invalid input is returned as field errors.
  *
  * @dependencies
- * - Requires `parseCustomDate` for date parsing and a `logger` utility.
- * - Assumes `EventDetails` interface is defined and available in scope.
+ * - Requires `splitEventFields` and `eventDetailsFromFields`.
+ */
+export async function extractEventdetails(baseString: string, eventType: string, defaults: Pick<GuildSettings, "timezone" | "location" | "locale"> = DEFAULT_GUILD_SETTINGS): Promise<ParsedEventDetails> {
+    return eventDetailsFromFields(splitEventFields(baseString), eventType, defaults)
+}
+
+/**
+ * Builds and validates structured event details from the already separated fields of an event.
+ *
+ * ### Example:
+ * ```ts
+ * const { details, errors } = eventDetailsFromFields(["Team Meeting", "2025-06-20 09:00", "2025-06-20 10:00", "Berlin", "Zoom"], "New Event");
+ * // errors: [{ field: "timezone", position: 4, input: "Berlin", message: "timezone `Berlin` unknown, did you mean Europe/Berlin?" }]
+ * ```
+ *
+ * @param eventInfoParts - The fields in the order `Event Name, Start Time, End Time, Timezone, Location, Description[, Interval, Frequency]`,
+ *   and/or `key=value` pairs after the positional fields.
+ * @param eventType - `"New Event"` or `"New Schedule"`, see `extractEventdetails`.
+ * @param defaults - The guild's default timezone, location and locale, used for empty fields and ambiguous dates.
+ *
+ * @returns The `ParsedEventDetails`; the details are only complete if `errors` is empty.
+ *
+ * @remarks
+ * - Name, start time, end time and location (or a default location) are required; description is optional.
+ * - Dates are parsed using `parseEventTimes`, and converted to JavaScript `Date` objects.
+ *   The end may also be a time only (`20:00`) or a duration (`2h`), the start may be a range (`2025-06-20 18:00-20:00`) with an empty end.
+ * - If the timezone field is empty, the guild's default is used. Unknown timezones get suggestions (`Berlin` → `Europe/Berlin`).
+ * - Start times in the past and end times before the start are reported as field errors as well.
+ * - Schedules need an interval (daily, weekly, monthly, yearly or an RRULE); an empty frequency means 1.
+ * - Used by `extractEventdetails`, slash commands and imports, where fields come from options, CSV columns or calendar properties.
  */
-export async function extractEventdetails(baseString: string, eventType: string): Promise<EventDetails> {
-    let eventInfoParts: string[] = new Array()
-    eventInfoParts = baseString.split("; ")
-
-    // Catch Empty Timezone
-    let eventTimezone: string = eventInfoParts[3]!
-    if (eventTimezone == "") {
-        eventTimezone = "Europe/Amsterdam"
-    }
-
-    // Define the remaining attributes
-    let eventName: string = eventInfoParts[0]!
-    let startTime = new Date(parseCustomDate(eventInfoParts[1]!, eventTimezone!)!)
-    let endTime = new Date(parseCustomDate(eventInfoParts[2]!, eventTimezone!)!)
-    let location:string = eventInfoParts[4]!
-    let eventDescription: string = eventInfoParts[5]!
-
-    // Return the corresponding Event Details as Interface type
-    if(eventType == "New Event"){
-        return {
-        eventName: eventName,
-        startTime: startTime,
-        endTime: endTime,
-        timezone: eventTimezone,
-        eventLocation: location,
-        description: eventDescription,
-        interval: "",
-        frequency: 0,
-    }
-    } 
-    else if (eventType == "New Schedule") {
-        let eventInterval:string = eventInfoParts[6]!
-        let eventIntervalFrequency:number = +eventInfoParts[7]?.trim()!
-
-        return {
+export function eventDetailsFromFields(eventInfoParts: string[], eventType: string, defaults: Pick<GuildSettings, "timezone" | "location" | "locale"> = DEFAULT_GUILD_SETTINGS): ParsedEventDetails {
+    let isSchedule = eventType == "New Schedule"
+    let fieldCount = isSchedule ? 8 : 6
+    let values = new Map<EventField, { input: string, position: number | null }>()
+    let errors: EventFieldError[] = []
+
+    // Positional fields first, key=value pairs may follow in any order
+    let namedSyntax = false
+    for (let [index, part] of eventInfoParts.entries()) {
+        let separatorIndex = part.indexOf("=")
+        let field = separatorIndex > 0 ? fieldAliases[part.slice(0, separatorIndex).trim().toLowerCase()] : undefined
+
+        if (field) {
+            namedSyntax = true
+            values.set(field, { input: part.slice(separatorIndex + 1).trim(), position: null })
+        }
+        else if (namedSyntax) {
+            errors.push({ field: null, position: index + 1, input: part, message: `field ${index + 1}: \`${part}\` is not a key=value pair, use e.g. description=...` })
+        }
+        else if (index >= fieldCount) {
+            if (part != "") {
+                errors.push({ field: null, position: index + 1, input: part, message: `field ${index + 1}: unexpected extra field \`${part}\`` })
+            }
+        }
+        else {
+            values.set(eventFields[index]!, { input: part, position: index + 1 })
+        }
+    }
+
+    let getValue = (field: EventField) => values.get(field)?.input ?? ""
+    let getPosition = (field: EventField) => values.has(field) ? values.get(field)!.position : (namedSyntax ? null : eventFields.indexOf(field) + 1)
+    let addError = (field: EventField, message: string) => errors.push({ field, position: getPosition(field), input: getValue(field), message })
+
+    // Name
+    let eventName = getValue("name")
+    if (eventName == "") {
+        addError("name", "the event name is missing")
+    }
+    else if (eventName.length > MAX_NAME_LENGTH) {
+        addError("name", `the event name is longer than ${MAX_NAME_LENGTH} characters`)
+    }
+
+    // Timezone, times are still read in the default timezone to report their errors as well
+    let eventTimezone = getValue("timezone") || defaults.timezone
+    let timezoneError = validateTimezone(eventTimezone, getPosition("timezone"))
+    if (timezoneError) {
+        errors.push(timezoneError)
+        eventTimezone = defaults.timezone
+    }
+
+    // Start and end time
+    let startInput = getValue("start")
+    let endInput = getValue("end")
+    let eventTimes = parseEventTimes(startInput, endInput, eventTimezone, defaults.locale)
+    if (startInput == "") {
+        addError("start", "the start time is missing")
+    }
+    else if (!eventTimes.startTime) {
+        addError("start", `\`${startInput}\` is not a valid date and time (e.g. 2025-06-20 18:00, 20.06.2025 6pm, tomorrow 18:00)`)
+    }
+    else if (checkTimeInPast(eventTimes.startTime)) {
+        addError("start", `\`${startInput}\` is in the past`)
+    }
+
+    if (endInput == "" && !eventTimes.endTime) {
+        addError("end", "the end time is missing")
+    }
+    else if (!eventTimes.endTime) {
+        if (eventTimes.startTime) {
+            addError("end", `\`${endInput}\` is not a valid date, time or duration (e.g. 2025-06-20 20:00, 20:00, 2h)`)
+        }
+    }
+    else if (eventTimes.startTime && startTimeBeforeEndTime(eventTimes.startTime, eventTimes.endTime)) {
+        addError("end", `\`${endInput}\` is before the start time`)
+    }
+
+    // Location and description
+    let location = getValue("location") || defaults.location
+    if (location == "") {
+        addError("location", "the location is missing (a default can be set with Config: location=...)")
+    }
+    else if (location.length > MAX_LOCATION_LENGTH) {
+        addError("location", `the location is longer than ${MAX_LOCATION_LENGTH} characters`)
+    }
+
+    let eventDescription = getValue("description")
+    if (eventDescription.length > MAX_DESCRIPTION_LENGTH) {
+        addError("description", `the description is longer than ${MAX_DESCRIPTION_LENGTH} characters`)
+    }
+
+    // Interval and frequency of schedules
+    let eventInterval = ""
+    let eventIntervalFrequency = 0
+    if (isSchedule) {
+        eventInterval = getValue("interval")
+        let frequencyInput = getValue("frequency")
+        eventIntervalFrequency = frequencyInput == "" ? 1 : +frequencyInput
+
+        if (!Number.isInteger(eventIntervalFrequency) || eventIntervalFrequency < 1) {
+            addError("frequency", `\`${frequencyInput}\` is not a positive whole number`)
+        }
+        else if (eventInterval == "") {
+            addError("interval", "the interval is missing (daily, weekly, monthly, yearly or RRULE:...)")
+        }
+        else if (eventTimes.startTime && !parseRecurrenceRule(eventInterval, eventIntervalFrequency, eventTimes.startTime, eventTimezone)) {
+            addError("interval", `\`${eventInterval}\` is not a valid interval, use daily, weekly, monthly, yearly or an RRULE like RRULE:FREQ=MONTHLY;BYDAY=2SA`)
+        }
+    }
+    else {
+        for (let field of ["interval", "frequency"] as EventField[]) {
+            if (values.has(field)) {
+                addError(field, `\`${field}\` is only used for New Schedule`)
+            }
+        }
+    }
+
+    return {
+        details: {
             eventName: eventName,
-            startTime: startTime,
-            endTime: endTime,
+            startTime: eventTimes.startTime ?? new Date(NaN),
+            endTime: eventTimes.endTime ?? new Date(NaN),
             timezone: eventTimezone,
             eventLocation: location,
             description: eventDescription,
             interval: eventInterval,
             frequency: eventIntervalFrequency,
+            dateNotes: eventTimes.notes,
+        },
+        // Report in the order the fields were written
+        errors: errors.sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity)),
+    }
+}
+
+export interface EventUpdates {
+    eventName?: string
+    startTime?: Date
+    endTime?: Date
+    timezone?: string
+    eventLocation?: string
+    description?: string
+}
+
+export interface ParsedEventUpdates {
+    updates: EventUpdates
+    errors: EventFieldError[]
+}
+
+/**
+ * Parses a semicolon-separated list of `key=value` pairs into a partial set of event updates.
+ *
+ * ### Example:
+ * ```ts
+ * const { updates, errors } = extractEventUpdates(["start=2025-06-20 19:00", "end=21:00", "location=Discord Stage"]);
+ * // updates: { startTime: Date, endTime: Date, eventLocation: "Discord Stage" }
+ * ```
+ *
+ * @param updateParts - The `key=value` parts of an edit command (already split with `splitEventFields`).
+ *   - Accepted keys: `name`, `start`, `end`, `timezone` (or `tz`), `location`, `description` and their aliases.
+ * @param defaultTimezone - The timezone for start and end times if no `timezone` is given, usually the event's stored timezone or the guild's default.
+ * @param locale - The locale deciding ambiguous numeric dates, usually the guild's locale.
+ *
+ * @returns The `ParsedEventUpdates` with only the fields that were given, and one error per invalid field.
+ *
+ * @remarks
+ * - Start and end times are parsed with `parseCustomDate` in the given timezone, defaulting to `defaultTimezone`.
+ *   If both are given, `parseEventTimes` is used, so the end may be a time only or a duration.
+ * - Unknown keys, unknown timezones and unreadable dates are returned as field errors instead of being ignored.
+ *
+ * @throws Does not throw; invalid input is returned as field errors.
+ *
+ * @dependencies
+ * - Requires `parseCustomDate` and `parseEventTimes` for date parsing.
+ */
+export function extractEventUpdates(updateParts: string[], defaultTimezone: string = DEFAULT_GUILD_SETTINGS.timezone, locale: string = DEFAULT_GUILD_SETTINGS.locale): ParsedEventUpdates {
+    let rawValues = new Map<EventField, string>()
+    let errors: EventFieldError[] = []
+
+    for (let part of updateParts) {
+        let separatorIndex = part.indexOf("=")
+        let field = separatorIndex > 0 ? fieldAliases[part.slice(0, separatorIndex).trim().toLowerCase()] : undefined
+        if (!field || field == "interval" || field == "frequency") {
+            errors.push({ field: null, position: null, input: part, message: `\`${part}\` is not a known key=value update, use name, start, end, timezone, location or description` })
+            continue
         }
+        rawValues.set(field, part.slice(separatorIndex + 1).trim())
     }
-    else {
-        // If Input is invalid, return an empty object
-        return{
-            eventName: "",
-            startTime: new Date(),
-            endTime: new Date(),
-            timezone: "",
-            eventLocation: "",
-            description: "",
-            interval: "",
-            frequency: 0,
+
+    let updates: EventUpdates = {}
+    let eventTimezone = rawValues.get("timezone")
+    if (eventTimezone) {
+        let timezoneError = validateTimezone(eventTimezone, null)
+        if (timezoneError) {
+            errors.push(timezoneError)
+            eventTimezone = undefined
+        }
+        else {
+            updates.timezone = eventTimezone
         }
     }
-    
+
+    for (let [field, value] of rawValues) {
+        switch (field) {
+            case "name": {
+                updates.eventName = value
+                break
+            }
+            case "start": {
+                let startTime = parseCustomDate(value, eventTimezone || defaultTimezone, locale)
+                if (startTime) {
+                    updates.startTime = startTime
+                }
+                else {
+                    errors.push({ field, position: null, input: value, message: `\`${value}\` is not a valid date and time (e.g. 2025-06-20 18:00, 20.06.2025 6pm, tomorrow 18:00)` })
+                }
+                break
+            }
+            case "end": {
+                let startValue = rawValues.get("start")
+                let endTime = startValue
+                    ? parseEventTimes(startValue, value, eventTimezone || defaultTimezone, locale).endTime
+                    : parseCustomDate(value, eventTimezone || defaultTimezone, locale)
+                if (endTime) {
+                    updates.endTime = endTime
+                }
+                else {
+                    errors.push({ field, position: null, input: value, message: `\`${value}\` is not a valid date and time` + (startValue ? " or duration" : "") })
+                }
+                break
+            }
+            case "location": {
+                updates.eventLocation = value
+                break
+            }
+            case "description": {
+                updates.description = value
+                break
+            }
+        }
+    }
+
+    return { updates, errors }
 }
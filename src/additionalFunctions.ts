@@ -1,139 +1,45 @@
 import { DateTime } from "luxon";
 import { logger } from "./mainBot";
-import { GuildScheduledEventRecurrenceRuleWeekday } from "discord.js";
-import type { EventDetails } from "./EventDetails";
+import { GuildScheduledEventRecurrenceRuleFrequency, type Guild, type GuildScheduledEvent } from "discord.js";
+import { parseDateTime } from "./dateParser";
+import { DEFAULT_GUILD_SETTINGS } from "./guildSettings";
 
 
 /**
- * Parses a custom date-time string in the format "YYYY-MM-DD HH:MM" and a specified IANA timezone,
- * converting it to a UTC-based JavaScript `Date` object in ISO 8601 format.
+ * Parses a date-time string as typed by users in a specified IANA timezone,
+ * converting it to a UTC-based JavaScript `Date` object.
  *
  * ### Example:
  * ```ts
  * parseCustomDate("2025-06-18 14:30", "Europe/Berlin");
+ * parseCustomDate("18.06.2025 2:30pm", "Europe/Berlin");
+ * parseCustomDate("next Friday 19:30", "America/New_York", "en-US");
  * // Returns: Date object representing the equivalent UTC time
  * ```
  *
- * @param dateTime - A string representing the date and time in the format "YYYY-MM-DD HH:MM".
+ * @param dateTime - A string representing the date and time, e.g. "YYYY-MM-DD HH:MM" (see `parseDateTime` for all formats).
  * @param tz - A string representing the IANA timezone (e.g., "America/New_York", "Europe/Berlin").
+ * @param locale - The locale deciding ambiguous numeric dates like "03/04/2025", usually the guild's locale.
  * 
  * @returns A `Date` object in UTC if parsing succeeds; otherwise, `null` if the format is invalid or the timezone is unrecognized.
  *
  * @remarks
- * - Uses the Luxon library for timezone-aware date parsing.
+ * - Uses `parseDateTime` from the date parser, which is based on the Luxon library.
  * - Logs errors for invalid date formats or timezones using `logger.error`.
  *
  * @throws No exceptions are thrown; the function returns `null` on error.
  *
  * @dependencies
- * Requires `luxon` and a `logger` utility to be available in scope.
+ * Requires `parseDateTime` and a `logger` utility to be available in scope.
  */
-export function parseCustomDate(dateTime: string, tz: string): Date | null {
-    // Check for correct DateTime-Format 
-    let regex = /^(\d{4}-\d{2}-\d{2}) (\d{2}):(\d{2})$/;
-    let match = dateTime.match(regex);
-    if (!match) {
-        logger.error(`Invalid Date Format: ${dateTime}`);
+export function parseCustomDate(dateTime: string, tz: string, locale: string = DEFAULT_GUILD_SETTINGS.locale): Date | null {
+    let parsedDateTime = parseDateTime(dateTime, tz, locale)
+    if (!parsedDateTime) {
+        logger.error(`Invalid Date Format or Timezone: ${dateTime} (${tz})`);
         return null;
     }
 
-    // Convert into luxon-Format
-    let [_, datePart, hourStr, minuteStr] = match;
-    let dt = DateTime.fromFormat(`${datePart} ${hourStr}:${minuteStr}`, 'yyyy-MM-dd HH:mm', {
-        zone: tz,
-    });
-
-    if (!dt.isValid) {
-        logger.error(`Invalid Time or Timezone: ${dt.invalidExplanation}`);
-        return null;
-    }
-
-    let returnDate = new Date(dt.toUTC().toISO());
-
-    return returnDate;
-}
-
-/**
- * Converts a JavaScript `Date` object into a corresponding `GuildScheduledEventRecurrenceRuleWeekday` enum value.
- *
- * ### Example:
- * ```ts
- * const weekday = getWeekdayNameFromDate(new Date("2025-06-18")); 
- * // Returns: GuildScheduledEventRecurrenceRuleWeekday.Wednesday
- * ```
- *
- * @param date - A valid JavaScript `Date` object.
- * 
- * @returns A `GuildScheduledEventRecurrenceRuleWeekday` enum value corresponding to the day of the week.
- *
- * @throws Will throw an error if the `Date.getDay()` result is out of expected bounds (0–6).
- *
- * @remarks
- * - This function maps the numeric day index returned by `Date.getDay()` (0 for Sunday, 6 for Saturday)
- *   to the corresponding Discord recurrence rule weekday enum.
- * - Ensures compatibility with Discord's scheduled event recurrence system.
- *
- * @dependencies
- * Assumes `GuildScheduledEventRecurrenceRuleWeekday` enum is available in scope (typically from the Discord.js or Discord API typings).
- */
-export function getWeekdayNameFromDate(date: Date): GuildScheduledEventRecurrenceRuleWeekday {
-    const days: GuildScheduledEventRecurrenceRuleWeekday[] = [
-        GuildScheduledEventRecurrenceRuleWeekday.Sunday,
-        GuildScheduledEventRecurrenceRuleWeekday.Monday,
-        GuildScheduledEventRecurrenceRuleWeekday.Tuesday,
-        GuildScheduledEventRecurrenceRuleWeekday.Wednesday,
-        GuildScheduledEventRecurrenceRuleWeekday.Thursday,
-        GuildScheduledEventRecurrenceRuleWeekday.Friday,
-        GuildScheduledEventRecurrenceRuleWeekday.Saturday,
-    ]
-
-    const day = days[date.getDay()];
-
-    if (!day) {
-        throw new Error("Invalid weekday index: " + date.getDay())
-    }
-
-    return day as GuildScheduledEventRecurrenceRuleWeekday
-}
-
-/**
- * Checks whether any required fields in an `EventDetails` object are missing or contain default/empty values.
- *
- * ### Example:
- * ```ts
- * const hasEmptyFields = eventHasEmptyValues(event);
- * // Returns: true if any required field is empty or default
- * ```
- *
- * @param eventObject - An object of type `EventDetails` to validate.
- * 
- * @returns `true` if one or more critical fields are empty, invalid, or default; otherwise, `false`.
- *
- * @remarks
- * - Compares `startTime` and `endTime` against `new Date()` to detect default dates.
- * - Assumes fields like `eventName`, `description`, `timezone`, `eventLocation`, `interval` must not be empty strings.
- * - Assumes `frequency` must be a non-zero number to be considered valid.
- * - Intended for use in pre-submission validation or integrity checks before saving or sending event data.
- *
- * @dependencies
- * - Assumes `EventDetails` type is defined and includes the relevant properties used in this function.
- */
-export function eventHasEmptyValues(eventObject: EventDetails): boolean {
-    if( eventObject.eventName == "" || eventObject.description == "" || eventObject.endTime == new Date() || eventObject.eventLocation == "" || eventObject.startTime == new Date() || eventObject.timezone == ""){
-        return true
-    }
-    else {
-        return false
-    }
-}
-
-export function scheduleHasEmptyValues(eventObject: EventDetails): boolean {
-    if( eventObject.eventName == "" || eventObject.description == "" || eventObject.endTime == new Date() || eventObject.eventLocation == "" || eventObject.frequency == 0 || eventObject.interval == "" || eventObject.startTime == new Date() || eventObject.timezone == ""){
-        return true
-    }
-    else {
-        return false
-    }
+    return parsedDateTime.dateTime.toJSDate();
 }
 
 /**
@@ -193,4 +99,116 @@ export function checkTimeInPast(time: Date): boolean {
  */
 export function startTimeBeforeEndTime(startTime: Date, endTime: Date): boolean {
     return startTime >= endTime
-}
\ No newline at end of file
+}
+
+/**
+ * Looks up the scheduled events of a guild that match the given identifier.
+ *
+ * ### Example:
+ * ```ts
+ * const matches = await findScheduledEvents(guild, "Team Meeting");
+ * // Returns: every scheduled event named exactly "Team Meeting"
+ * ```
+ *
+ * @param guild - The Discord guild whose scheduled events should be searched.
+ * @param identifier - Either a scheduled event ID or the exact name of the event.
+ *
+ * @returns A `Promise` resolving to all matching `GuildScheduledEvent` objects (empty if none match).
+ *
+ * @remarks
+ * - An ID match always wins and returns exactly one event.
+ * - Name matching is exact but case-insensitive, so several events can match the same name.
+ *
+ * @dependencies
+ * Requires the bot to have access to the guild's scheduled events.
+ */
+export async function findScheduledEvents(guild: Guild, identifier: string): Promise<GuildScheduledEvent[]> {
+    let scheduledEvents = await guild.scheduledEvents.fetch()
+    let searchValue = identifier.trim()
+
+    let eventById = scheduledEvents.get(searchValue)
+    if (eventById) {
+        return [eventById]
+    }
+
+    return [...scheduledEvents.filter(event => event.name.toLowerCase() == searchValue.toLowerCase()).values()]
+}
+
+/**
+ * Extracts the scheduled event ID from a message containing a Discord event link.
+ *
+ * ### Example:
+ * ```ts
+ * extractEventIdFromMessage('Event "Raid" created for ... https://discord.com/events/123/456');
+ * // Returns: "456"
+ * ```
+ *
+ * @param messageContent - The content of a message, typically one of the bot's confirmation messages.
+ *
+ * @returns The event ID if a Discord event link is found; otherwise, `null`.
+ *
+ * @dependencies
+ * None
+ */
+export function extractEventIdFromMessage(messageContent: string): string | null {
+    let match = messageContent.match(/discord\.com\/events\/\d+\/(\d+)/)
+    return match ? match[1]! : null
+}
+
+
+/**
+ * Calculates the next start time of a (possibly recurring) scheduled event after a given point in time.
+ *
+ * ### Example:
+ * ```ts
+ * const next = getNextOccurrence(weeklyEvent, new Date(), "Europe/Berlin");
+ * // Returns: the start of the next weekly occurrence, or null if the series has ended
+ * ```
+ *
+ * @param event - The Discord scheduled event, optionally carrying a `recurrenceRule`.
+ * @param after - Only occurrences starting strictly after this time are considered.
+ * @param tz - The IANA timezone the event was planned in, used to keep the local start time stable across DST changes.
+ *
+ * @returns The `Date` of the next occurrence, or `null` if there is none.
+ *
+ * @remarks
+ * - One-time events only have a single occurrence at `scheduledStartAt`.
+ * - Recurring events are stepped forward from the series start by their rule's interval (days, weeks, months or years).
+ * - Respects the rule's `count` and `endAt` limits if Discord provides them.
+ *
+ * @dependencies
+ * Requires `luxon` for timezone-aware date arithmetic.
+ */
+export function getNextOccurrence(event: GuildScheduledEvent, after: Date, tz: string): Date | null {
+    let startTime = event.scheduledStartAt
+    if (!startTime) {
+        return null
+    }
+
+    let rule = event.recurrenceRule
+    if (!rule) {
+        return startTime > after ? startTime : null
+    }
+
+    let stepUnit = {
+        [GuildScheduledEventRecurrenceRuleFrequency.Daily]: "days",
+        [GuildScheduledEventRecurrenceRuleFrequency.Weekly]: "weeks",
+        [GuildScheduledEventRecurrenceRuleFrequency.Monthly]: "months",
+        [GuildScheduledEventRecurrenceRuleFrequency.Yearly]: "years",
+    }[rule.frequency]
+
+    // Count from the start of the series, Discord moves scheduledStartAt along with the occurrences
+    let occurrence = DateTime.fromJSDate(rule.startAt, { zone: tz })
+    let occurrenceCount = 1
+    while (occurrence.toJSDate() <= after) {
+        occurrence = occurrence.plus({ [stepUnit]: Math.max(rule.interval, 1) })
+        occurrenceCount++
+    }
+
+    if ((rule.count && occurrenceCount > rule.count) || (rule.endAt && occurrence.toJSDate() > rule.endAt)) {
+        return null
+    }
+
+    return occurrence.toJSDate()
+}
+
@@ -0,0 +1,354 @@
+import { EmbedBuilder, TextChannel, type Guild, type GuildScheduledEvent } from "discord.js"
+import type { Database } from "bun:sqlite"
+import { DateTime } from "luxon"
+import { logger, client } from "./mainBot"
+import { database } from "./database"
+import { getNextOccurrence } from "./additionalFunctions"
+import { parseRecurrenceRule, expandOccurrences } from "./recurrenceEngine"
+import { parseCronSchedule, getNextCronTime } from "./cronSchedule"
+import { eventRepository } from "./eventStore"
+import { expandSeriesOccurrences } from "./recurringSeries"
+import { getGuildSettings, type GuildSettings } from "./guildSettings"
+
+export interface AgendaEntry {
+    name: string
+    startTime: Date
+    endTime: Date | null
+    location: string
+    url: string
+}
+
+export interface DigestState {
+    guildId: string
+    // The channel and message of the last digest, which is edited instead of posting a new one
+    channelId: string | null
+    messageId: string | null
+    lastRun: Date
+}
+
+/**
+ * Storage of the last digest message and run of every guild.
+ */
+export interface DigestRepository {
+    getState(guildID: string): DigestState | null
+    saveState(state: DigestState): void
+}
+
+/**
+ * `DigestRepository` backed by SQLite (via `bun:sqlite`).
+ */
+export class SqliteDigestRepository implements DigestRepository {
+    private db: Database
+
+    constructor(db: Database) {
+        this.db = db
+        this.db.run(`CREATE TABLE IF NOT EXISTS agenda_digests (
+            guild_id TEXT PRIMARY KEY,
+            channel_id TEXT,
+            message_id TEXT,
+            last_run TEXT NOT NULL
+        )`)
+    }
+
+    getState(guildID: string): DigestState | null {
+        let row = this.db.query<{ guild_id: string, channel_id: string | null, message_id: string | null, last_run: string }, [string]>(
+            "SELECT * FROM agenda_digests WHERE guild_id = ?"
+        ).get(guildID)
+
+        return row ? { guildId: row.guild_id, channelId: row.channel_id, messageId: row.message_id, lastRun: new Date(row.last_run) } : null
+    }
+
+    saveState(state: DigestState): void {
+        this.db.query("INSERT OR REPLACE INTO agenda_digests (guild_id, channel_id, message_id, last_run) VALUES (?, ?, ?, ?)")
+            .run(state.guildId, state.channelId, state.messageId, state.lastRun.toISOString())
+    }
+}
+
+export const digestRepository: DigestRepository = new SqliteDigestRepository(database)
+
+const DIGEST_CHECK_INTERVAL = 60 * 1000
+// Discord allows 25 fields per embed with up to 1024 characters each
+const MAX_FIELDS = 25
+const MAX_FIELD_LENGTH = 1024
+// Protects against recurring events with very short intervals
+const MAX_OCCURRENCES_PER_EVENT = 50
+
+/**
+ * Collects all occurrences of a guild's scheduled events within a period.
+ *
+ * ### Example:
+ * ```ts
+ * const entries = await buildAgenda(guild, weekStart, weekEnd, "Europe/Berlin")
+ * // Returns: every occurrence between weekStart and weekEnd, sorted by start time
+ * ```
+ *
+ * @param guild - The Discord guild.
+ * @param periodStart - The start of the period.
+ * @param periodEnd - The end of the period.
+ * @param timezone - The guild's timezone, used for recurring events the bot has no record of.
+ *
+ * @returns A `Promise` resolving to the `AgendaEntry`s, sorted by start time.
+ *
+ * @remarks
+ * - Recurring Discord events (daily/weekly schedules) are expanded into their single occurrences.
+ *   Events created by the bot use their stored rule, others the rule Discord provides (see `getNextOccurrence`).
+ * - Bot-managed series are expanded from their rule, so occurrences that were not created yet are included as well.
+ * - Completed and cancelled events are left out.
+ */
+export async function buildAgenda(guild: Guild, periodStart: Date, periodEnd: Date, timezone: string): Promise<AgendaEntry[]> {
+    let scheduledEvents = await guild.scheduledEvents.fetch()
+    let entries: AgendaEntry[] = []
+
+    for (let event of scheduledEvents.values()) {
+        if (event.isCompleted() || event.isCanceled()) {
+            continue
+        }
+
+        let storedEvent = eventRepository.getEvent(event.id)
+        // Occurrences of bot-managed series are added from the series below
+        if (storedEvent?.seriesId && eventRepository.getSeries(storedEvent.seriesId)) {
+            continue
+        }
+
+        let durationMs = (event.scheduledEndTimestamp ?? event.scheduledStartTimestamp ?? 0) - (event.scheduledStartTimestamp ?? 0)
+        let location = event.channelId ? `<#${event.channelId}>` : event.entityMetadata?.location ?? ""
+
+        for (let startTime of getEventOccurrences(event, periodStart, periodEnd, timezone)) {
+            entries.push({
+                name: event.name,
+                startTime: startTime,
+                endTime: durationMs > 0 ? new Date(startTime.getTime() + durationMs) : null,
+                location: location,
+                url: event.url,
+            })
+        }
+    }
+
+    for (let series of eventRepository.listSeries(guild.id)) {
+        // The next created occurrence links to the series in Discord
+        let nextEvent = eventRepository.listEventsBySeries(series.seriesId).find(storedEvent => storedEvent.status == "scheduled")
+        let url = nextEvent ? `https://discord.com/events/${guild.id}/${nextEvent.eventId}` : ""
+
+        // Skipped occurrences are left out, rescheduled ones listed at their new time
+        for (let occurrence of expandSeriesOccurrences(series, new Date(periodStart.getTime() - 1), MAX_OCCURRENCES_PER_EVENT)) {
+            if (occurrence.originalStart >= periodEnd) {
+                break
+            }
+            if (occurrence.startTime < periodStart || occurrence.startTime >= periodEnd) {
+                continue
+            }
+            entries.push({
+                name: series.eventName,
+                startTime: occurrence.startTime,
+                endTime: occurrence.endTime,
+                location: series.eventLocation,
+                url: url,
+            })
+        }
+    }
+
+    return entries.sort((first, second) => first.startTime.getTime() - second.startTime.getTime())
+}
+
+/**
+ * Lists the start times of an event within a period.
+ *
+ * @param event - The scheduled event, one-time or recurring.
+ * @param periodStart - The start of the period.
+ * @param periodEnd - The end of the period.
+ * @param timezone - The timezone used if the bot has no record of the event.
+ *
+ * @returns The start times in chronological order.
+ */
+function getEventOccurrences(event: GuildScheduledEvent, periodStart: Date, periodEnd: Date, timezone: string): Date[] {
+    let storedEvent = eventRepository.getEvent(event.id)
+    let storedDetails = storedEvent?.details
+    // Occurrences of a finished bot-managed series are single events, their stored interval describes the series
+    let rule = storedDetails && storedDetails.interval != "" && !storedEvent!.seriesId
+        ? parseRecurrenceRule(storedDetails.interval, storedDetails.frequency, storedDetails.startTime, storedDetails.timezone)
+        : null
+
+    let occurrences: Date[] = []
+    if (rule) {
+        occurrences = expandOccurrences(rule, storedDetails!.startTime, storedDetails!.timezone, new Date(periodStart.getTime() - 1), MAX_OCCURRENCES_PER_EVENT)
+    }
+    else {
+        let occurrence = getNextOccurrence(event, new Date(periodStart.getTime() - 1), storedDetails?.timezone ?? timezone)
+        while (occurrence && occurrence < periodEnd && occurrences.length < MAX_OCCURRENCES_PER_EVENT) {
+            occurrences.push(occurrence)
+            occurrence = event.recurrenceRule ? getNextOccurrence(event, occurrence, storedDetails?.timezone ?? timezone) : null
+        }
+    }
+
+    // Events that already started are still part of today's agenda
+    if (event.isActive() && event.scheduledStartAt && event.scheduledStartAt < periodStart) {
+        occurrences.unshift(event.scheduledStartAt)
+    }
+
+    return occurrences.filter(startTime => startTime < periodEnd)
+}
+
+/**
+ * Builds the digest embed with one field per day of the period.
+ *
+ * @param entries - The `AgendaEntry`s of the period.
+ * @param periodStart - The first day of the period in the guild's timezone.
+ * @param days - The number of days covered.
+ * @param settings - The settings of the guild, the days follow its timezone.
+ *
+ * @returns The embed.
+ */
+function buildDigestEmbed(entries: AgendaEntry[], periodStart: DateTime, days: number, settings: GuildSettings): EmbedBuilder {
+    let periodEnd = periodStart.plus({ days: days - 1 })
+    let embed = new EmbedBuilder()
+        .setTitle(days == 7 ? "This week" : `The next ${days} days`)
+        .setDescription(`${periodStart.setLocale(settings.locale).toFormat("ccc d LLL")} – ${periodEnd.setLocale(settings.locale).toFormat("ccc d LLL yyyy")} (${settings.timezone})`)
+        .setTimestamp(new Date())
+
+    for (let dayIndex = 0; dayIndex < days && embed.data.fields?.length != MAX_FIELDS; dayIndex++) {
+        let day = periodStart.plus({ days: dayIndex })
+        let nextDay = day.plus({ days: 1 })
+        let dayEntries = entries.filter(entry => entry.startTime >= day.toJSDate() && entry.startTime < nextDay.toJSDate())
+        if (dayEntries.length == 0) {
+            continue
+        }
+
+        let value = ""
+        for (let [index, entry] of dayEntries.entries()) {
+            let startSeconds = Math.floor(entry.startTime.getTime() / 1000)
+            let line = `<t:${startSeconds}:t>` + (entry.endTime ? `–<t:${Math.floor(entry.endTime.getTime() / 1000)}:t>` : "")
+                + ` ${entry.url ? `[${entry.name}](${entry.url})` : `**${entry.name}**`}` + (entry.location ? ` · ${entry.location}` : "") + "\n"
+            let moreLine = `… and ${dayEntries.length - index} more`
+            if (value.length + line.length + moreLine.length > MAX_FIELD_LENGTH) {
+                value += moreLine
+                break
+            }
+            value += line
+        }
+
+        embed.addFields({ name: day.setLocale(settings.locale).toFormat("cccc, d LLLL"), value: value })
+    }
+
+    if (!embed.data.fields?.length) {
+        embed.addFields({ name: "No events", value: "Nothing is scheduled for this period." })
+    }
+
+    return embed
+}
+
+/**
+ * Posts the agenda digest of a guild, or edits the previous digest message if it still exists.
+ *
+ * ### Example:
+ * ```ts
+ * await postAgendaDigest("123456789012345678")
+ * ```
+ *
+ * @param guildID - The Discord guild (server) ID.
+ *
+ * @returns A `Promise<void>` that resolves once the digest was posted or edited.
+ *
+ * @remarks
+ * - The period starts at midnight of the current day and covers `digestDays` days, both in the guild's timezone.
+ * - A new digest message is pinned if the bot may do so; the previous one is edited instead of posting again,
+ *   unless the digest channel changed.
+ * - The message and run time are stored in the `digestRepository`.
+ *
+ * @throws Errors from the Discord API are passed to the caller.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger`, the guild settings and `buildAgenda`.
+ */
+export async function postAgendaDigest(guildID: string): Promise<void> {
+    let settings = getGuildSettings(guildID)
+    if (!settings.digestChannelId) {
+        return
+    }
+
+    let guild = await client.guilds.fetch(guildID)
+    let channel = await guild.channels.fetch(settings.digestChannelId)
+    if (!channel || !channel.isTextBased()) {
+        throw new Error(`Digest channel ${settings.digestChannelId} is no text channel.`)
+    }
+
+    let periodStart = DateTime.now().setZone(settings.timezone).startOf("day")
+    let periodEnd = periodStart.plus({ days: settings.digestDays })
+    let entries = await buildAgenda(guild, periodStart.toJSDate(), periodEnd.toJSDate(), settings.timezone)
+    let embed = buildDigestEmbed(entries, periodStart, settings.digestDays, settings)
+
+    let state = digestRepository.getState(guildID)
+    let previousMessage = state?.messageId && state.channelId == channel.id
+        ? await (channel as TextChannel).messages.fetch(state.messageId).catch(() => null)
+        : null
+
+    let messageID: string
+    if (previousMessage) {
+        await previousMessage.edit({ embeds: [embed] })
+        messageID = previousMessage.id
+    }
+    else {
+        let message = await (channel as TextChannel).send({ embeds: [embed] })
+        await message.pin().catch(e => logger.error(`Could not pin the digest in guild ${guildID}: ` + e))
+        messageID = message.id
+    }
+
+    digestRepository.saveState({ guildId: guildID, channelId: channel.id, messageId: messageID, lastRun: new Date() })
+    logger.info(`Agenda digest of guild ${guildID} posted with ${entries.length} occurrence(s).`)
+}
+
+/**
+ * Posts the digests of all guilds whose digest schedule fired since their last run.
+ *
+ * @returns A `Promise<void>` that resolves once all guilds were checked.
+ *
+ * @remarks
+ * - A guild that enabled the digest is first only registered, its first digest follows at the next scheduled time.
+ * - Runs missed while the bot was offline are caught up once after the restart.
+ *
+ * @throws No exceptions are thrown to the caller; errors per guild are logged.
+ */
+export async function runDueDigests(): Promise<void> {
+    for (let guild of client.guilds.cache.values()) {
+        let settings = getGuildSettings(guild.id)
+        if (!settings.digestChannelId) {
+            continue
+        }
+
+        let state = digestRepository.getState(guild.id)
+        if (!state) {
+            digestRepository.saveState({ guildId: guild.id, channelId: null, messageId: null, lastRun: new Date() })
+            continue
+        }
+
+        let schedule = parseCronSchedule(settings.digestSchedule)
+        let nextRun = schedule ? getNextCronTime(schedule, state.lastRun, settings.timezone) : null
+        if (!nextRun || nextRun > new Date()) {
+            continue
+        }
+
+        try {
+            await postAgendaDigest(guild.id)
+        } catch (e) {
+            logger.error(`Failed to post the agenda digest of guild ${guild.id}: ` + e)
+            // Wait for the next scheduled time instead of retrying every minute
+            digestRepository.saveState({ ...state, lastRun: new Date() })
+        }
+    }
+}
+
+/**
+ * Checks every minute whether a guild's agenda digest is due.
+ *
+ * ### Example:
+ * ```ts
+ * client.once(Events.ClientReady, async () => {
+ *     await startAgendaDigests()
+ * })
+ * ```
+ *
+ * @returns A `Promise<void>` that resolves after the first check.
+ */
+export async function startAgendaDigests(): Promise<void> {
+    await runDueDigests()
+    setInterval(runDueDigests, DIGEST_CHECK_INTERVAL)
+}
@@ -0,0 +1,460 @@
+import { AttachmentBuilder, EmbedBuilder, TextChannel, type Guild, type GuildScheduledEvent, type PartialGuildScheduledEvent, type VoiceState } from "discord.js"
+import type { Database } from "bun:sqlite"
+import { logger, client } from "./mainBot"
+import { database } from "./database"
+import { findScheduledEvents } from "./additionalFunctions"
+import { splitEventFields } from "./EventDetails"
+import { eventRepository } from "./eventStore"
+import type { CommandOutcome } from "./eventFunctions"
+
+export interface VoiceSession {
+    eventId: string
+    // Start of the occurrence the session belongs to, recurring Discord events keep their ID across occurrences
+    occurrenceStart: string
+    guildId: string
+    channelId: string
+    userId: string
+    userName: string
+    joinedAt: Date
+    leftAt: Date | null
+}
+
+export interface InterestedSnapshot {
+    eventId: string
+    occurrenceStart: string
+    userId: string
+    userName: string
+}
+
+/**
+ * Storage of who was in an event's voice channel and who was interested when an occurrence ended.
+ */
+export interface AttendanceRepository {
+    openSession(session: VoiceSession): void
+    closeSessions(guildID: string, userID: string | null, channelID: string, leftAt: Date): void
+    listSessions(eventID: string): VoiceSession[]
+    saveInterested(snapshots: InterestedSnapshot[]): void
+    listInterested(eventID: string): InterestedSnapshot[]
+}
+
+/**
+ * `AttendanceRepository` backed by SQLite (via `bun:sqlite`).
+ */
+export class SqliteAttendanceRepository implements AttendanceRepository {
+    private db: Database
+
+    constructor(db: Database) {
+        this.db = db
+        this.db.run(`CREATE TABLE IF NOT EXISTS voice_sessions (
+            event_id TEXT NOT NULL,
+            occurrence_start TEXT NOT NULL,
+            guild_id TEXT NOT NULL,
+            channel_id TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            user_name TEXT NOT NULL,
+            joined_at TEXT NOT NULL,
+            left_at TEXT
+        )`)
+        this.db.run("CREATE INDEX IF NOT EXISTS voice_sessions_event ON voice_sessions (event_id)")
+        this.db.run(`CREATE TABLE IF NOT EXISTS interested_snapshots (
+            event_id TEXT NOT NULL,
+            occurrence_start TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            user_name TEXT NOT NULL,
+            PRIMARY KEY (event_id, occurrence_start, user_id)
+        )`)
+    }
+
+    openSession(session: VoiceSession): void {
+        this.db.query("INSERT INTO voice_sessions (event_id, occurrence_start, guild_id, channel_id, user_id, user_name, joined_at, left_at) VALUES (?, ?, ?, ?, ?, ?, ?, NULL)")
+            .run(session.eventId, session.occurrenceStart, session.guildId, session.channelId, session.userId, session.userName, session.joinedAt.toISOString())
+    }
+
+    closeSessions(guildID: string, userID: string | null, channelID: string, leftAt: Date): void {
+        if (userID) {
+            this.db.query("UPDATE voice_sessions SET left_at = ? WHERE guild_id = ? AND user_id = ? AND channel_id = ? AND left_at IS NULL")
+                .run(leftAt.toISOString(), guildID, userID, channelID)
+        }
+        else {
+            this.db.query("UPDATE voice_sessions SET left_at = ? WHERE guild_id = ? AND channel_id = ? AND left_at IS NULL")
+                .run(leftAt.toISOString(), guildID, channelID)
+        }
+    }
+
+    listSessions(eventID: string): VoiceSession[] {
+        return this.db.query<{ event_id: string, occurrence_start: string, guild_id: string, channel_id: string, user_id: string, user_name: string, joined_at: string, left_at: string | null }, [string]>(
+            "SELECT * FROM voice_sessions WHERE event_id = ? ORDER BY joined_at"
+        ).all(eventID).map(row => ({
+            eventId: row.event_id,
+            occurrenceStart: row.occurrence_start,
+            guildId: row.guild_id,
+            channelId: row.channel_id,
+            userId: row.user_id,
+            userName: row.user_name,
+            joinedAt: new Date(row.joined_at),
+            leftAt: row.left_at ? new Date(row.left_at) : null,
+        }))
+    }
+
+    saveInterested(snapshots: InterestedSnapshot[]): void {
+        let insert = this.db.query("INSERT OR REPLACE INTO interested_snapshots (event_id, occurrence_start, user_id, user_name) VALUES (?, ?, ?, ?)")
+        this.db.transaction(() => {
+            for (let snapshot of snapshots) {
+                insert.run(snapshot.eventId, snapshot.occurrenceStart, snapshot.userId, snapshot.userName)
+            }
+        })()
+    }
+
+    listInterested(eventID: string): InterestedSnapshot[] {
+        return this.db.query<{ event_id: string, occurrence_start: string, user_id: string, user_name: string }, [string]>(
+            "SELECT * FROM interested_snapshots WHERE event_id = ?"
+        ).all(eventID).map(row => ({ eventId: row.event_id, occurrenceStart: row.occurrence_start, userId: row.user_id, userName: row.user_name }))
+    }
+}
+
+export const attendanceRepository: AttendanceRepository = new SqliteAttendanceRepository(database)
+
+// Discord returns at most 100 subscribers per request
+const MAX_SUBSCRIBER_FETCH = 100
+// Members listed in the summary embed, the CSV contains everyone
+const MAX_SUMMARY_MEMBERS = 15
+
+/**
+ * Records members joining and leaving the voice or stage channel of an active event.
+ *
+ * ### Example:
+ * ```ts
+ * client.on(Events.VoiceStateUpdate, handleVoiceStateUpdate)
+ * ```
+ *
+ * @param oldState - The voice state before the change.
+ * @param newState - The voice state after the change.
+ *
+ * @remarks
+ * - Only channels of events that are active at that moment are recorded.
+ */
+export function handleVoiceStateUpdate(oldState: VoiceState, newState: VoiceState): void {
+    if (oldState.channelId == newState.channelId) {
+        return
+    }
+
+    let now = new Date()
+    if (oldState.channelId) {
+        attendanceRepository.closeSessions(oldState.guild.id, oldState.id, oldState.channelId, now)
+    }
+    if (newState.channelId) {
+        let activeEvents = newState.guild.scheduledEvents.cache.filter(event => event.isActive() && event.channelId == newState.channelId)
+        for (let event of activeEvents.values()) {
+            attendanceRepository.openSession({
+                eventId: event.id,
+                occurrenceStart: event.scheduledStartAt?.toISOString() ?? now.toISOString(),
+                guildId: newState.guild.id,
+                channelId: newState.channelId,
+                userId: newState.id,
+                userName: newState.member?.user.tag ?? newState.id,
+                joinedAt: now,
+                leftAt: null,
+            })
+        }
+    }
+}
+
+/**
+ * Starts recording the voice channel when an event starts, and stores the interested members when an occurrence ends.
+ *
+ * ### Example:
+ * ```ts
+ * client.on(Events.GuildScheduledEventUpdate, handleEventStatusUpdate)
+ * ```
+ *
+ * @param oldEvent - The event before the update, `null` if it was not cached.
+ * @param newEvent - The event after the update.
+ *
+ * @returns A `Promise<void>` that resolves once the attendance was recorded.
+ *
+ * @remarks
+ * - Members already in the channel when the event starts are recorded from the start.
+ * - Recurring Discord events go back to "scheduled" after an occurrence, which counts as its end as well.
+ *
+ * @throws No exceptions are thrown to the caller; errors are logged.
+ */
+export async function handleEventStatusUpdate(oldEvent: GuildScheduledEvent | PartialGuildScheduledEvent | null, newEvent: GuildScheduledEvent): Promise<void> {
+    try {
+        let wasActive = oldEvent != null && !oldEvent.partial && oldEvent.isActive()
+
+        if (!wasActive && newEvent.isActive() && newEvent.channel) {
+            let now = new Date()
+            for (let member of newEvent.channel.members.values()) {
+                attendanceRepository.openSession({
+                    eventId: newEvent.id,
+                    occurrenceStart: newEvent.scheduledStartAt?.toISOString() ?? now.toISOString(),
+                    guildId: newEvent.guildId,
+                    channelId: newEvent.channel.id,
+                    userId: member.id,
+                    userName: member.user.tag,
+                    joinedAt: now,
+                    leftAt: null,
+                })
+            }
+            logger.info(`Recording attendance of event ${newEvent.id} in channel ${newEvent.channel.id}.`)
+        }
+
+        if (wasActive && !newEvent.isActive()) {
+            let occurrenceStart = (oldEvent as GuildScheduledEvent).scheduledStartAt?.toISOString() ?? new Date().toISOString()
+            if (oldEvent!.channelId) {
+                attendanceRepository.closeSessions(newEvent.guildId, null, oldEvent!.channelId, new Date())
+            }
+
+            let subscribers = await newEvent.fetchSubscribers({ limit: MAX_SUBSCRIBER_FETCH })
+            attendanceRepository.saveInterested([...subscribers.values()].map(subscriber => ({
+                eventId: newEvent.id,
+                occurrenceStart: occurrenceStart,
+                userId: subscriber.user.id,
+                userName: subscriber.user.tag,
+            })))
+            logger.info(`Attendance of event ${newEvent.id} (${occurrenceStart}) recorded, ${subscribers.size} interested.`)
+        }
+    } catch (e) {
+        logger.error(`Failed to record the attendance of event ${newEvent.id}: ` + e)
+    }
+}
+
+interface AttendanceRow {
+    occurrenceStart: string
+    userId: string
+    userName: string
+    interested: boolean
+    voiceSeconds: number
+}
+
+/**
+ * Collects the attendance of one event ID, one row per member and occurrence.
+ *
+ * @param eventID - The ID of the event.
+ * @param event - The event from Discord, or `null` if it no longer exists.
+ * @param onlyLatest - `true` to only report the latest occurrence.
+ *
+ * @returns A `Promise` resolving to the rows.
+ *
+ * @remarks
+ * - Ended occurrences use the interested members stored at their end, the current or next occurrence is fetched from Discord.
+ */
+async function collectEventAttendance(eventID: string, event: GuildScheduledEvent | null, onlyLatest: boolean): Promise<AttendanceRow[]> {
+    let rows = new Map<string, AttendanceRow>()
+    let getRow = (occurrenceStart: string, userId: string, userName: string) => {
+        let key = occurrenceStart + "/" + userId
+        if (!rows.has(key)) {
+            rows.set(key, { occurrenceStart, userId, userName, interested: false, voiceSeconds: 0 })
+        }
+        return rows.get(key)!
+    }
+
+    for (let snapshot of attendanceRepository.listInterested(eventID)) {
+        getRow(snapshot.occurrenceStart, snapshot.userId, snapshot.userName).interested = true
+    }
+
+    let now = Date.now()
+    for (let session of attendanceRepository.listSessions(eventID)) {
+        getRow(session.occurrenceStart, session.userId, session.userName).voiceSeconds += Math.round(((session.leftAt?.getTime() ?? now) - session.joinedAt.getTime()) / 1000)
+    }
+
+    // The current or next occurrence has no stored snapshot yet
+    if (event && !event.isCompleted() && !event.isCanceled() && event.scheduledStartAt) {
+        let occurrenceStart = event.scheduledStartAt.toISOString()
+        let subscribers = await event.fetchSubscribers({ limit: MAX_SUBSCRIBER_FETCH })
+        for (let subscriber of subscribers.values()) {
+            getRow(occurrenceStart, subscriber.user.id, subscriber.user.tag).interested = true
+        }
+    }
+
+    let eventRows = [...rows.values()]
+    if (onlyLatest) {
+        let latestOccurrence = eventRows.map(row => row.occurrenceStart).sort().at(-1)
+        eventRows = eventRows.filter(row => row.occurrenceStart == latestOccurrence)
+    }
+
+    return eventRows
+}
+
+/**
+ * Escapes a value for a CSV cell (RFC 4180).
+ *
+ * @param value - The value.
+ *
+ * @returns The escaped value, quoted if needed.
+ */
+function escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Formats a number of seconds as hours and minutes, e.g. `"1h 20m"`.
+ *
+ * @param seconds - The duration in seconds.
+ *
+ * @returns The formatted duration.
+ */
+function formatVoiceTime(seconds: number): string {
+    let minutes = Math.round(seconds / 60)
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`
+}
+
+/**
+ * Builds the summary embed of an attendance report.
+ *
+ * @param title - The name of the event or series.
+ * @param rows - The attendance rows of all reported occurrences.
+ * @param includeVoice - Whether voice presence is reported.
+ *
+ * @returns The embed.
+ */
+function buildAttendanceEmbed(title: string, rows: AttendanceRow[], includeVoice: boolean): EmbedBuilder {
+    let occurrences = [...new Set(rows.map(row => row.occurrenceStart))].sort()
+    let members = new Map<string, { interested: number, attended: number, voiceSeconds: number }>()
+    for (let row of rows) {
+        let member = members.get(row.userId) ?? { interested: 0, attended: 0, voiceSeconds: 0 }
+        member.interested += row.interested ? 1 : 0
+        member.attended += row.voiceSeconds > 0 ? 1 : 0
+        member.voiceSeconds += row.voiceSeconds
+        members.set(row.userId, member)
+    }
+
+    let embed = new EmbedBuilder()
+        .setTitle(`Attendance: ${title}`.slice(0, 256))
+        .setDescription(occurrences.length == 0
+            ? "No attendance recorded yet."
+            : `${occurrences.length} occurrence(s) from <t:${Math.floor(new Date(occurrences[0]!).getTime() / 1000)}:d> to <t:${Math.floor(new Date(occurrences.at(-1)!).getTime() / 1000)}:d>`)
+        .addFields({ name: "Interested", value: String([...members.values()].filter(member => member.interested > 0).length), inline: true })
+
+    if (includeVoice) {
+        embed.addFields({ name: "In voice", value: String([...members.values()].filter(member => member.attended > 0).length), inline: true })
+    }
+
+    let memberLines = [...members.entries()]
+        .sort(([, first], [, second]) => (second.attended - first.attended) || (second.interested - first.interested) || (second.voiceSeconds - first.voiceSeconds))
+        .map(([userID, member]) => `<@${userID}> — interested ${member.interested}/${occurrences.length}`
+            + (includeVoice ? ` · in voice ${member.attended}/${occurrences.length} (${formatVoiceTime(member.voiceSeconds)})` : ""))
+    if (memberLines.length > 0) {
+        let shownLines = memberLines.slice(0, MAX_SUMMARY_MEMBERS)
+        if (memberLines.length > shownLines.length) {
+            shownLines.push(`… and ${memberLines.length - shownLines.length} more, see the CSV`)
+        }
+        embed.addFields({ name: "Members", value: shownLines.join("\n").slice(0, 1024) })
+    }
+
+    return embed
+}
+
+/**
+ * Posts the attendance of an event or a whole recurring series as summary embed with a CSV file.
+ *
+ * ### Example:
+ * ```ts
+ * await reportDiscordAttendance(
+ *   "Raid Night; series; voice",
+ *   "123456789012345678",
+ *   "987654321098765432"
+ * );
+ * ```
+ *
+ * @param attendanceInfo - A semicolon-separated string starting with the event ID or exact event name, followed by optional flags:
+ *   - `series` aggregates all occurrences of a recurring event or bot-managed series, otherwise only the latest occurrence is reported.
+ *   - `voice` adds who was in the event's voice or stage channel while it was active.
+ * @param guildID - The Discord guild (server) ID the event belongs to.
+ * @param replyChannel - The ID of the Discord channel where the report or errors will be posted.
+ *
+ * @returns A `Promise` resolving to `"done"` once the report was sent, or `"failed"` (the reason is posted when possible).
+ *
+ * @remarks
+ * - Interested members are stored when an occurrence ends, so past occurrences can still be reported.
+ *   Only the first 100 interested members of an occurrence are returned by Discord.
+ * - Voice presence is only recorded while the bot is running, from the moment an event is started until it ends.
+ * - The CSV has one row per member and occurrence: `occurrence_start, user_id, user_name, interested, voice_minutes`.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger`, the `attendanceRepository` and the `eventRepository`.
+ */
+export async function reportDiscordAttendance(attendanceInfo: string, guildID: string, replyChannel: string): Promise<CommandOutcome> {
+    logger.info("Invoking Attendance: " + attendanceInfo)
+    let channel = client.channels.cache.get(replyChannel)
+
+    try {
+        let attendanceParts = splitEventFields(attendanceInfo).filter(part => part != "")
+        let identifier = attendanceParts.shift()
+        let flags = attendanceParts.map(part => part.toLowerCase())
+        let unknownFlags = flags.filter(flag => flag != "series" && flag != "voice")
+        if (!identifier || unknownFlags.length > 0) {
+            logger.error("Invalid Attendance command: " + attendanceInfo)
+            await (channel as TextChannel).send("Attendance needs this format: Event ID or Name; series; voice (series and voice are optional)")
+            return "failed"
+        }
+
+        let guild = await client.guilds.fetch(guildID)
+        let { title, eventIDs, event } = await resolveAttendanceEvents(guild, identifier, flags.includes("series"))
+        if (eventIDs.length == 0) {
+            logger.error("No event found for: " + identifier)
+            await (channel as TextChannel).send("No event found for: " + identifier)
+            return "failed"
+        }
+
+        let rows: AttendanceRow[] = []
+        for (let eventID of eventIDs) {
+            let discordEvent = eventID == event?.id ? event : await guild.scheduledEvents.fetch(eventID).catch(() => null)
+            rows.push(...await collectEventAttendance(eventID, discordEvent, !flags.includes("series")))
+        }
+        if (eventIDs.length > 1) {
+            // Occurrences of a bot-managed series are separate events, of the upcoming ones only the next is reported
+            let nextOccurrence = rows.map(row => row.occurrenceStart).filter(start => new Date(start).getTime() > Date.now()).sort()[0]
+            rows = rows.filter(row => new Date(row.occurrenceStart).getTime() <= Date.now() || row.occurrenceStart == nextOccurrence)
+        }
+        rows.sort((first, second) => first.occurrenceStart.localeCompare(second.occurrenceStart) || first.userName.localeCompare(second.userName))
+
+        let csvLines = ["occurrence_start,user_id,user_name,interested,voice_minutes"]
+            .concat(rows.map(row => [row.occurrenceStart, row.userId, escapeCsv(row.userName), row.interested ? "yes" : "no", String(Math.round(row.voiceSeconds / 60))].join(",")))
+        let attachment = new AttachmentBuilder(Buffer.from(csvLines.join("\r\n"), "utf-8"), { name: "attendance.csv" })
+
+        await (channel as TextChannel).send({ embeds: [buildAttendanceEmbed(title, rows, flags.includes("voice"))], files: [attachment], allowedMentions: { parse: [] } })
+        logger.info(`Attendance of "${title}" reported with ${rows.length} row(s).`)
+        return "done"
+
+    } catch (e) {
+        logger.error("Failed to report attendance: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send("Failed to report attendance: " + e).catch(() => null)
+        }
+        return "failed"
+    }
+}
+
+/**
+ * Finds the event IDs an attendance report covers.
+ *
+ * @param guild - The Discord guild.
+ * @param identifier - The event ID or exact event name.
+ * @param wholeSeries - `true` to include every occurrence of a bot-managed series.
+ *
+ * @returns A `Promise` resolving to the report title, the event IDs and the matching Discord event (if it still exists).
+ *
+ * @remarks
+ * - Ended events no longer exist in Discord, they are found by ID or name in the `eventRepository`.
+ */
+async function resolveAttendanceEvents(guild: Guild, identifier: string, wholeSeries: boolean): Promise<{ title: string, eventIDs: string[], event: GuildScheduledEvent | null }> {
+    let event = (await findScheduledEvents(guild, identifier))[0] ?? null
+    let storedEvent = eventRepository.getEvent(event?.id ?? identifier)
+        ?? eventRepository.listEvents(guild.id).filter(storedEvent => storedEvent.details.eventName.toLowerCase() == identifier.toLowerCase()).at(-1)
+        ?? null
+
+    let eventID = event?.id ?? storedEvent?.eventId
+    if (!eventID) {
+        return { title: identifier, eventIDs: [], event: null }
+    }
+
+    let title = event?.name ?? storedEvent!.details.eventName
+    if (wholeSeries && storedEvent?.seriesId) {
+        return { title, eventIDs: eventRepository.listEventsBySeries(storedEvent.seriesId).map(seriesEvent => seriesEvent.eventId), event }
+    }
+
+    return { title, eventIDs: [eventID], event }
+}
@@ -0,0 +1,375 @@
+import { AttachmentBuilder, GuildScheduledEventRecurrenceRuleFrequency, TextChannel, type Guild, type GuildScheduledEvent, type GuildScheduledEventRecurrenceRule } from "discord.js"
+import { DateTime } from "luxon"
+import { createHmac } from "crypto"
+import { logger, client } from "./mainBot"
+import { getTrackedEvent } from "./eventScheduler"
+import { findSeriesByEvent } from "./recurringSeries"
+import { eventRepository, type RecurringSeries } from "./eventStore"
+import { getGuildSettings } from "./guildSettings"
+import { getLanguage, translate } from "./localization"
+import type { CommandOutcome } from "./eventFunctions"
+
+const PRODUCT_ID = "-//Event-Manager-Bot//Discord Events//EN"
+const weekdayCodes = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"]
+
+/**
+ * Escapes a text value for iCalendar (RFC 5545, 3.3.11).
+ *
+ * @param text - The text to escape.
+ *
+ * @returns The escaped text.
+ */
+function escapeText(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+/**
+ * Folds a content line to at most 75 octets per line (RFC 5545, 3.1).
+ *
+ * @param line - The unfolded content line.
+ *
+ * @returns The folded line, continuation lines start with a space.
+ */
+function foldLine(line: string): string {
+    let foldedLines: string[] = []
+    let currentLine = ""
+
+    for (let character of line) {
+        let limit = foldedLines.length == 0 ? 75 : 74
+        if (Buffer.byteLength(currentLine + character) > limit) {
+            foldedLines.push(currentLine)
+            currentLine = ""
+        }
+        currentLine += character
+    }
+    foldedLines.push(currentLine)
+
+    return foldedLines.join("\r\n ")
+}
+
+/**
+ * Formats a point in time as local iCalendar date-time in the given timezone (e.g. `20250620T180000`).
+ *
+ * @param date - The point in time.
+ * @param tz - The IANA timezone.
+ *
+ * @returns The formatted local date-time.
+ */
+function formatLocalTime(date: Date, tz: string): string {
+    return DateTime.fromJSDate(date, { zone: tz }).toFormat("yyyyMMdd'T'HHmmss")
+}
+
+/**
+ * Formats a UTC offset in minutes as iCalendar offset (e.g. `+0200`).
+ *
+ * @param offset - The offset in minutes.
+ *
+ * @returns The formatted offset.
+ */
+function formatOffset(offset: number): string {
+    let absoluteOffset = Math.abs(offset)
+    return (offset < 0 ? "-" : "+") + String(Math.floor(absoluteOffset / 60)).padStart(2, "0") + String(absoluteOffset % 60).padStart(2, "0")
+}
+
+/**
+ * Builds the `VTIMEZONE` component of an IANA timezone for the given years.
+ *
+ * ### Example:
+ * ```ts
+ * buildTimezoneComponent("Europe/Berlin", 2025, 2026);
+ * // Returns: VTIMEZONE lines with a DAYLIGHT and STANDARD block for every change between 2025 and 2026
+ * ```
+ *
+ * @param tz - The IANA timezone.
+ * @param fromYear - The first year events of this timezone take place in.
+ * @param toYear - The last year events of this timezone take place in.
+ *
+ * @returns The content lines of the `VTIMEZONE` component.
+ *
+ * @remarks
+ * - The offset changes are taken from the timezone database via luxon, one block per change (no RRULEs),
+ *   so historic and future rule changes are exported correctly.
+ * - Timezones without changes in that period only get the initial block.
+ */
+export function buildTimezoneComponent(tz: string, fromYear: number, toYear: number): string[] {
+    let current = DateTime.fromObject({ year: fromYear }, { zone: tz }).startOf("year")
+    let end = DateTime.fromObject({ year: toYear }, { zone: tz }).endOf("year")
+
+    // The first block covers everything from the start of the period up to the first change
+    let lines = [
+        "BEGIN:VTIMEZONE",
+        `TZID:${tz}`,
+        ...buildTimezoneObservance(current.toFormat("yyyyMMdd'T'HHmmss"), current.offset, current),
+    ]
+
+    // Look at every day and narrow down each offset change to the minute
+    while (current < end) {
+        let next = current.plus({ days: 1 })
+        if (next.offset != current.offset) {
+            let low = current.toMillis()
+            let high = next.toMillis()
+            while (high - low > 60_000) {
+                let middle = low + Math.floor((high - low) / 120_000) * 60_000
+                if (DateTime.fromMillis(middle, { zone: tz }).offset == current.offset) {
+                    low = middle
+                }
+                else {
+                    high = middle
+                }
+            }
+
+            // DTSTART is the local time before the change, i.e. in the old offset
+            let localStart = DateTime.fromMillis(high, { zone: "utc" }).plus({ minutes: current.offset }).toFormat("yyyyMMdd'T'HHmmss")
+            lines.push(...buildTimezoneObservance(localStart, current.offset, DateTime.fromMillis(high, { zone: tz })))
+        }
+        current = next
+    }
+
+    lines.push("END:VTIMEZONE")
+    return lines
+}
+
+/**
+ * Builds one `STANDARD` or `DAYLIGHT` block of a `VTIMEZONE`.
+ *
+ * @param localStart - The local start of the block in the old offset.
+ * @param offsetFrom - The offset in minutes before the block starts.
+ * @param observance - A point in time within the block, its offset, DST flag and name are used.
+ *
+ * @returns The content lines of the block.
+ */
+function buildTimezoneObservance(localStart: string, offsetFrom: number, observance: DateTime): string[] {
+    let componentName = observance.isInDST ? "DAYLIGHT" : "STANDARD"
+
+    return [
+        `BEGIN:${componentName}`,
+        `DTSTART:${localStart}`,
+        `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(observance.offset)}`,
+        `TZNAME:${observance.offsetNameShort}`,
+        `END:${componentName}`,
+    ]
+}
+
+/**
+ * Converts Discord's recurrence rule of a scheduled event into an RFC 5545 RRULE value.
+ *
+ * @param rule - The recurrence rule of the Discord event.
+ *
+ * @returns The RRULE, e.g. `"FREQ=WEEKLY;INTERVAL=2;BYDAY=SA"`.
+ */
+export function discordRuleToRRule(rule: GuildScheduledEventRecurrenceRule): string {
+    let frequency = {
+        [GuildScheduledEventRecurrenceRuleFrequency.Daily]: "DAILY",
+        [GuildScheduledEventRecurrenceRuleFrequency.Weekly]: "WEEKLY",
+        [GuildScheduledEventRecurrenceRuleFrequency.Monthly]: "MONTHLY",
+        [GuildScheduledEventRecurrenceRuleFrequency.Yearly]: "YEARLY",
+    }[rule.frequency]
+
+    // Discord counts weekdays from Monday = 0
+    let byDay = [
+        ...(rule.byNWeekday ?? []).map(day => day.n + weekdayCodes[day.day]!),
+        ...(rule.byWeekday ?? []).map(day => weekdayCodes[day]!),
+    ]
+
+    let parts = [`FREQ=${frequency}`, `INTERVAL=${rule.interval}`]
+    if (byDay.length > 0) parts.push("BYDAY=" + byDay.join(","))
+    if (rule.byMonthDay && rule.byMonthDay.length > 0) parts.push("BYMONTHDAY=" + rule.byMonthDay.join(","))
+    if (rule.byMonth && rule.byMonth.length > 0) parts.push("BYMONTH=" + rule.byMonth.join(","))
+    if (rule.count) parts.push("COUNT=" + rule.count)
+    if (rule.endAt) parts.push("UNTIL=" + DateTime.fromJSDate(rule.endAt, { zone: "utc" }).toFormat("yyyyMMdd'T'HHmmss'Z'"))
+
+    return parts.join(";")
+}
+
+/**
+ * Builds the `VEVENT` lines for a Discord scheduled event.
+ *
+ * @param event - The Discord scheduled event.
+ * @param tz - The IANA timezone the event was planned in.
+ * @param series - The bot-managed series the event belongs to, exported as one recurring `VEVENT`.
+ *
+ * @returns The content lines of the `VEVENT` component, followed by one `VEVENT` per rescheduled occurrence of the series.
+ */
+function buildEventComponent(event: GuildScheduledEvent, tz: string, series: RecurringSeries | undefined): string[] {
+    let startTime = series ? new Date(series.firstStart) : event.recurrenceRule?.startAt ?? event.scheduledStartAt!
+    let durationMs = (event.scheduledEndTimestamp ?? event.scheduledStartTimestamp!) - event.scheduledStartTimestamp!
+    let endTime = new Date(startTime.getTime() + durationMs)
+    let location = event.entityMetadata?.location ?? event.channel?.name ?? ""
+
+    let lines = [
+        "BEGIN:VEVENT",
+        `UID:${series ? series.seriesId : event.id}@event-manager-bot`,
+        `DTSTAMP:${DateTime.utc().toFormat("yyyyMMdd'T'HHmmss'Z'")}`,
+        `DTSTART;TZID=${tz}:${formatLocalTime(startTime, tz)}`,
+        `DTEND;TZID=${tz}:${formatLocalTime(endTime, tz)}`,
+        `SUMMARY:${escapeText(event.name)}`,
+    ]
+
+    if (series) {
+        lines.push(`RRULE:${series.rule}`)
+        for (let exception of (series.exceptions ?? []).filter(exception => exception.type == "skip")) {
+            lines.push(`EXDATE;TZID=${tz}:${formatLocalTime(new Date(exception.originalStart), tz)}`)
+        }
+    }
+    else if (event.recurrenceRule) {
+        lines.push(`RRULE:${discordRuleToRRule(event.recurrenceRule)}`)
+    }
+
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (location) lines.push(`LOCATION:${escapeText(location)}`)
+    lines.push(`URL:${event.url}`, `STATUS:${event.isCanceled() ? "CANCELLED" : "CONFIRMED"}`, "END:VEVENT")
+
+    // Rescheduled occurrences of a series override the occurrence they replace
+    for (let exception of (series?.exceptions ?? []).filter(exception => exception.type == "reschedule")) {
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${series!.seriesId}@event-manager-bot`,
+            `DTSTAMP:${DateTime.fromISO(exception.createdAt, { zone: "utc" }).toFormat("yyyyMMdd'T'HHmmss'Z'")}`,
+            `RECURRENCE-ID;TZID=${tz}:${formatLocalTime(new Date(exception.originalStart), tz)}`,
+            `DTSTART;TZID=${tz}:${formatLocalTime(new Date(exception.newStart!), tz)}`,
+            `DTEND;TZID=${tz}:${formatLocalTime(new Date(exception.newEnd!), tz)}`,
+            `SUMMARY:${escapeText(event.name)}`,
+            ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+            "END:VEVENT",
+        )
+    }
+
+    return lines
+}
+
+/**
+ * Builds an RFC 5545 iCalendar document with all upcoming scheduled events of a guild.
+ *
+ * ### Example:
+ * ```ts
+ * const calendar = await buildGuildCalendar(guild);
+ * // Returns: "BEGIN:VCALENDAR\r\nVERSION:2.0\r\n..."
+ * ```
+ *
+ * @param guild - The Discord guild whose events are exported.
+ *
+ * @returns A `Promise` resolving to the calendar text with CRLF line endings.
+ *
+ * @remarks
+ * - Times are exported in the timezone the event was created in (`EventDetails.timezone`), with a matching `VTIMEZONE`.
+ *   Events not created by the bot use the guild's default timezone.
+ * - Recurring Discord events and bot-managed series are exported once, with their `RRULE`.
+ * - Completed and cancelled events are left out.
+ */
+export async function buildGuildCalendar(guild: Guild): Promise<string> {
+    let scheduledEvents = await guild.scheduledEvents.fetch()
+    let eventComponents: string[] = []
+    let timezoneYears = new Map<string, { fromYear: number, toYear: number }>()
+    let exportedSeries = new Set<string>()
+    let defaultTimezone = getGuildSettings(guild.id).timezone
+
+    for (let event of scheduledEvents.values()) {
+        if (event.isCompleted() || event.isCanceled() || !event.scheduledStartAt) {
+            continue
+        }
+
+        let series = findSeriesByEvent(event.id)
+        if (series) {
+            if (exportedSeries.has(series.seriesId)) {
+                continue
+            }
+            exportedSeries.add(series.seriesId)
+        }
+
+        let tz = series?.timezone ?? eventRepository.getEvent(event.id)?.details.timezone ?? getTrackedEvent(event.id)?.timezone ?? defaultTimezone
+        let startYear = DateTime.fromJSDate(series ? new Date(series.firstStart) : event.recurrenceRule?.startAt ?? event.scheduledStartAt, { zone: tz }).year
+        let years = timezoneYears.get(tz) ?? { fromYear: startYear, toYear: startYear }
+        timezoneYears.set(tz, {
+            fromYear: Math.min(years.fromYear, startYear),
+            // Recurring events continue, so the following years are covered as well
+            toYear: Math.max(years.toYear, startYear + (series || event.recurrenceRule ? 2 : 0)),
+        })
+
+        eventComponents.push(...buildEventComponent(event, tz, series))
+    }
+
+    let lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODUCT_ID}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(guild.name)}`,
+    ]
+    for (let [tz, years] of timezoneYears) {
+        lines.push(...buildTimezoneComponent(tz, years.fromYear, years.toYear))
+    }
+    lines.push(...eventComponents, "END:VCALENDAR")
+
+    return lines.map(foldLine).join("\r\n") + "\r\n"
+}
+
+/**
+ * Calculates the access token of a guild's calendar feed.
+ *
+ * ### Example:
+ * ```ts
+ * getCalendarFeedToken("123456789012345678");
+ * // Returns: a 32 character hex token, the same for every call with the same CALENDAR_FEED_SECRET
+ * ```
+ *
+ * @param guildID - The ID of the guild.
+ *
+ * @returns The token, derived from `CALENDAR_FEED_SECRET` (or the bot token) so that it does not need to be stored.
+ *
+ * @remarks
+ * - Changing `CALENDAR_FEED_SECRET` invalidates all feed URLs.
+ */
+export function getCalendarFeedToken(guildID: string): string {
+    let secret = process.env.CALENDAR_FEED_SECRET || process.env.DISCORD_BOT_TOKEN || ""
+    return createHmac("sha256", secret).update(guildID).digest("hex").slice(0, 32)
+}
+
+/**
+ * Exports all upcoming events of a guild as `.ics` file into the reply channel.
+ *
+ * ### Example:
+ * ```ts
+ * await exportDiscordCalendar("123456789012345678", "987654321098765432");
+ * ```
+ *
+ * @param guildID - The Discord guild (server) ID whose events are exported.
+ * @param replyChannel - The ID of the Discord channel the file is posted to.
+ *
+ * @returns A `Promise` resolving to `"done"` once the file was sent, or `"failed"` (the reason is posted when possible).
+ *
+ * @remarks
+ * - If the HTTP server is enabled (`HTTP_PORT`) and `HTTP_PUBLIC_URL` is set, the subscribable feed URL is mentioned as well.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ */
+export async function exportDiscordCalendar(guildID: string, replyChannel: string): Promise<CommandOutcome> {
+    logger.info("Invoking Calendar Export for guild " + guildID)
+    let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID)
+
+    try {
+        let guild = await client.guilds.fetch(guildID)
+        let calendar = await buildGuildCalendar(guild)
+        let attachment = new AttachmentBuilder(Buffer.from(calendar, "utf-8"), { name: "events.ics" })
+
+        let content = translate(language, "export.done", { name: guild.name })
+        if (process.env.HTTP_PORT && process.env.HTTP_PUBLIC_URL) {
+            content += " " + translate(language, "export.subscribe", { url: `${process.env.HTTP_PUBLIC_URL}/guilds/${guild.id}/calendar.ics?token=${getCalendarFeedToken(guild.id)}` })
+        }
+
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send({ content: content, files: [attachment] })
+        }
+        logger.info(`Calendar of guild ${guild.id} exported.`)
+        return "done"
+
+    } catch (e) {
+        logger.error("Failed to export calendar: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(translate(language, "export.failed", { error: String(e) })).catch(() => null)
+        }
+        return "failed"
+    }
+}
@@ -0,0 +1,214 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, MessageFlags, type ButtonInteraction, type Guild } from "discord.js"
+import { randomUUID } from "crypto"
+import { logger } from "./mainBot"
+import type { EventDetails } from "./EventDetails"
+import { parseRecurrenceRule, expandOccurrences } from "./recurrenceEngine"
+import { buildAgenda, type AgendaEntry } from "./agendaDigest"
+import { resolveEventLocation } from "./eventLocation"
+import { getLanguage, translate } from "./localization"
+
+export interface EventConflict {
+    existing: AgendaEntry
+    // Start of the occurrence of the new event that overlaps
+    newStart: Date
+}
+
+interface PendingConfirmation {
+    authorId: string
+    onConfirm: () => Promise<unknown>
+}
+
+// Occurrences of a new schedule that are checked for conflicts
+const CHECKED_OCCURRENCES = 10
+// Events without end time (voice and stage events) are assumed to take this long
+const DEFAULT_EVENT_DURATION = 60 * 60 * 1000
+// Existing events that started up to this long before a new one are checked, they may still be running
+const RUNNING_EVENT_LOOKBACK = 24 * 60 * 60 * 1000
+// Conflict warnings wait this long for a decision
+const CONFIRMATION_TIMEOUT = 15 * 60 * 1000
+// Conflicts listed in a warning
+const MAX_LISTED_CONFLICTS = 10
+const BUTTON_PREFIX = "event-conflict:"
+
+const pendingConfirmations = new Map<string, PendingConfirmation>()
+
+/**
+ * Splits a trailing `force` flag off the event details of a `New Event` or `New Schedule` command.
+ *
+ * ### Example:
+ * ```ts
+ * splitForceFlag("Raid; 2025-06-20 18:00; 2h; Europe/Berlin; Raid Voice; force")
+ * // Returns: { eventInfo: "Raid; 2025-06-20 18:00; 2h; Europe/Berlin; Raid Voice", force: true }
+ * ```
+ *
+ * @param eventInfo - The event details as given in the command.
+ *
+ * @returns The event details without the flag, and whether it was given.
+ */
+export function splitForceFlag(eventInfo: string): { eventInfo: string, force: boolean } {
+    let match = eventInfo.match(/;\s*force\s*$/i)
+    return match ? { eventInfo: eventInfo.slice(0, match.index), force: true } : { eventInfo, force: false }
+}
+
+/**
+ * Finds existing events that take place at the same location or in the same voice channel while a new event would.
+ *
+ * ### Example:
+ * ```ts
+ * const conflicts = await findEventConflicts(guild, eventDetails)
+ * // Returns: [{ existing: { name: "Raid Night", ... }, newStart: Date }]
+ * ```
+ *
+ * @param guild - The Discord guild the event is created in.
+ * @param eventDetails - The validated `EventDetails` of the new event or schedule.
+ *
+ * @returns A `Promise` resolving to the conflicts, sorted by start time.
+ *
+ * @remarks
+ * - Schedules are checked with their next `CHECKED_OCCURRENCES` (10) occurrences.
+ * - Existing recurring events and bot-managed series are expanded into their occurrences (see `buildAgenda`).
+ * - Locations are compared case-insensitively, voice and stage channels by their ID.
+ *
+ * @throws An `Error` if the location names a channel that cannot be used (see `resolveEventLocation`).
+ */
+export async function findEventConflicts(guild: Guild, eventDetails: EventDetails): Promise<EventConflict[]> {
+    let location = (await resolveEventLocation(guild, eventDetails.eventLocation)).storedLocation.toLowerCase()
+    let durationMs = eventDetails.endTime.getTime() - eventDetails.startTime.getTime()
+
+    let newStarts = [eventDetails.startTime]
+    if (eventDetails.interval != "") {
+        let rule = parseRecurrenceRule(eventDetails.interval, eventDetails.frequency, eventDetails.startTime, eventDetails.timezone)
+        if (rule) {
+            newStarts = expandOccurrences(rule, eventDetails.startTime, eventDetails.timezone, new Date(eventDetails.startTime.getTime() - 1), CHECKED_OCCURRENCES)
+        }
+    }
+    if (newStarts.length == 0) {
+        return []
+    }
+
+    let periodStart = new Date(newStarts[0]!.getTime() - RUNNING_EVENT_LOOKBACK)
+    let periodEnd = new Date(newStarts.at(-1)!.getTime() + durationMs)
+    let existingEntries = (await buildAgenda(guild, periodStart, periodEnd, eventDetails.timezone))
+        .filter(entry => entry.location.trim().toLowerCase() == location)
+
+    let conflicts: EventConflict[] = []
+    for (let newStart of newStarts) {
+        let newEnd = newStart.getTime() + durationMs
+        for (let entry of existingEntries) {
+            let entryEnd = entry.endTime?.getTime() ?? entry.startTime.getTime() + DEFAULT_EVENT_DURATION
+            if (entry.startTime.getTime() < newEnd && newStart.getTime() < entryEnd) {
+                conflicts.push({ existing: entry, newStart: newStart })
+            }
+        }
+    }
+
+    return conflicts
+}
+
+/**
+ * Formats conflicts as warning text.
+ *
+ * @param conflicts - The conflicts found by `findEventConflicts`.
+ * @param language - The language of the warning.
+ *
+ * @returns The warning, listing at most `MAX_LISTED_CONFLICTS` conflicts.
+ */
+export function formatConflicts(conflicts: EventConflict[], language: string): string {
+    let lines = conflicts.slice(0, MAX_LISTED_CONFLICTS).map(conflict => {
+        let start = Math.floor(conflict.existing.startTime.getTime() / 1000)
+        let end = conflict.existing.endTime ? `–<t:${Math.floor(conflict.existing.endTime.getTime() / 1000)}:t>` : ""
+        let name = conflict.existing.url ? `[${conflict.existing.name}](${conflict.existing.url})` : `**${conflict.existing.name}**`
+        return translate(language, "conflict.entry", { name: name, time: `<t:${start}:f>${end}`, location: conflict.existing.location })
+    })
+    if (conflicts.length > lines.length) {
+        lines.push(translate(language, "conflict.more", { count: conflicts.length - lines.length }))
+    }
+
+    return translate(language, "conflict.warning", { conflicts: lines.join("\n") })
+}
+
+/**
+ * Builds the warning message with Create anyway/Cancel buttons and remembers what to do on confirmation.
+ *
+ * ### Example:
+ * ```ts
+ * await (channel as TextChannel).send(requestConflictConfirmation(conflicts, message.author.id, async () => {
+ *     await createNewDiscordEvent(eventInfo, attachment, guildID, replyChannel, commandContext, true)
+ * }, language))
+ * ```
+ *
+ * @param conflicts - The conflicts found by `findEventConflicts`.
+ * @param authorID - The ID of the user who may confirm, usually the author of the command.
+ * @param onConfirm - Creates the event once the author confirmed.
+ * @param language - The language of the warning and the buttons, usually the author's.
+ *
+ * @returns The message payload with the warning and the buttons.
+ *
+ * @remarks
+ * - The buttons work for `CONFIRMATION_TIMEOUT` (15 minutes) and not after a restart.
+ */
+export function requestConflictConfirmation(conflicts: EventConflict[], authorID: string, onConfirm: () => Promise<unknown>, language: string) {
+    let confirmationID = randomUUID()
+    pendingConfirmations.set(confirmationID, { authorId: authorID, onConfirm: onConfirm })
+    setTimeout(() => pendingConfirmations.delete(confirmationID), CONFIRMATION_TIMEOUT)
+
+    let buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder().setCustomId(`${BUTTON_PREFIX}${confirmationID}:confirm`).setLabel(translate(language, "button.createAnyway")).setStyle(ButtonStyle.Danger),
+        new ButtonBuilder().setCustomId(`${BUTTON_PREFIX}${confirmationID}:cancel`).setLabel(translate(language, "button.cancel")).setStyle(ButtonStyle.Secondary),
+    )
+
+    return {
+        content: formatConflicts(conflicts, language) + "\n" + translate(language, "conflict.question"),
+        components: [buttons],
+        allowedMentions: { parse: [] },
+    }
+}
+
+/**
+ * Checks whether a button belongs to a conflict warning.
+ *
+ * @param customID - The custom ID of the pressed button.
+ *
+ * @returns `true` for the buttons of a conflict warning; otherwise, `false`.
+ */
+export function isConflictButton(customID: string): boolean {
+    return customID.startsWith(BUTTON_PREFIX)
+}
+
+/**
+ * Creates or discards the event of a conflict warning, depending on the pressed button.
+ *
+ * @param interaction - The button interaction.
+ *
+ * @returns A `Promise<void>` that resolves once the event was created or discarded.
+ *
+ * @remarks
+ * - Only the author of the command may decide, others get an ephemeral hint.
+ * - The answers use the language of the user who pressed the button.
+ * - The buttons are removed after the decision, so the event cannot be created twice.
+ */
+export async function handleConflictButton(interaction: ButtonInteraction<"cached">): Promise<void> {
+    let [confirmationID, decision] = interaction.customId.slice(BUTTON_PREFIX.length).split(":")
+    let language = getLanguage(interaction.guildId, interaction.user.id)
+    let pendingConfirmation = pendingConfirmations.get(confirmationID!)
+    if (!pendingConfirmation) {
+        await interaction.update({ content: interaction.message.content + "\n" + translate(language, "conflict.expired"), components: [] })
+        return
+    }
+
+    if (interaction.user.id != pendingConfirmation.authorId) {
+        await interaction.reply({ content: translate(language, "button.authorOnly"), flags: MessageFlags.Ephemeral })
+        return
+    }
+
+    pendingConfirmations.delete(confirmationID!)
+    if (decision != "confirm") {
+        logger.info(`Event creation cancelled after a conflict warning by ${interaction.user.tag}.`)
+        await interaction.update({ content: interaction.message.content + "\n" + translate(language, "button.cancelled"), components: [] })
+        return
+    }
+
+    logger.info(`Conflict warning confirmed by ${interaction.user.tag}.`)
+    await interaction.update({ content: interaction.message.content + "\n" + translate(language, "button.confirmed"), components: [] })
+    await pendingConfirmation.onConfirm()
+}
@@ -0,0 +1,157 @@
+import { DateTime } from "luxon"
+
+export interface CronSchedule {
+    minutes: number[]
+    hours: number[]
+    daysOfMonth: number[]
+    months: number[]
+    // 0 = Sunday, ..., 6 = Saturday
+    daysOfWeek: number[]
+    // Whether day of month and day of week were restricted, cron matches either of them if both are
+    dayOfMonthRestricted: boolean
+    dayOfWeekRestricted: boolean
+}
+
+const cronAliases: Record<string, string> = {
+    "@hourly": "0 * * * *",
+    "@daily": "0 0 * * *",
+    "@weekly": "0 0 * * 0",
+    "@monthly": "0 0 1 * *",
+}
+const dayNames = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"]
+const monthNames = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"]
+
+// Upper bound for the days searched for the next run, covers rules like "every 29th of February"
+const MAX_SEARCH_DAYS = 4 * 366
+
+/**
+ * Parses a cron expression with the five fields minute, hour, day of month, month and day of week.
+ *
+ * ### Example:
+ * ```ts
+ * parseCronSchedule("0 8 * * MON")
+ * // Returns: every Monday at 08:00
+ *
+ * parseCronSchedule("30 18 * * 1-5")
+ * // Returns: every weekday at 18:30
+ * ```
+ *
+ * @param expression - The cron expression, or one of `@hourly`, `@daily`, `@weekly`, `@monthly`.
+ *   Every field accepts `*`, single values, lists (`1,3`), ranges (`1-5`) and steps (`*\/15`, `0-30/10`),
+ *   months and days of week also accept English three-letter names (`JAN`, `MON`).
+ *
+ * @returns The parsed `CronSchedule`, or `null` if the expression is invalid.
+ */
+export function parseCronSchedule(expression: string): CronSchedule | null {
+    let cronText = cronAliases[expression.trim().toLowerCase()] ?? expression.trim()
+    let fields = cronText.toUpperCase().split(/\s+/)
+    if (fields.length != 5) {
+        return null
+    }
+
+    let minutes = parseCronField(fields[0]!, 0, 59, [])
+    let hours = parseCronField(fields[1]!, 0, 23, [])
+    let daysOfMonth = parseCronField(fields[2]!, 1, 31, [])
+    let months = parseCronField(fields[3]!, 1, 12, monthNames)
+    // 7 is Sunday as well
+    let daysOfWeek = parseCronField(fields[4]!, 0, 7, dayNames)?.map(day => day % 7)
+    if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+        return null
+    }
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek: [...new Set(daysOfWeek)],
+        dayOfMonthRestricted: fields[2] != "*",
+        dayOfWeekRestricted: fields[4] != "*",
+    }
+}
+
+/**
+ * Parses a single cron field.
+ *
+ * @param field - The field, e.g. `"1-5"`, `"*\/15"` or `"MON,WED"`.
+ * @param min - The smallest allowed value.
+ * @param max - The largest allowed value.
+ * @param names - Names of the values starting at `min`, e.g. the month names.
+ *
+ * @returns The sorted matching values, or `null` if the field is invalid.
+ */
+function parseCronField(field: string, min: number, max: number, names: string[]): number[] | null {
+    let values = new Set<number>()
+    let toNumber = (value: string) => names.includes(value) ? names.indexOf(value) + min : /^\d+$/.test(value) ? Number(value) : NaN
+
+    for (let part of field.split(",")) {
+        let [range, stepText] = part.split("/")
+        let step = stepText == undefined ? 1 : Number(stepText)
+        if (!Number.isInteger(step) || step < 1) {
+            return null
+        }
+
+        let bounds = range == "*" ? [min, max] : range!.split("-").map(toNumber)
+        let first = bounds[0]!
+        // "5/10" means from 5 to the end in steps of 10
+        let last = bounds[1] ?? (stepText == undefined ? first : max)
+        if (bounds.length > 2 || isNaN(first) || isNaN(last) || first < min || last > max || first > last) {
+            return null
+        }
+
+        for (let value = first; value <= last; value += step) {
+            values.add(value)
+        }
+    }
+
+    return [...values].sort((first, second) => first - second)
+}
+
+/**
+ * Calculates the next time a cron schedule fires after a given point in time.
+ *
+ * ### Example:
+ * ```ts
+ * getNextCronTime(parseCronSchedule("0 8 * * MON")!, new Date(), "Europe/Berlin")
+ * // Returns: next Monday 08:00 in Berlin
+ * ```
+ *
+ * @param schedule - The `CronSchedule`.
+ * @param after - Only times strictly after this point are considered.
+ * @param tz - The IANA timezone the schedule's hours and days are meant in.
+ *
+ * @returns The next run time, or `null` if the schedule never fires (e.g. "31st of February").
+ *
+ * @remarks
+ * - As in cron, if both day of month and day of week are restricted, a day matching either of them fires.
+ * - A local time skipped by a DST change fires at the next existing time.
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date, tz: string): Date | null {
+    let day = DateTime.fromJSDate(after, { zone: tz }).startOf("day")
+
+    for (let dayIndex = 0; dayIndex < MAX_SEARCH_DAYS; dayIndex++, day = day.plus({ days: 1 })) {
+        if (!schedule.months.includes(day.month)) {
+            continue
+        }
+
+        let dayOfMonthMatches = schedule.daysOfMonth.includes(day.day)
+        let dayOfWeekMatches = schedule.daysOfWeek.includes(day.weekday % 7)
+        let dayMatches = schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted
+            ? dayOfMonthMatches || dayOfWeekMatches
+            : dayOfMonthMatches && dayOfWeekMatches
+        if (!dayMatches) {
+            continue
+        }
+
+        for (let hour of schedule.hours) {
+            for (let minute of schedule.minutes) {
+                let candidate = day.set({ hour, minute }).toJSDate()
+                if (candidate > after) {
+                    return candidate
+                }
+            }
+        }
+    }
+
+    return null
+}
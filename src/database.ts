@@ -0,0 +1,14 @@
+import { Database } from "bun:sqlite"
+import fs from "fs"
+import path from "path"
+
+// SQLite database shared by all repositories of the bot
+const databasePath = process.env.DATABASE_PATH || "data/eventManager.sqlite"
+
+if (databasePath != ":memory:") {
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true })
+}
+
+export const database = new Database(databasePath, { create: true })
+database.run("PRAGMA journal_mode = WAL")
+database.run("PRAGMA foreign_keys = ON")
@@ -0,0 +1,470 @@
+import { DateTime } from "luxon"
+
+export type DateOrder = "DMY" | "MDY" | "YMD"
+
+export interface ParsedDateTime {
+    dateTime: DateTime
+    hasDate: boolean
+    ambiguous: boolean
+    relative: boolean
+}
+
+export interface EventTimes {
+    startTime: Date | null
+    endTime: Date | null
+    notes: string[]
+}
+
+interface ParsedDate {
+    year: number
+    month: number
+    day: number
+    ambiguous: boolean
+    relative: boolean
+    // A weekday without "next"/"this" that is today, the next week is meant if the time already passed
+    weekdayToday?: boolean
+}
+
+interface ParsedTime {
+    hour: number
+    minute: number
+}
+
+const monthNames: Record<string, number> = {
+    january: 1, jan: 1, januar: 1, jänner: 1,
+    february: 2, feb: 2, februar: 2,
+    march: 3, mar: 3, märz: 3, maerz: 3, mär: 3,
+    april: 4, apr: 4,
+    may: 5, mai: 5,
+    june: 6, jun: 6, juni: 6,
+    july: 7, jul: 7, juli: 7,
+    august: 8, aug: 8,
+    september: 9, sep: 9, sept: 9,
+    october: 10, oct: 10, oktober: 10, okt: 10,
+    november: 11, nov: 11,
+    december: 12, dec: 12, dezember: 12, dez: 12,
+}
+
+// Luxon weekdays: 1 = Monday ... 7 = Sunday
+const weekdayNames: Record<string, number> = {
+    monday: 1, mon: 1, montag: 1, mo: 1,
+    tuesday: 2, tue: 2, tues: 2, dienstag: 2, di: 2,
+    wednesday: 3, wed: 3, mittwoch: 3, mi: 3,
+    thursday: 4, thu: 4, thurs: 4, donnerstag: 4, do: 4,
+    friday: 5, fri: 5, freitag: 5, fr: 5,
+    saturday: 6, sat: 6, samstag: 6, sa: 6,
+    sunday: 7, sun: 7, sonntag: 7, so: 7,
+}
+
+const relativeDays: Record<string, number> = {
+    today: 0, heute: 0,
+    tomorrow: 1, morgen: 1,
+    "day after tomorrow": 2, übermorgen: 2, uebermorgen: 2,
+}
+
+const TIME_PATTERN = String.raw`(?:\d{1,2}:\d{2}(?:\s*[ap]\.?m\.?)?|\d{1,2}\s*[ap]\.?m\.?|noon|midnight|mittag|mitternacht|\d{1,2}\s*uhr)`
+
+/**
+ * Determines in which order a locale writes day, month and year in numeric dates.
+ *
+ * ### Example:
+ * ```ts
+ * getDateOrder("en-US") // Returns: "MDY"
+ * getDateOrder("de-DE") // Returns: "DMY"
+ * ```
+ *
+ * @param locale - A BCP 47 locale, e.g. `"en-GB"`.
+ *
+ * @returns The `DateOrder` of the locale; `"DMY"` if the locale is unknown.
+ */
+export function getDateOrder(locale: string): DateOrder {
+    try {
+        let order = new Intl.DateTimeFormat(locale, { year: "numeric", month: "2-digit", day: "2-digit" })
+            .formatToParts(new Date(2000, 11, 31))
+            .filter(part => part.type == "day" || part.type == "month" || part.type == "year")
+            .map(part => part.type[0]!.toUpperCase())
+            .join("")
+        return order == "MDY" || order == "YMD" ? order : "DMY"
+    } catch {
+        return "DMY"
+    }
+}
+
+/**
+ * Parses a time of day in 24h or 12h notation.
+ *
+ * @param input - The time, e.g. `"18:00"`, `"8pm"`, `"8:30 a.m."`, `"noon"` or `"20 Uhr"`.
+ *
+ * @returns The hour and minute, or `null` if the input is no valid time.
+ */
+function parseTime(input: string): ParsedTime | null {
+    let time = input.trim().toLowerCase().replace(/\./g, "")
+
+    if (time == "noon" || time == "mittag") {
+        return { hour: 12, minute: 0 }
+    }
+    if (time == "midnight" || time == "mitternacht") {
+        return { hour: 0, minute: 0 }
+    }
+
+    let match = time.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm|uhr)?$/)
+    if (!match || (match[2] == undefined && match[3] == undefined)) {
+        return null
+    }
+
+    let hour = +match[1]!
+    let minute = +(match[2] ?? 0)
+    let meridiem = match[3]
+
+    if (meridiem == "am" || meridiem == "pm") {
+        if (hour < 1 || hour > 12) {
+            return null
+        }
+        hour = hour % 12 + (meridiem == "pm" ? 12 : 0)
+    }
+
+    if (hour > 23 || minute > 59) {
+        return null
+    }
+
+    return { hour, minute }
+}
+
+/**
+ * Completes a date without year: the current year, or the next one if the date already passed.
+ *
+ * @param month - The month (1-12).
+ * @param day - The day of the month.
+ * @param today - The current day in the event's timezone.
+ *
+ * @returns The year the date is meant in.
+ */
+function inferYear(month: number, day: number, today: DateTime): number {
+    let candidate = DateTime.fromObject({ year: today.year, month, day }, { zone: today.zone })
+    return candidate.isValid && candidate < today.startOf("day") ? today.year + 1 : today.year
+}
+
+/**
+ * Parses the date part of an input: absolute dates in common formats, weekdays and relative days.
+ *
+ * @param input - The date without time, lower case.
+ * @param dateOrder - The order used for ambiguous numeric dates like `03/04/2025`.
+ * @param today - The current day in the event's timezone.
+ *
+ * @returns The parsed date, or `null` if the input is no valid date.
+ */
+function parseDate(input: string, dateOrder: DateOrder, today: DateTime): ParsedDate | null {
+    let text = input.trim().replace(/\s+/g, " ").replace(/^(on|am) /, "")
+
+    // Relative days and "in 3 days" / "in 2 weeks"
+    if (relativeDays[text] != undefined) {
+        let date = today.plus({ days: relativeDays[text] })
+        return { year: date.year, month: date.month, day: date.day, ambiguous: false, relative: true }
+    }
+    let inMatch = text.match(/^in (\d+) (days?|weeks?|tagen|wochen)$/)
+    if (inMatch) {
+        let amount = +inMatch[1]!
+        let date = inMatch[2]!.startsWith("w") ? today.plus({ weeks: amount }) : today.plus({ days: amount })
+        return { year: date.year, month: date.month, day: date.day, ambiguous: false, relative: true }
+    }
+
+    // Weekdays, "next Friday" always means the coming one after today
+    let weekdayMatch = text.match(/^(next |this |nächsten |naechsten |kommenden )?([a-zäöü]+)\.?$/)
+    if (weekdayMatch && weekdayNames[weekdayMatch[2]!] != undefined) {
+        let weekday = weekdayNames[weekdayMatch[2]!]!
+        let daysAhead = (weekday - today.weekday + 7) % 7
+        if (weekdayMatch[1] && weekdayMatch[1] != "this " && daysAhead == 0) {
+            daysAhead = 7
+        }
+        let date = today.plus({ days: daysAhead })
+        return { year: date.year, month: date.month, day: date.day, ambiguous: false, relative: true, weekdayToday: !weekdayMatch[1] && daysAhead == 0 }
+    }
+
+    // ISO 8601 and other year-first dates: 2025-06-20, 2025/06/20
+    let isoMatch = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/)
+    if (isoMatch) {
+        return { year: +isoMatch[1]!, month: +isoMatch[2]!, day: +isoMatch[3]!, ambiguous: false, relative: false }
+    }
+
+    // Numeric dates: 20.06.2025, 20.06., 06/20/2025, 03/04
+    let numericMatch = text.match(/^(\d{1,2})([./-])(\d{1,2})(?:\2(\d{2}|\d{4}))?\.?$/)
+    if (numericMatch) {
+        let first = +numericMatch[1]!
+        let second = +numericMatch[3]!
+        let separator = numericMatch[2]
+        let ambiguous = false
+        let monthFirst = dateOrder == "MDY"
+
+        // Dots are only used day-first, otherwise an impossible month decides
+        if (separator == ".") {
+            monthFirst = false
+        }
+        else if (first > 12) {
+            monthFirst = false
+        }
+        else if (second > 12) {
+            monthFirst = true
+        }
+        else if (first != second) {
+            ambiguous = true
+        }
+
+        let month = monthFirst ? first : second
+        let day = monthFirst ? second : first
+        let year = numericMatch[4] ? +numericMatch[4] : inferYear(month, day, today)
+        if (year < 100) {
+            year += 2000
+        }
+        return { year, month, day, ambiguous, relative: false }
+    }
+
+    // Dates with month names: 20 June 2025, 20. Juni, June 20th, 2025, Jun 20
+    let dayFirstMatch = text.match(/^(\d{1,2})(?:st|nd|rd|th|\.)? ([a-zäöü]+)\.?(?: (\d{4}))?$/)
+    let monthFirstMatch = text.match(/^([a-zäöü]+)\.? (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/)
+    let namedMatch = dayFirstMatch
+        ? { day: dayFirstMatch[1]!, month: dayFirstMatch[2]!, year: dayFirstMatch[3] }
+        : monthFirstMatch ? { day: monthFirstMatch[2]!, month: monthFirstMatch[1]!, year: monthFirstMatch[3] } : null
+    if (namedMatch && monthNames[namedMatch.month] != undefined) {
+        let month = monthNames[namedMatch.month]!
+        let day = +namedMatch.day
+        let year = namedMatch.year ? +namedMatch.year : inferYear(month, day, today)
+        return { year, month, day, ambiguous: false, relative: false }
+    }
+
+    return null
+}
+
+/**
+ * Parses a date and time as typed by users into a point in time of the given timezone.
+ *
+ * ### Example:
+ * ```ts
+ * parseDateTime("20.06.2025 18:00", "Europe/Berlin", "de-DE")
+ * parseDateTime("next Friday 7:30pm", "America/New_York", "en-US")
+ * parseDateTime("03/04/2025 18:00", "Europe/London", "en-GB")
+ * // Returns: 3 April 2025 18:00, marked as ambiguous
+ * ```
+ *
+ * @param input - The date and time, see the remarks for accepted formats.
+ * @param tz - The IANA timezone the input is meant in.
+ * @param locale - The BCP 47 locale used for ambiguous numeric dates (see `getDateOrder`).
+ * @param referenceTime - The current time, relative expressions are resolved from it.
+ *
+ * @returns The `ParsedDateTime`, or `null` if the input could not be read.
+ *
+ * @remarks
+ * - Dates: `YYYY-MM-DD`, `DD.MM.YYYY`, `DD.MM.`, `MM/DD/YYYY` or `DD/MM/YYYY` (by locale), `20 June 2025`, `June 20th`,
+ *   `today`, `tomorrow`, `in 3 days`, `Friday`, `next Friday` (common German words work as well).
+ * - Times: `18:00`, `8pm`, `8:30 a.m.`, `noon`, `midnight`, `20 Uhr`.
+ * - Without a year, the next matching date is used. Without a date, today is used (tomorrow if the time already passed).
+ *   A weekday that is today means next week's if the time already passed, `this Friday` keeps today.
+ * - A date without time is not accepted, events always need a start time.
+ */
+export function parseDateTime(input: string, tz: string, locale: string, referenceTime: Date = new Date()): ParsedDateTime | null {
+    let text = input.trim().toLowerCase().replace(/,/g, " ").replace(/(\d)t(\d)/, "$1 $2").replace(/\s+/g, " ")
+    let now = DateTime.fromJSDate(referenceTime, { zone: tz })
+    if (!now.isValid || text == "") {
+        return null
+    }
+
+    // Split off the time, the remaining text is the date
+    let timeMatch = text.match(new RegExp(`(?:^|\\s)(?:at |um )?(${TIME_PATTERN})$`)) ?? text.match(new RegExp(`^(${TIME_PATTERN})(?:\\s|$)`))
+    if (!timeMatch) {
+        return null
+    }
+    let time = parseTime(timeMatch[1]!)
+    if (!time) {
+        return null
+    }
+    let dateText = text.replace(timeMatch[0], " ").trim()
+
+    let date: ParsedDate | null
+    if (dateText == "") {
+        let todayAtTime = now.set({ hour: time.hour, minute: time.minute, second: 0, millisecond: 0 })
+        let day = todayAtTime < now ? now.plus({ days: 1 }) : now
+        date = { year: day.year, month: day.month, day: day.day, ambiguous: false, relative: true }
+    }
+    else {
+        date = parseDate(dateText, getDateOrder(locale), now.startOf("day"))
+    }
+    if (!date) {
+        return null
+    }
+
+    let dateTime = DateTime.fromObject({ year: date.year, month: date.month, day: date.day, hour: time.hour, minute: time.minute }, { zone: tz })
+    if (!dateTime.isValid) {
+        return null
+    }
+    if (date.weekdayToday && dateTime < now) {
+        dateTime = dateTime.plus({ weeks: 1 })
+    }
+
+    return { dateTime, hasDate: dateText != "", ambiguous: date.ambiguous, relative: date.relative }
+}
+
+/**
+ * Parses a duration such as `2h`, `90m`, `1h30`, `1.5 hours` or `1:30h`.
+ *
+ * ### Example:
+ * ```ts
+ * parseDuration("1h30") // Returns: 5400000
+ * ```
+ *
+ * @param input - The duration.
+ *
+ * @returns The duration in milliseconds, or `null` if the input is no duration.
+ */
+export function parseDuration(input: string): number | null {
+    let text = input.trim().toLowerCase().replace(/^\+\s*/, "").replace(",", ".")
+
+    let clockMatch = text.match(/^(\d{1,2}):(\d{2})\s*h$/)
+    if (clockMatch) {
+        return (+clockMatch[1]! * 60 + +clockMatch[2]!) * 60_000
+    }
+
+    let match = text.match(/^(?:(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?|std|stunden?))?\s*(?:(\d+)\s*(?:m|mins?|minutes?|minuten)?)?$/)
+    if (!match || (match[1] == undefined && match[2] == undefined)) {
+        return null
+    }
+    // A plain number without unit is no duration
+    if (match[1] == undefined && !/[a-z]/.test(text)) {
+        return null
+    }
+
+    let duration = (+(match[1] ?? 0) * 60 + +(match[2] ?? 0)) * 60_000
+    return duration > 0 ? duration : null
+}
+
+/**
+ * Describes how an input was read, so users can check ambiguous or relative dates.
+ *
+ * @param input - The original input.
+ * @param parsed - The parsed date and time.
+ * @param locale - The locale that decided an ambiguous date.
+ *
+ * @returns A sentence like `Read "03/04 18:00" as Thursday, 3 April 2025 18:00 (day/month order of en-GB).`
+ */
+function describeInterpretation(input: string, parsed: ParsedDateTime, locale: string): string {
+    let readableDate = parsed.dateTime.setLocale("en-GB").toFormat("cccc, d LLLL yyyy HH:mm")
+    let dateOrder = getDateOrder(locale) == "MDY" ? "month/day" : "day/month"
+
+    return `Read "${input.trim()}" as ${readableDate}` + (parsed.ambiguous ? ` (${dateOrder} order of ${locale}).` : ".")
+}
+
+/**
+ * Parses the start and end of an event, where the end may depend on the start.
+ *
+ * ### Example:
+ * ```ts
+ * parseEventTimes("tomorrow 18:00", "2h", "Europe/Berlin", "de-DE")
+ * parseEventTimes("20.06.2025 18:00-20:00", "", "Europe/Berlin", "de-DE")
+ * parseEventTimes("2025-06-20 23:00", "01:00", "Europe/Berlin", "de-DE")
+ * // Returns: end on 21 June 01:00
+ * ```
+ *
+ * @param startInput - The start date and time, may contain a time range (`18:00-20:00`, `8pm to 10pm`).
+ * @param endInput - The end as date and time, time only, or duration (`2h`, `90m`); may be empty if the start is a range.
+ * @param tz - The IANA timezone of the event.
+ * @param locale - The BCP 47 locale used for ambiguous numeric dates.
+ * @param referenceTime - The current time, relative expressions are resolved from it.
+ *
+ * @returns The start and end (`null` if unreadable) and the interpretation notes of ambiguous or relative inputs.
+ *
+ * @remarks
+ * - An end given as time only is on the start's day, or on the following day if it would be before the start.
+ */
+export function parseEventTimes(startInput: string, endInput: string, tz: string, locale: string, referenceTime: Date = new Date()): EventTimes {
+    let notes: string[] = []
+    let rangeMatch = startInput.trim().match(new RegExp(`^(.*?${TIME_PATTERN})\\s*(?:-|–|to|bis)\\s*(${TIME_PATTERN})$`, "i"))
+    if (rangeMatch && endInput.trim() == "") {
+        startInput = rangeMatch[1]!
+        endInput = rangeMatch[2]!
+    }
+
+    let start = parseDateTime(startInput, tz, locale, referenceTime)
+    if (start && (start.ambiguous || start.relative)) {
+        notes.push(describeInterpretation(startInput, start, locale))
+    }
+
+    let endTime: Date | null = null
+    let duration = parseDuration(endInput)
+    if (duration != null) {
+        endTime = start ? new Date(start.dateTime.toMillis() + duration) : null
+    }
+    else {
+        let end = parseDateTime(endInput, tz, locale, referenceTime)
+        if (end && !end.hasDate && start) {
+            // Time only: the start's day, or the next day for events running past midnight
+            let endOnStartDay = start.dateTime.set({ hour: end.dateTime.hour, minute: end.dateTime.minute })
+            end.dateTime = endOnStartDay <= start.dateTime ? endOnStartDay.plus({ days: 1 }) : endOnStartDay
+        }
+        else if (end && (end.ambiguous || end.relative)) {
+            notes.push(describeInterpretation(endInput, end, locale))
+        }
+        endTime = end?.dateTime.toJSDate() ?? null
+    }
+
+    return { startTime: start?.dateTime.toJSDate() ?? null, endTime, notes }
+}
+
+/**
+ * Suggests IANA timezones for an unknown timezone input, e.g. a city name.
+ *
+ * ### Example:
+ * ```ts
+ * suggestTimezones("Berlin") // Returns: ["Europe/Berlin"]
+ * suggestTimezones("new york") // Returns: ["America/New_York"]
+ * ```
+ *
+ * @param input - The timezone as typed by the user.
+ * @param limit - The maximum number of suggestions.
+ *
+ * @returns The best matching timezones, best match first; an empty list if nothing is similar.
+ *
+ * @remarks
+ * - Exact city matches come first, then timezones containing the input, then city names with at most two typos.
+ */
+export function suggestTimezones(input: string, limit: number = 3): string[] {
+    let text = input.trim().toLowerCase().replace(/\s+/g, "_")
+    if (text == "") {
+        return []
+    }
+
+    let scoredTimezones = Intl.supportedValuesOf("timeZone").map(timezone => {
+        let city = timezone.split("/").pop()!.toLowerCase()
+        let score = city == text ? 0
+            : timezone.toLowerCase().includes(text) ? 1
+            : getEditDistance(city, text) <= 2 ? 1 + getEditDistance(city, text)
+            : Infinity
+        return { timezone, score }
+    })
+
+    return scoredTimezones
+        .filter(scoredTimezone => scoredTimezone.score < Infinity)
+        .sort((first, second) => first.score - second.score)
+        .slice(0, limit)
+        .map(scoredTimezone => scoredTimezone.timezone)
+}
+
+/**
+ * Calculates the Levenshtein distance of two strings.
+ *
+ * @param first - The first string.
+ * @param second - The second string.
+ *
+ * @returns The number of single-character edits needed to turn one string into the other.
+ */
+function getEditDistance(first: string, second: string): number {
+    let previousRow = Array.from({ length: second.length + 1 }, (_, index) => index)
+
+    for (let i = 1; i <= first.length; i++) {
+        let currentRow = [i]
+        for (let j = 1; j <= second.length; j++) {
+            let substitutionCost = first[i - 1] == second[j - 1] ? 0 : 1
+            currentRow.push(Math.min(previousRow[j]! + 1, currentRow[j - 1]! + 1, previousRow[j - 1]! + substitutionCost))
+        }
+        previousRow = currentRow
+    }
+
+    return previousRow[second.length]!
+}
@@ -0,0 +1,218 @@
+import { afterAll, beforeAll, describe, expect, mock, test } from "bun:test"
+import { GuildScheduledEventStatus, type FetchGuildScheduledEventOptions, type FetchGuildScheduledEventsOptions, type GuildScheduledEvent, type GuildScheduledEventCreateOptions } from "discord.js"
+
+process.env.DATABASE_PATH = ":memory:"
+process.env.API_TOKEN = "test-token"
+
+const GUILD_ID = "111111111111111111"
+const CHANNEL_ID = "222222222222222222"
+
+// The fields and methods of a scheduled event the API reads, the type guards become plain checks
+type MockScheduledEvent = Pick<GuildScheduledEvent, "id" | "guildId" | "name" | "description" | "scheduledStartAt" | "scheduledEndAt" | "scheduledStartTimestamp"
+    | "scheduledEndTimestamp" | "entityMetadata" | "channelId" | "recurrenceRule" | "creatorId" | "userCount" | "url"> & {
+    status: GuildScheduledEventStatus
+    isScheduled(): boolean
+    isActive(): boolean
+    isCompleted(): boolean
+    isCanceled(): boolean
+    setStatus(status: GuildScheduledEventStatus): Promise<MockScheduledEvent>
+    delete(): Promise<MockScheduledEvent>
+}
+
+interface ErrorBody {
+    error: string
+    details: { field: string | null, message: string }[]
+}
+
+interface ConflictBody {
+    conflicts: { id: string, name: string }[]
+}
+
+interface WebhookBody {
+    id: string
+    secret: string
+}
+
+// In-memory stand-in for the scheduled events of one guild
+let events = new Map<string, MockScheduledEvent>()
+let nextEventID = 300000000000000000n
+
+function createMockEvent(options: GuildScheduledEventCreateOptions): MockScheduledEvent {
+    let startTime = new Date(options.scheduledStartTime)
+    let endTime = options.scheduledEndTime != null ? new Date(options.scheduledEndTime) : null
+    let event: MockScheduledEvent = {
+        id: String(nextEventID++),
+        guildId: GUILD_ID,
+        name: options.name,
+        description: options.description ?? "",
+        scheduledStartAt: startTime,
+        scheduledEndAt: endTime,
+        scheduledStartTimestamp: startTime.getTime(),
+        scheduledEndTimestamp: endTime?.getTime() ?? null,
+        entityMetadata: options.entityMetadata ? { location: options.entityMetadata.location ?? null } : null,
+        channelId: null,
+        recurrenceRule: null,
+        creatorId: "bot",
+        userCount: 0,
+        status: GuildScheduledEventStatus.Scheduled,
+        url: "https://discord.com/events/" + GUILD_ID,
+        isScheduled() { return this.status == GuildScheduledEventStatus.Scheduled },
+        isActive() { return this.status == GuildScheduledEventStatus.Active },
+        isCompleted() { return this.status == GuildScheduledEventStatus.Completed },
+        isCanceled() { return this.status == GuildScheduledEventStatus.Canceled },
+        async setStatus(status: GuildScheduledEventStatus) { this.status = status; return this },
+        async delete() { events.delete(this.id); return this },
+    }
+    events.set(event.id, event)
+    return event
+}
+
+let guild = {
+    id: GUILD_ID,
+    name: "Test Guild",
+    scheduledEvents: {
+        create: async (options: GuildScheduledEventCreateOptions) => createMockEvent(options),
+        fetch: async (options?: string | FetchGuildScheduledEventOptions | FetchGuildScheduledEventsOptions) => {
+            let eventID = typeof options == "string" ? options : options && "guildScheduledEvent" in options ? String(options.guildScheduledEvent) : undefined
+            if (!eventID) {
+                return events
+            }
+            if (!events.has(eventID)) {
+                throw new Error("Unknown Guild Scheduled Event")
+            }
+            return events.get(eventID)
+        },
+    },
+    channels: {
+        fetch: async () => ({ find: () => undefined }),
+        cache: new Map([[CHANNEL_ID, { isTextBased: () => true }]]),
+    },
+}
+
+mock.module("./mainBot", () => ({
+    logger: { info() {}, error() {} },
+    client: {
+        guilds: { fetch: async () => guild, cache: new Map([[GUILD_ID, guild]]) },
+        channels: { cache: new Map() },
+    },
+}))
+
+const { handleHttpRequest } = await import("./httpServer")
+const { handleWebhookEventCreate, signWebhookBody } = await import("./webhooks")
+
+function apiRequest(method: string, path: string, body?: object, token: string | null = "test-token"): Promise<Response> {
+    let headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (token != null) {
+        headers.Authorization = "Bearer " + token
+    }
+    return handleHttpRequest(new Request(`http://localhost/api/guilds/${GUILD_ID}${path}`, { method: method, headers: headers, body: body ? JSON.stringify(body) : undefined }))
+}
+
+const raid = { name: "Raid", start: "2030-06-20 18:00", end: "2h", timezone: "Europe/Berlin", location: "Hall", channel: CHANNEL_ID }
+
+describe("authentication", () => {
+    test("rejects requests without token", async () => {
+        expect((await apiRequest("GET", "/events", undefined, null)).status).toBe(401)
+    })
+
+    test("rejects a wrong token", async () => {
+        expect((await apiRequest("GET", "/events", undefined, "wrong-token")).status).toBe(401)
+    })
+
+    test("accepts the configured token", async () => {
+        expect((await apiRequest("GET", "/events")).status).toBe(200)
+    })
+
+    test("is disabled without API_TOKEN", async () => {
+        delete process.env.API_TOKEN
+        try {
+            expect((await apiRequest("GET", "/events")).status).toBe(404)
+        } finally {
+            process.env.API_TOKEN = "test-token"
+        }
+    })
+})
+
+describe("validation", () => {
+    test("rejects a body that is no JSON object", async () => {
+        let response = await handleHttpRequest(new Request(`http://localhost/api/guilds/${GUILD_ID}/events`, { method: "POST", headers: { Authorization: "Bearer test-token" }, body: "not json" }))
+        expect(response.status).toBe(400)
+    })
+
+    test("lists the invalid fields", async () => {
+        let response = await apiRequest("POST", "/events", { ...raid, start: "2030-13-01 10:00", timezone: "Berlin" })
+        let body = await response.json() as ErrorBody
+
+        expect(response.status).toBe(400)
+        expect(body.error).toBe("Invalid event details")
+        expect(body.details.length).toBe(2)
+    })
+
+    test("needs a text channel for the live ping", async () => {
+        let response = await apiRequest("POST", "/events", { ...raid, channel: "999999999999999999" })
+        expect(response.status).toBe(400)
+    })
+
+    test("rejects webhooks without http URL", async () => {
+        expect((await apiRequest("POST", "/webhooks", { url: "ftp://example.com/hook" })).status).toBe(400)
+    })
+})
+
+describe("conflicts", () => {
+    test("answers an overlap at the same location with 409", async () => {
+        let first = await apiRequest("POST", "/events", raid)
+        expect(first.status).toBe(201)
+
+        let response = await apiRequest("POST", "/events", { ...raid, name: "Second Raid", start: "2030-06-20 19:00" })
+        let body = await response.json() as ConflictBody
+
+        expect(response.status).toBe(409)
+        expect(body.conflicts.length).toBe(1)
+        expect(body.conflicts[0]!.name).toBe("Raid")
+    })
+
+    test("creates the event anyway with force", async () => {
+        let response = await apiRequest("POST", "/events", { ...raid, name: "Second Raid", start: "2030-06-20 19:00", force: true })
+        expect(response.status).toBe(201)
+    })
+})
+
+describe("webhooks", () => {
+    let deliveries: { signature: string | null, body: string }[] = []
+    let server: ReturnType<typeof Bun.serve>
+    let webhook: WebhookBody
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            fetch: async request => {
+                deliveries.push({ signature: request.headers.get("X-Event-Manager-Signature"), body: await request.text() })
+                return new Response("ok")
+            },
+        })
+    })
+
+    afterAll(() => {
+        server.stop(true)
+    })
+
+    test("signs the delivered body with the webhook's secret", async () => {
+        let response = await apiRequest("POST", "/webhooks", { url: `http://localhost:${server.port}/hook`, events: ["event.created"] })
+        webhook = await response.json() as WebhookBody
+        expect(response.status).toBe(201)
+
+        await handleWebhookEventCreate([...events.values()][0] as unknown as GuildScheduledEvent)
+
+        expect(deliveries.length).toBe(1)
+        expect(deliveries[0]!.signature).toBe(signWebhookBody(deliveries[0]!.body, webhook.secret))
+        expect(JSON.parse(deliveries[0]!.body).type).toBe("event.created")
+    })
+
+    test("fails verification once the body was tampered with", () => {
+        let delivery = deliveries[0]!
+        let tamperedBody = delivery.body.replace("\"Raid\"", "\"Free Loot\"")
+
+        expect(tamperedBody).not.toBe(delivery.body)
+        expect(delivery.signature).not.toBe(signWebhookBody(tamperedBody, webhook.secret))
+    })
+})
@@ -0,0 +1,469 @@
+import { GuildScheduledEventStatus, type Guild, type GuildScheduledEvent } from "discord.js"
+import { logger, client } from "./mainBot"
+import { secretsMatch, type HttpRoute } from "./httpServer"
+import { eventDetailsFromFields, extractEventUpdates, formatFieldError, type EventDetails, type EventField } from "./EventDetails"
+import { checkTimeInPast, startTimeBeforeEndTime } from "./additionalFunctions"
+import { createDiscordEventFromDetails, createDiscordScheduleFromDetails, editDiscordEventFromDetails, isCancellable, cancelScheduledEvent } from "./eventFunctions"
+import { eventRepository, type CommandContext } from "./eventStore"
+import { endSeries, listSeries } from "./recurringSeries"
+import { parseRecurrenceRule, describeRecurrenceRule } from "./recurrenceEngine"
+import { parseListFilter, fetchListedEvents, describeEventRecurrence } from "./eventList"
+import { findEventConflicts } from "./conflictDetection"
+import { getGuildSettings } from "./guildSettings"
+import { registerWebhook, webhookRepository, webhookEventTypes, type Webhook, type WebhookEventType } from "./webhooks"
+
+type ApiHandler = (request: Request, guild: Guild, params: string[]) => Promise<Response>
+
+// Author stored for events created through the API, shown instead of a Discord user
+const API_AUTHOR = "api"
+// Fields of the JSON body that are passed on as `key=value` fields (see `eventDetailsFromFields`)
+const bodyFields: EventField[] = ["name", "start", "end", "timezone", "location", "description", "interval", "frequency"]
+
+const statusNames: Record<GuildScheduledEventStatus, string> = {
+    [GuildScheduledEventStatus.Scheduled]: "scheduled",
+    [GuildScheduledEventStatus.Active]: "active",
+    [GuildScheduledEventStatus.Completed]: "completed",
+    [GuildScheduledEventStatus.Canceled]: "cancelled",
+}
+
+/**
+ * Builds a JSON response.
+ *
+ * @param body - The value to serialize.
+ * @param status - The HTTP status, `200` by default.
+ *
+ * @returns The `Response`.
+ */
+function jsonResponse(body: unknown, status: number = 200): Response {
+    return Response.json(body, { status: status })
+}
+
+/**
+ * Builds a JSON error response of the form `{ error, details }`.
+ *
+ * @param status - The HTTP status.
+ * @param error - A short description of the error.
+ * @param details - Further messages, e.g. one per invalid field.
+ *
+ * @returns The `Response`.
+ */
+function errorResponse(status: number, error: string, details: string[] = []): Response {
+    return jsonResponse({ error: error, details: details }, status)
+}
+
+/**
+ * Reads the JSON object body of a request.
+ *
+ * @param request - The HTTP request.
+ *
+ * @returns A `Promise` resolving to the object, or `null` if the body is no JSON object.
+ */
+async function readJsonBody(request: Request): Promise<Record<string, unknown> | null> {
+    let body = await request.json().catch(() => null)
+    return body != null && typeof body == "object" && !Array.isArray(body) ? body as Record<string, unknown> : null
+}
+
+/**
+ * Converts the event fields of a JSON body into `key=value` fields.
+ *
+ * @param body - The JSON body.
+ * @param fields - The fields to take over, others are ignored.
+ *
+ * @returns The fields that were given as string or number.
+ */
+function bodyToFieldParts(body: Record<string, unknown>, fields: EventField[]): string[] {
+    return fields
+        .filter(field => typeof body[field] == "string" || typeof body[field] == "number")
+        .map(field => `${field}=${body[field]}`)
+}
+
+/**
+ * Converts a scheduled event into the JSON returned by the API and sent to webhooks.
+ *
+ * ### Example:
+ * ```ts
+ * toApiEvent(event)
+ * // Returns: { id: "...", name: "Raid Night", start: "2025-06-20T16:00:00.000Z", status: "scheduled", recurrence: "every week on Friday", ... }
+ * ```
+ *
+ * @param event - The scheduled event.
+ *
+ * @returns The event as plain object, times as ISO 8601 strings.
+ *
+ * @remarks
+ * - `timezone`, `seriesId` and `createdBy` are only known for events created by the bot, otherwise `null`.
+ * - `interested` is only known if the event was fetched with its user count.
+ */
+export function toApiEvent(event: GuildScheduledEvent) {
+    let storedEvent = eventRepository.getEvent(event.id)
+
+    return {
+        id: event.id,
+        name: event.name,
+        description: event.description ?? "",
+        start: event.scheduledStartAt?.toISOString() ?? null,
+        end: event.scheduledEndAt?.toISOString() ?? null,
+        location: event.entityMetadata?.location ?? null,
+        channelId: event.channelId,
+        status: statusNames[event.status],
+        url: event.url,
+        timezone: storedEvent?.details.timezone ?? null,
+        recurrence: describeEventRecurrence(event),
+        seriesId: storedEvent?.seriesId ?? null,
+        createdBy: storedEvent?.authorId ?? event.creatorId,
+        interested: event.userCount ?? null,
+    }
+}
+
+/**
+ * Converts a webhook into the JSON returned by the API.
+ *
+ * @param webhook - The `Webhook`.
+ * @param withSecret - `true` to include the secret, which is only shown once on registration.
+ *
+ * @returns The webhook as plain object.
+ */
+function toApiWebhook(webhook: Webhook, withSecret: boolean) {
+    return {
+        id: webhook.webhookId,
+        url: webhook.url,
+        events: webhook.events,
+        createdAt: webhook.createdAt.toISOString(),
+        ...(withSecret ? { secret: webhook.secret } : {}),
+    }
+}
+
+/**
+ * Wraps an API handler with the bearer token check and the guild lookup.
+ *
+ * @param method - The HTTP method of the route.
+ * @param path - The path below `/api/guilds/<guild ID>`, as regular expression source.
+ * @param handler - The handler, called with the guild and the remaining path parameters.
+ *
+ * @returns The `HttpRoute`.
+ *
+ * @remarks
+ * - The API is disabled (`404`) as long as `API_TOKEN` is not set.
+ * - Requests need the header `Authorization: Bearer <API_TOKEN>`, otherwise they get `401`.
+ * - Guilds the bot is not a member of get `404`.
+ */
+function apiRoute(method: string, path: string, handler: ApiHandler): HttpRoute {
+    return {
+        method: method,
+        pattern: new RegExp(`^/api/guilds/(\\d+)${path}$`),
+        handler: async (request, [guildID, ...params]) => {
+            let apiToken = process.env.API_TOKEN
+            if (!apiToken) {
+                return errorResponse(404, "Not Found")
+            }
+
+            let token = request.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? ""
+            if (!secretsMatch(token, apiToken)) {
+                return errorResponse(401, "Missing or invalid API token")
+            }
+
+            let guild = client.guilds.cache.get(guildID!)
+            if (!guild) {
+                return errorResponse(404, `Guild ${guildID} not found`)
+            }
+
+            return await handler(request, guild, params)
+        },
+    }
+}
+
+/**
+ * Fetches a scheduled event of a guild.
+ *
+ * @param guild - The Discord guild.
+ * @param eventID - The ID of the event.
+ *
+ * @returns A `Promise` resolving to the event, or `null` if the guild has no such event.
+ */
+async function fetchGuildEvent(guild: Guild, eventID: string): Promise<GuildScheduledEvent | null> {
+    return await guild.scheduledEvents.fetch({ guildScheduledEvent: eventID, withUserCount: true }).catch(() => null)
+}
+
+/**
+ * Lists the upcoming and active events of a guild, optionally filtered with the query parameters `from`, `to` and `search`.
+ */
+async function listEvents(request: Request, guild: Guild): Promise<Response> {
+    let guildSettings = getGuildSettings(guild.id)
+    let searchParams = new URL(request.url).searchParams
+    let listInfo = ["from", "to", "search"]
+        .filter(key => searchParams.get(key))
+        .map(key => `${key}=${searchParams.get(key)}`)
+        .join("; ")
+
+    let { filter, errors } = parseListFilter(listInfo, API_AUTHOR, searchParams.get("timezone") || guildSettings.timezone, guildSettings.locale)
+    if (errors.length > 0) {
+        return errorResponse(400, "Invalid filter", errors)
+    }
+
+    let events = await fetchListedEvents(guild, filter)
+    return jsonResponse({ events: events.map(event => toApiEvent(event)) })
+}
+
+/**
+ * Creates an event, or a schedule if the body has an `interval`.
+ *
+ * @remarks
+ * - The body has the fields of `New Event`/`New Schedule` (`name`, `start`, `end`, `timezone`, `location`, `description`, `interval`, `frequency`),
+ *   validated like commands, plus `image` (URL), `channel` (channel ID for the live ping, default the guild's reply channel) and `force`.
+ * - Overlapping events are answered with `409` and the conflicts, unless `force` is `true`.
+ */
+async function createEvent(request: Request, guild: Guild): Promise<Response> {
+    let body = await readJsonBody(request)
+    if (!body) {
+        return errorResponse(400, "The body must be a JSON object")
+    }
+
+    let guildSettings = getGuildSettings(guild.id)
+    let isSchedule = body.interval != null && body.interval != ""
+    let fieldParts = bodyToFieldParts(body, bodyFields)
+    let { details: eventDetails, errors } = eventDetailsFromFields(fieldParts, isSchedule ? "New Schedule" : "New Event", guildSettings)
+    if (errors.length > 0) {
+        return errorResponse(400, "Invalid event details", errors.map(error => formatFieldError(error)))
+    }
+
+    let replyChannel = typeof body.channel == "string" ? body.channel : guildSettings.replyChannelId
+    if (!replyChannel || !guild.channels.cache.get(replyChannel)?.isTextBased()) {
+        return errorResponse(400, "A text channel for the live ping is needed: pass `channel` or configure a reply channel")
+    }
+
+    if (body.force != true) {
+        let conflicts = await findEventConflicts(guild, eventDetails)
+        if (conflicts.length > 0) {
+            return jsonResponse({
+                error: "The event overlaps with existing events at the same location, send `force: true` to create it anyway",
+                conflicts: conflicts.map(conflict => ({
+                    name: conflict.existing.name,
+                    start: conflict.existing.startTime.toISOString(),
+                    end: conflict.existing.endTime?.toISOString() ?? null,
+                    location: conflict.existing.location,
+                    url: conflict.existing.url,
+                    newStart: conflict.newStart.toISOString(),
+                })),
+            }, 409)
+        }
+    }
+
+    let image = typeof body.image == "string" ? body.image : ""
+    let commandContext: CommandContext = { authorId: API_AUTHOR, messageId: null, commandText: `${request.method} ${new URL(request.url).pathname} ${fieldParts.join("; ")}` }
+    if (isSchedule) {
+        let { event, scheduleSummary } = await createDiscordScheduleFromDetails(guild, eventDetails, image, replyChannel, commandContext)
+        logger.info(`Schedule "${event.name}" (${event.id}) created through the API.`)
+        return jsonResponse({ ...toApiEvent(event), recurrence: scheduleSummary, dateNotes: eventDetails.dateNotes ?? [] }, 201)
+    }
+
+    let event = await createDiscordEventFromDetails(guild, eventDetails, image, replyChannel, commandContext)
+    logger.info(`Event "${event.name}" (${event.id}) created through the API.`)
+    return jsonResponse({ ...toApiEvent(event), dateNotes: eventDetails.dateNotes ?? [] }, 201)
+}
+
+/**
+ * Returns a single event.
+ */
+async function getEvent(request: Request, guild: Guild, [eventID]: string[]): Promise<Response> {
+    let event = await fetchGuildEvent(guild, eventID!)
+    return event ? jsonResponse(toApiEvent(event)) : errorResponse(404, `Event ${eventID} not found`)
+}
+
+/**
+ * Changes the given fields of a scheduled event.
+ *
+ * @remarks
+ * - Accepts `name`, `start`, `end`, `timezone`, `location` and `description`, validated like the `Edit Event` command.
+ * - Only events that did not start yet can be changed (`409` otherwise).
+ */
+async function updateEvent(request: Request, guild: Guild, [eventID]: string[]): Promise<Response> {
+    let body = await readJsonBody(request)
+    if (!body) {
+        return errorResponse(400, "The body must be a JSON object")
+    }
+
+    let event = await fetchGuildEvent(guild, eventID!)
+    if (!event) {
+        return errorResponse(404, `Event ${eventID} not found`)
+    }
+    if (!event.isScheduled()) {
+        return errorResponse(409, `Event ${eventID} is ${statusNames[event.status]} and cannot be changed anymore`)
+    }
+
+    let guildSettings = getGuildSettings(guild.id)
+    let storedEvent = eventRepository.getEvent(event.id)
+    let fieldParts = bodyToFieldParts(body, ["name", "start", "end", "timezone", "location", "description"])
+    if (fieldParts.length == 0) {
+        return errorResponse(400, "Nothing to update, pass at least one of name, start, end, timezone, location or description")
+    }
+
+    let { updates, errors } = extractEventUpdates(fieldParts, storedEvent?.details.timezone ?? guildSettings.timezone, guildSettings.locale)
+    if (errors.length > 0) {
+        return errorResponse(400, "Invalid event details", errors.map(error => formatFieldError(error)))
+    }
+
+    let eventDetails: EventDetails = {
+        eventName: updates.eventName ?? event.name,
+        startTime: updates.startTime ?? event.scheduledStartAt!,
+        endTime: updates.endTime ?? event.scheduledEndAt ?? storedEvent?.details.endTime ?? event.scheduledStartAt!,
+        timezone: updates.timezone ?? storedEvent?.details.timezone ?? guildSettings.timezone,
+        eventLocation: updates.eventLocation ?? (event.channelId ? `<#${event.channelId}>` : event.entityMetadata?.location ?? guildSettings.location),
+        description: updates.description ?? event.description ?? "",
+        interval: storedEvent?.details.interval ?? "",
+        frequency: storedEvent?.details.frequency ?? 1,
+    }
+    if ((updates.startTime && checkTimeInPast(updates.startTime)) || (updates.endTime && checkTimeInPast(updates.endTime))) {
+        return errorResponse(400, "Start or end time is in the past")
+    }
+    if (startTimeBeforeEndTime(eventDetails.startTime, eventDetails.endTime)) {
+        return errorResponse(400, "The event cannot end before it starts")
+    }
+
+    let editedEvent = await editDiscordEventFromDetails(guild, event, eventDetails)
+    logger.info(`Event "${editedEvent.name}" (${editedEvent.id}) updated through the API.`)
+    return jsonResponse(toApiEvent(editedEvent))
+}
+
+/**
+ * Cancels an event, or deletes it with `?delete=true`.
+ *
+ * @remarks
+ * - Occurrences of a bot-managed series are cancelled one by one, `?series=true` ends the whole series instead.
+ * - Recurring Discord events are always deleted (see `cancelScheduledEvent`).
+ */
+async function cancelEvent(request: Request, guild: Guild, [eventID]: string[]): Promise<Response> {
+    let searchParams = new URL(request.url).searchParams
+    let event = await fetchGuildEvent(guild, eventID!)
+    if (!event) {
+        return errorResponse(404, `Event ${eventID} not found`)
+    }
+
+    let seriesID = eventRepository.getEvent(event.id)?.seriesId
+    if (seriesID && searchParams.get("series") == "true") {
+        let deletedEvents = await endSeries(seriesID)
+        logger.info(`Series ${seriesID} ended through the API.`)
+        return jsonResponse({ seriesId: seriesID, deleted: deletedEvents.map(deletedEvent => deletedEvent.id) })
+    }
+
+    let deleteEvent = searchParams.get("delete") == "true"
+    if (!isCancellable(event, deleteEvent)) {
+        return errorResponse(409, `Event ${eventID} is ${statusNames[event.status]} and cannot be cancelled anymore, pass delete=true to delete it`)
+    }
+
+    let status = await cancelScheduledEvent(event, deleteEvent)
+    logger.info(`Event "${event.name}" (${event.id}) ${status} through the API.`)
+    return jsonResponse({ id: event.id, status: status })
+}
+
+/**
+ * Lists the schedules of a guild: recurring Discord events and bot-managed series.
+ */
+async function listSchedules(request: Request, guild: Guild): Promise<Response> {
+    let scheduledEvents = await guild.scheduledEvents.fetch()
+    let recurringEvents = [...scheduledEvents.values()]
+        .filter(event => event.recurrenceRule && !event.isCompleted() && !event.isCanceled())
+        .map(event => ({
+            id: event.id,
+            type: "recurring-event",
+            name: event.name,
+            recurrence: describeEventRecurrence(event),
+            timezone: eventRepository.getEvent(event.id)?.details.timezone ?? null,
+            nextStart: event.scheduledStartAt?.toISOString() ?? null,
+            eventIds: [event.id],
+        }))
+
+    let series = listSeries(guild.id).map(series => {
+        let upcomingEvents = eventRepository.listEventsBySeries(series.seriesId)
+            .filter(storedEvent => storedEvent.status == "scheduled")
+            .sort((first, second) => first.details.startTime.getTime() - second.details.startTime.getTime())
+        let rule = parseRecurrenceRule(series.rule, 1, new Date(series.firstStart), series.timezone)
+
+        return {
+            id: series.seriesId,
+            type: "series",
+            name: series.eventName,
+            recurrence: rule ? describeRecurrenceRule(rule) : series.rule,
+            timezone: series.timezone,
+            nextStart: upcomingEvents[0]?.details.startTime.toISOString() ?? null,
+            eventIds: upcomingEvents.map(storedEvent => storedEvent.eventId),
+        }
+    })
+
+    return jsonResponse({ schedules: [...recurringEvents, ...series] })
+}
+
+/**
+ * Ends a schedule: deletes a recurring Discord event, or ends a bot-managed series with all its upcoming occurrences.
+ */
+async function cancelSchedule(request: Request, guild: Guild, [scheduleID]: string[]): Promise<Response> {
+    let series = eventRepository.getSeries(scheduleID!)
+    if (series && series.guildId == guild.id) {
+        let deletedEvents = await endSeries(series.seriesId)
+        logger.info(`Series ${series.seriesId} ended through the API.`)
+        return jsonResponse({ id: series.seriesId, status: "deleted", deleted: deletedEvents.map(deletedEvent => deletedEvent.id) })
+    }
+
+    let event = await fetchGuildEvent(guild, scheduleID!)
+    if (!event || !event.recurrenceRule) {
+        return errorResponse(404, `Schedule ${scheduleID} not found`)
+    }
+
+    let status = await cancelScheduledEvent(event, true)
+    logger.info(`Schedule "${event.name}" (${event.id}) deleted through the API.`)
+    return jsonResponse({ id: event.id, status: status, deleted: [event.id] })
+}
+
+/**
+ * Registers an outgoing webhook from a body `{ url, events? }`, the response contains the secret to verify the deliveries.
+ */
+async function createWebhook(request: Request, guild: Guild): Promise<Response> {
+    let body = await readJsonBody(request)
+    let url = typeof body?.url == "string" && URL.canParse(body.url) ? new URL(body.url) : null
+    if (!url || (url.protocol != "http:" && url.protocol != "https:")) {
+        return errorResponse(400, "`url` must be an http or https URL")
+    }
+
+    let events = Array.isArray(body!.events) ? body!.events : []
+    let unknownEvents = events.filter(type => !webhookEventTypes.includes(type))
+    if (unknownEvents.length > 0) {
+        return errorResponse(400, "Unknown webhook events", unknownEvents.map(type => `${type} is not one of ${webhookEventTypes.join(", ")}`))
+    }
+
+    let webhook = registerWebhook(guild.id, url.toString(), events as WebhookEventType[])
+    return jsonResponse(toApiWebhook(webhook, true), 201)
+}
+
+/**
+ * Lists the outgoing webhooks of a guild, without their secrets.
+ */
+async function listWebhooks(request: Request, guild: Guild): Promise<Response> {
+    return jsonResponse({ webhooks: webhookRepository.listWebhooks(guild.id).map(webhook => toApiWebhook(webhook, false)) })
+}
+
+/**
+ * Removes an outgoing webhook.
+ */
+async function deleteWebhook(request: Request, guild: Guild, [webhookID]: string[]): Promise<Response> {
+    let webhook = webhookRepository.getWebhook(webhookID!)
+    if (!webhook || webhook.guildId != guild.id) {
+        return errorResponse(404, `Webhook ${webhookID} not found`)
+    }
+
+    webhookRepository.deleteWebhook(webhook.webhookId)
+    logger.info(`Webhook ${webhook.webhookId} of guild ${guild.id} removed.`)
+    return new Response(null, { status: 204 })
+}
+
+// JSON API below /api/guilds/<guild ID>, served by the HTTP server (see `startHttpServer`)
+export const apiRoutes: HttpRoute[] = [
+    apiRoute("GET", "/events", listEvents),
+    apiRoute("POST", "/events", createEvent),
+    apiRoute("GET", "/events/(\\d+)", getEvent),
+    apiRoute("PATCH", "/events/(\\d+)", updateEvent),
+    apiRoute("DELETE", "/events/(\\d+)", cancelEvent),
+    apiRoute("GET", "/schedules", listSchedules),
+    apiRoute("DELETE", "/schedules/([\\w-]+)", cancelSchedule),
+    apiRoute("GET", "/webhooks", listWebhooks),
+    apiRoute("POST", "/webhooks", createWebhook),
+    apiRoute("DELETE", "/webhooks/([\\w-]+)", deleteWebhook),
+]
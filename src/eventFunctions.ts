@@ -1,7 +1,15 @@
-import { GuildScheduledEventPrivacyLevel, GuildScheduledEventEntityType, TextChannel, GuildScheduledEventRecurrenceRuleFrequency } from "discord.js"
+import { GuildScheduledEventPrivacyLevel, TextChannel, type Guild, type GuildScheduledEvent, type GuildScheduledEventEditOptions, GuildScheduledEventStatus, type GuildScheduledEventSetStatusArg } from "discord.js"
 import { logger, client } from "./mainBot"
-import { eventHasEmptyValues, getWeekdayNameFromDate, checkTimeInPast, startTimeBeforeEndTime, scheduleHasEmptyValues } from "./additionalFunctions"
-import { extractEventdetails } from "./EventDetails"
+import { checkTimeInPast, startTimeBeforeEndTime, findScheduledEvents } from "./additionalFunctions"
+import { extractEventdetails, extractEventUpdates, splitEventFields, formatFieldErrors, type EventDetails } from "./EventDetails"
+import { trackScheduledEvent, refreshScheduledEvent, untrackScheduledEvent, getPingMention } from "./eventScheduler"
+import { parseRecurrenceRule, toDiscordRecurrenceRule, describeRecurrenceRule } from "./recurrenceEngine"
+import { createMaterializedSeries, findSeriesByEvent, endSeries } from "./recurringSeries"
+import { eventRepository, recordCreatedEvent, type CommandContext, type StoredEventStatus } from "./eventStore"
+import { getGuildSettings } from "./guildSettings"
+import { resolveEventLocation, locationEventOptions } from "./eventLocation"
+import { splitForceFlag, findEventConflicts, requestConflictConfirmation } from "./conflictDetection"
+import { getLanguage, translate, formatEventTime } from "./localization"
 
 
 /**
@@ -23,13 +31,19 @@ import { extractEventdetails } from "./EventDetails"
  * @param discordMessageAttachment - A string representing an attachment or media identifier (currently unused in logic).
  * @param guildID - The Discord server (guild) ID where the event should be created.
  * @param replyChannel - The channel ID where a success or error message will be sent.
+ * @param commandContext - The author, message and command text the event is created from, stored in the `eventRepository`.
+ * @param force - Skips the conflict check, e.g. after the author confirmed a conflict warning.
  * 
- * @returns A `Promise<void>` that resolves after the event is created and the message is sent. No return value.
+ * @returns A `Promise` resolving to the `CreationOutcome`: `"created"`, `"failed"`, or `"pending"` while a conflict warning waits for a decision.
  *
  * @remarks
+ * - If the event overlaps an existing event at the same location, a warning with Create anyway/Cancel buttons is sent instead,
+ *   unless `force` is set or the details end with `; force` (see `findEventConflicts`).
  * - Uses the `parseCustomDate` function to parse and convert the event's start and end times to UTC.
- * - If the timezone is missing from the input, defaults to `"Europe/Amsterdam"`.
- * - Sends a confirmation message to the specified reply channel upon success or failure.
+ * - If the timezone or location is missing from the input, the guild's defaults from `getGuildSettings` are used.
+ * - Sends a confirmation message to the specified reply channel upon success or failure, in the author's language (see `getLanguage`).
+ *   The start is shown as Discord timestamp and in the event's timezone.
+ * - Registers the created event with the scheduler, which pings the reply channel at start time.
  * - Logs activity and errors using `logger`.
  *
  * @throws No exceptions are thrown to the caller; errors are logged and messaged in Discord if possible.
@@ -38,67 +52,56 @@ import { extractEventdetails } from "./EventDetails"
  * - Requires the `client` Discord bot instance to be available in scope.
  * - Depends on `logger` for logging, and `parseCustomDate` for date parsing.
  */
-export async function createNewDiscordEvent(eventInfo: string, discordMessageAttachment: string, guildID: string, replyChannel: string): Promise<void> {
+export async function createNewDiscordEvent(eventInfo: string, discordMessageAttachment: string, guildID: string, replyChannel: string, commandContext: CommandContext | null = null, force: boolean = false): Promise<CreationOutcome> {
     // Log the Input-Info
     logger.info("Invoking new Event: " + eventInfo)
     let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID, commandContext?.authorId ?? null)
 
-    // Split the Event Info String into Event Details
-    let eventDetails = extractEventdetails(eventInfo, "New Event")
-    if(eventHasEmptyValues(await eventDetails)) {
-        logger.error("Something went wrong. Please check your Event Details: " + eventInfo)
-        await (channel as TextChannel).send("Something went wrong. Please check your Event Details: " + eventInfo)
-        await (channel as TextChannel).send("Event Details need this format: Name of Event; Event Start Time; Event End Time; Timezone in IANAS-Formatting; Location")
-        return
-    }
-
-    // Check for Start Time in the past
-    if(checkTimeInPast((await eventDetails).startTime) || checkTimeInPast((await eventDetails).endTime)){
-        logger.error("Start or End Time is in the past. Please retry.")
-        await (channel as TextChannel).send("Start or End Time is in the past. Please retry.")
-        return
-    }
-
-    //check if end time is after start time
-    if(startTimeBeforeEndTime((await eventDetails).startTime, (await eventDetails).endTime)){
-        logger.error("Event cannot end before the start time. Please retry.")
-        await (channel as TextChannel).send("Event cannot end before the start time. Please retry.")
-        return
+    // Split the Event Info String into Event Details and check every field
+    let { eventInfo: detailsInfo, force: forceFlag } = splitForceFlag(eventInfo)
+    let { details: eventDetails, errors } = await extractEventdetails(detailsInfo, "New Event", getGuildSettings(guildID))
+    if (errors.length > 0) {
+        logger.error("Invalid Event Details: " + eventInfo + "\n" + formatFieldErrors(errors))
+        await (channel as TextChannel).send(translate(language, "create.invalid", { errors: formatFieldErrors(errors) }))
+        await (channel as TextChannel).send(translate(language, "create.eventFormat"))
+        return "failed"
     }
 
     // Input the Info into a new Discord Event
     try {
         if (guildID == null) {
             logger.error("Could not fetch Server-ID.")
-            return;
+            return "failed"
         }
 
-        let null_date = new Date(0);
-
         let guild = await client.guilds.fetch(guildID)
-        let location = (await eventDetails).eventLocation
 
-        let event = await guild.scheduledEvents.create({
-            name: (await eventDetails).eventName,
-            scheduledStartTime: (await eventDetails).startTime,
-            scheduledEndTime: (await eventDetails).endTime,
-            privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
-            entityType: GuildScheduledEventEntityType.External,
-            entityMetadata: { location },
-            description: (await eventDetails).description,
-            image: discordMessageAttachment,
-        })
-        logger.info(`Event "${(await eventDetails).eventName}" created for ${(await eventDetails).startTime}`)
+        // Overlapping events at the same location need a confirmation or the force flag
+        if (!force && !forceFlag) {
+            let conflicts = await findEventConflicts(guild, eventDetails)
+            if (conflicts.length > 0) {
+                logger.info(`Event "${eventDetails.eventName}" overlaps ${conflicts.length} event(s), asking for confirmation.`)
+                await (channel as TextChannel).send(requestConflictConfirmation(conflicts, commandContext?.authorId ?? "", () =>
+                    createNewDiscordEvent(eventInfo, discordMessageAttachment, guildID, replyChannel, commandContext, true), language))
+                return "pending"
+            }
+        }
+
+        let event = await createDiscordEventFromDetails(guild, eventDetails, discordMessageAttachment, replyChannel, commandContext)
 
         if (channel && channel.isTextBased()) {
-            await (channel as TextChannel).send(`Event "${(await eventDetails).eventName}" created for ${(await eventDetails).startTime}`)
+            let startTime = formatEventTime(eventDetails.startTime, eventDetails.timezone, language)
+            await (channel as TextChannel).send(translate(language, "create.created", { name: eventDetails.eventName, time: startTime, url: event.url }) + formatDateNotes(eventDetails, language))
         }
+        return "created"
 
     } catch (e) {
         logger.error("Failed to create event: " + e)
         if (channel && channel.isTextBased()) {
-            await (channel as TextChannel).send("Failed to create event: " + e)
+            await (channel as TextChannel).send(translate(language, "create.failed", { error: String(e) }))
         }
+        return "failed"
     }
 }
 
@@ -117,196 +120,635 @@ export async function createNewDiscordEvent(eventInfo: string, discordMessageAtt
  *
  * @param eventInfo - A semicolon-separated string representing the full event information:
  *   - `"Event Name; Start Time; End Time; Timezone; Location; Description; Interval; Frequency"`
- *   - Interval values can be: `"daily"`, `"weekly"` (monthly/yearly currently unsupported).
+ *   - Interval values can be: `"daily"`, `"weekly"`, `"monthly"`, `"yearly"` or an RRULE such as `"RRULE:FREQ=MONTHLY;BYDAY=2SA;COUNT=6"`
+ *     (the frequency is then taken from the rule's `INTERVAL`).
  * @param discordMessageAttachment - Optional image or media attachment URL or string (used in the event payload).
  * @param guildID - The Discord guild (server) ID where the event will be created.
  * @param replyChannel - The ID of the Discord channel where success or error messages will be posted.
+ * @param commandContext - The author, message and command text the schedule is created from, stored in the `eventRepository`.
+ * @param force - Skips the conflict check, e.g. after the author confirmed a conflict warning.
  *
- * @returns A `Promise<void>` that resolves once the scheduled event is created or an error message has been sent.
+ * @returns A `Promise` resolving to the `CreationOutcome`: `"created"`, `"failed"`, or `"pending"` while a conflict warning waits for a decision.
  *
  * @remarks
+ * - If one of the next occurrences overlaps an existing event at the same location, a warning with Create anyway/Cancel buttons
+ *   is sent instead, unless `force` is set or the details end with `; force`.
  * - Relies on `extractEventdetails` to parse and validate input.
  * - Validates that the event is not in the past and that the start time precedes the end time.
- * - Supports recurrence rules for daily and weekly intervals (monthly/yearly are stubbed and commented out due to current Discord API limitations).
- * - Sends log output and status feedback to the specified channel for transparency.
+ * - Rules Discord supports natively (daily, weekly every 1 or 2 weeks) become a single recurring Discord event.
+ * - All other rules (monthly, yearly, longer weekly intervals, COUNT/UNTIL) become a bot-managed series via `createMaterializedSeries`.
+ * - Sends log output and status feedback to the specified channel for transparency, in the author's language with the start as Discord timestamp.
+ * - Registers the created series with the scheduler, which pings the reply channel at every occurrence.
  * - Logs and sends meaningful error messages if inputs are invalid or event creation fails.
  *
  * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
  *
  * @dependencies
- * - Requires access to the Discord `client` object, `logger`, and helper functions: `extractEventdetails`, `eventHasEmptyValues`, `checkTimeInPast`, and `startTimebBeforeEndTime`.
+ * - Requires access to the Discord `client` object, `logger`, and helper functions: `extractEventdetails`, `formatFieldErrors` and the recurrence engine.
  */
-export async function createNewDiscordSchedule(eventInfo: string, discordMessageAttachment: string, guildID: string, replyChannel: string): Promise<void> {
+export async function createNewDiscordSchedule(eventInfo: string, discordMessageAttachment: string, guildID: string, replyChannel: string, commandContext: CommandContext | null = null, force: boolean = false): Promise<CreationOutcome> {
     // Log the Input-Info
     logger.info("Invoking new Schedule: " + eventInfo)
     let channel = client.channels.cache.get(replyChannel)
-    let frequence = ""
-
-    // Split the Event Info String into Event Details
-    let eventDetails = extractEventdetails(eventInfo, "New Schedule")
-    
-    // Check for empty Values
-    if(scheduleHasEmptyValues(await eventDetails)) {
-        logger.error("Something went wrong. Please check your Event Details: " + eventInfo)
-        await (channel as TextChannel).send("Something went wrong. Please check your Event Details: " + eventInfo)
-        await (channel as TextChannel).send("Event Details need this format: Name of Event; Event Start Time; Event End Time; Timezone in IANAS-Formatting; Location; Interval (daily/weekly); Frequency")
-        return
+    let language = getLanguage(guildID, commandContext?.authorId ?? null)
+
+    // Split the Event Info String into Event Details and check every field
+    let { eventInfo: detailsInfo, force: forceFlag } = splitForceFlag(eventInfo)
+    let { details: eventDetails, errors } = await extractEventdetails(detailsInfo, "New Schedule", getGuildSettings(guildID))
+    if (errors.length > 0) {
+        logger.error("Invalid Schedule Details: " + eventInfo + "\n" + formatFieldErrors(errors))
+        await (channel as TextChannel).send(translate(language, "create.invalid", { errors: formatFieldErrors(errors) }))
+        await (channel as TextChannel).send(translate(language, "create.scheduleFormat"))
+        return "failed"
     }
 
-    // Check for Start Time in the past
-    if(checkTimeInPast((await eventDetails).startTime) || checkTimeInPast((await eventDetails).endTime)){
-        logger.error("Start or End Time is in the past. Please retry.")
-        await (channel as TextChannel).send("Start or End Time is in the past. Please retry.")
-        return
+    // Input the Info into a new Discord Event
+    try {
+        if (guildID == null) {
+            logger.error("Could not fetch Server-ID.")
+            return "failed"
+        }
+
+        let guild = await client.guilds.fetch(guildID)
+
+        // Overlapping events at the same location need a confirmation or the force flag
+        if (!force && !forceFlag) {
+            let conflicts = await findEventConflicts(guild, eventDetails)
+            if (conflicts.length > 0) {
+                logger.info(`Schedule "${eventDetails.eventName}" overlaps ${conflicts.length} event(s), asking for confirmation.`)
+                await (channel as TextChannel).send(requestConflictConfirmation(conflicts, commandContext?.authorId ?? "", () =>
+                    createNewDiscordSchedule(eventInfo, discordMessageAttachment, guildID, replyChannel, commandContext, true), language))
+                return "pending"
+            }
+        }
+
+        let { event, scheduleSummary } = await createDiscordScheduleFromDetails(guild, eventDetails, discordMessageAttachment, replyChannel, commandContext)
+
+        if (channel && channel.isTextBased()) {
+            let startTime = formatEventTime(eventDetails.startTime, eventDetails.timezone, language)
+            await (channel as TextChannel).send(translate(language, "create.scheduleCreated", { name: eventDetails.eventName, time: startTime, schedule: scheduleSummary, url: event.url }) + formatDateNotes(eventDetails, language))
+        }
+        return "created"
+
+    } catch (e) {
+        logger.error("Failed to create event: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(translate(language, "create.failed", { error: String(e) }))
+        }
+        return "failed"
     }
+}
+/**
+ * Edits an existing scheduled Discord event with a partial set of field updates and sends feedback to a specified channel.
+ *
+ * ### Example:
+ * ```ts
+ * await editDiscordEvent(
+ *   "Team Sync; start=2025-07-01 10:00; end=2025-07-01 11:00; location=Meeting Room 2",
+ *   "",
+ *   "123456789012345678",
+ *   "987654321098765432",
+ *   null
+ * );
+ * ```
+ *
+ * @param eventInfo - A semicolon-separated string starting with the event ID or exact event name, followed by `key=value` updates:
+ *   - `"Event ID or Name; name=...; start=...; end=...; timezone=...; location=...; description=..."`
+ *   - The identifier may be omitted when `referencedEventID` is given (the command was a reply to a bot confirmation).
+ * @param discordMessageAttachment - Optional image URL that replaces the event's cover image.
+ * @param guildID - The Discord guild (server) ID the event belongs to.
+ * @param replyChannel - The ID of the Discord channel where success or error messages will be posted.
+ * @param referencedEventID - The event ID taken from the bot message the command replied to, or `null`.
+ * @param authorID - The ID of the user who sent the command, whose language is used for the answers, or `null` for the guild's language.
+ *
+ * @returns A `Promise` resolving to `"done"` once the event is edited, or `"failed"` (the reason is posted when possible).
+ *
+ * @remarks
+ * - Only the given fields are changed; everything else (including the list of interested members) is kept.
+ * - New start and end times are validated with `checkTimeInPast` and `startTimeBeforeEndTime` like on creation.
+ * - If the name matches several events, nothing is changed and the matching event IDs are posted instead.
+ * - New start/end times are read in the given timezone, else in the event's stored timezone, else in the guild's. Discord itself stores UTC.
+ * - A new location may name a voice or stage channel, which moves the event into that channel (see `resolveEventLocation`).
+ * - The stored details of events created by the bot are updated in the `eventRepository`.
+ * - The confirmation shows the new start as Discord timestamp and in the event's timezone.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger`, and helper functions: `extractEventUpdates`, `findScheduledEvents`, `checkTimeInPast`, and `startTimeBeforeEndTime`.
+ */
+export async function editDiscordEvent(eventInfo: string, discordMessageAttachment: string, guildID: string, replyChannel: string, referencedEventID: string | null, authorID: string | null = null): Promise<CommandOutcome> {
+    // Log the Input-Info
+    logger.info("Invoking Event Edit: " + eventInfo)
+    let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID, authorID)
+
+    try {
+        // Split the Event Info String into Identifier and Updates
+        let eventInfoParts = splitEventFields(eventInfo).filter(part => part != "")
+        let identifier = referencedEventID
+        if (eventInfoParts[0] && !eventInfoParts[0].includes("=")) {
+            identifier = eventInfoParts.shift()!
+        }
+
+        if (!identifier) {
+            logger.error("No event to edit given: " + eventInfo)
+            await (channel as TextChannel).send(translate(language, "edit.missingEvent"))
+            return "failed"
+        }
 
-    //check if end time is after start time
-    if(startTimeBeforeEndTime((await eventDetails).startTime, (await eventDetails).endTime)){
-        logger.error("Event cannot end before the start time. Please retry.")
-        await (channel as TextChannel).send("Event cannot end before the start time. Please retry.")
-        return
+        if (guildID == null) {
+            logger.error("Could not fetch Server-ID.")
+            return "failed"
+        }
+
+        let guild = await client.guilds.fetch(guildID)
+        let matchingEvents = await findScheduledEvents(guild, identifier)
+
+        if (matchingEvents.length == 0) {
+            logger.error("No event found for: " + identifier)
+            await (channel as TextChannel).send(translate(language, "event.notFound", { identifier: identifier }))
+            return "failed"
+        }
+
+        if (matchingEvents.length > 1) {
+            logger.error("Multiple events found for: " + identifier)
+            let eventLines = matchingEvents.map(event => `- ${event.id}: ${event.scheduledStartAt?.toISOString()}`).join("\n")
+            await (channel as TextChannel).send(translate(language, "edit.ambiguous", { identifier: identifier, events: eventLines }))
+            return "failed"
+        }
+
+        let event = matchingEvents[0]!
+        let guildSettings = getGuildSettings(guildID)
+
+        // New times are read in the timezone the event was created in, not the guild's
+        let storedEvent = eventRepository.getEvent(event.id)
+        let { updates, errors } = extractEventUpdates(eventInfoParts, storedEvent?.details.timezone ?? guildSettings.timezone, guildSettings.locale)
+        if (errors.length > 0) {
+            logger.error("Invalid Event Edit: " + eventInfo + "\n" + formatFieldErrors(errors))
+            await (channel as TextChannel).send(translate(language, "edit.invalid", { errors: formatFieldErrors(errors) }))
+            return "failed"
+        }
+
+        let startTime = updates.startTime ?? event.scheduledStartAt!
+        let endTime = updates.endTime ?? event.scheduledEndAt
+
+        // Check for Start Time in the past
+        if ((updates.startTime && checkTimeInPast(updates.startTime)) || (updates.endTime && checkTimeInPast(updates.endTime))) {
+            logger.error("Start or End Time is in the past. Please retry.")
+            await (channel as TextChannel).send(translate(language, "edit.inPast"))
+            return "failed"
+        }
+
+        //check if end time is after start time
+        if (endTime && startTimeBeforeEndTime(startTime, endTime)) {
+            logger.error("Event cannot end before the start time. Please retry.")
+            await (channel as TextChannel).send(translate(language, "edit.endBeforeStart"))
+            return "failed"
+        }
+
+        let editOptions: GuildScheduledEventEditOptions<GuildScheduledEventStatus, GuildScheduledEventSetStatusArg<GuildScheduledEventStatus>> = {}
+        if (updates.eventName) editOptions.name = updates.eventName
+        if (updates.startTime) editOptions.scheduledStartTime = updates.startTime
+        if (updates.endTime) editOptions.scheduledEndTime = updates.endTime
+        let location = updates.eventLocation ? await resolveEventLocation(guild, updates.eventLocation) : null
+        if (location) {
+            Object.assign(editOptions, locationEventOptions(location))
+            // Leaving a voice or stage channel needs the channel cleared explicitly
+            if (!location.channel && event.channelId) editOptions.channel = null
+        }
+        if (updates.description) editOptions.description = updates.description
+        if (discordMessageAttachment != "") editOptions.image = discordMessageAttachment
+
+        if (Object.keys(editOptions).length == 0) {
+            logger.error("Nothing to update for event: " + event.id)
+            await (channel as TextChannel).send(translate(language, "edit.nothingToUpdate"))
+            return "failed"
+        }
+
+        let editedEvent = await event.edit(editOptions)
+        logger.info(`Event "${editedEvent.name}" (${editedEvent.id}) updated: ${Object.keys(editOptions).join(", ")}`)
+        refreshScheduledEvent(editedEvent)
+
+        // Keep the stored details in sync with the edited event
+        if (storedEvent) {
+            eventRepository.updateEventDetails(editedEvent.id, {
+                ...storedEvent.details,
+                eventName: editedEvent.name,
+                startTime: editedEvent.scheduledStartAt ?? storedEvent.details.startTime,
+                endTime: editedEvent.scheduledEndAt ?? storedEvent.details.endTime,
+                timezone: updates.timezone ?? storedEvent.details.timezone,
+                eventLocation: location?.storedLocation ?? storedEvent.details.eventLocation,
+                description: editedEvent.description ?? storedEvent.details.description,
+            })
+        }
+
+        if (channel && channel.isTextBased()) {
+            let timezone = updates.timezone ?? storedEvent?.details.timezone ?? guildSettings.timezone
+            let editedStartTime = formatEventTime(editedEvent.scheduledStartAt ?? startTime, timezone, language)
+            await (channel as TextChannel).send(translate(language, "edit.updated", { name: editedEvent.name, time: editedStartTime, url: editedEvent.url }))
+        }
+
+        return "done"
+
+    } catch (e) {
+        logger.error("Failed to edit event: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(translate(language, "edit.failed", { error: String(e) })).catch(() => null)
+        }
+        return "failed"
     }
+}
+
+/**
+ * Cancels or deletes one or more scheduled Discord events (including whole recurring series) and sends feedback to a specified channel.
+ *
+ * ### Example:
+ * ```ts
+ * await cancelDiscordEvent(
+ *   "Team Sync; series; notify",
+ *   "123456789012345678",
+ *   "987654321098765432",
+ *   "555555555555555555",
+ *   null,
+ *   false
+ * );
+ * ```
+ *
+ * @param eventInfo - A semicolon-separated string starting with the event ID or exact event name, followed by optional flags:
+ *   - `"Event ID or Name; series; notify"`
+ *   - `series` is required to cancel an event that belongs to a recurring series, it then ends the whole series.
+ *   - `notify` posts a cancellation notice (with the live ping mention) instead of a plain confirmation.
+ * @param guildID - The Discord guild (server) ID the event belongs to.
+ * @param replyChannel - The ID of the Discord channel where confirmations, questions and notices will be posted.
+ * @param authorID - The ID of the user who sent the command, only their answer is accepted when a confirmation is needed.
+ * @param referencedEventID - The event ID taken from the bot message the command replied to, or `null`.
+ * @param deleteEvent - `true` to delete the events from the guild, `false` to only set their status to cancelled.
+ *
+ * @returns A `Promise` resolving to `"done"` once all selected events are cancelled, `"cancelled"` if the author aborted
+ *   the selection of several matching events, or `"failed"` (the reason is posted when possible).
+ *
+ * @remarks
+ * - If the name matches several events, the bot lists them and waits up to 60 seconds for the author to answer
+ *   with the numbers to cancel (e.g. `1, 3`), `all`, or anything else to abort.
+ * - A recurring series is ended by deleting its Discord event, since cancelling only affects a single occurrence.
+ * - For bot-managed series (see `createMaterializedSeries`), a single occurrence can be cancelled without the `series` flag.
+ *   With the flag, all upcoming occurrences are deleted and the series is not rolled forward anymore.
+ * - Cancelled and deleted events are removed from the live ping scheduler and marked in the `eventRepository`.
+ * - Answers use the author's language, notices with the ping mention the guild's language.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger`, `findScheduledEvents` and the event scheduler.
+ */
+export async function cancelDiscordEvent(eventInfo: string, guildID: string, replyChannel: string, authorID: string, referencedEventID: string | null, deleteEvent: boolean): Promise<CommandOutcome> {
+    // Log the Input-Info
+    logger.info((deleteEvent ? "Invoking Event Deletion: " : "Invoking Event Cancellation: ") + eventInfo)
+    let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID, authorID)
+    // Notices are meant for everyone, so they use the guild's language
+    let noticeLanguage = getLanguage(guildID)
+    let action = translate(language, deleteEvent ? "action.deleted" : "action.cancelled")
 
-    // Input the Info into a new Discord Event
     try {
+        // Split the Event Info String into Identifier and Flags
+        let eventInfoParts = splitEventFields(eventInfo).filter(part => part != "")
+        let identifier = referencedEventID
+        if (eventInfoParts[0] && !["series", "notify"].includes(eventInfoParts[0].toLowerCase())) {
+            identifier = eventInfoParts.shift()!
+        }
+        let flags = eventInfoParts.map(part => part.toLowerCase())
+        let cancelSeries = flags.includes("series")
+        let sendNotice = flags.includes("notify")
+
+        if (!identifier) {
+            logger.error("No event to cancel given: " + eventInfo)
+            await (channel as TextChannel).send(translate(language, "cancel.missingEvent"))
+            return "failed"
+        }
+
         if (guildID == null) {
             logger.error("Could not fetch Server-ID.")
-            return
+            return "failed"
         }
 
         let guild = await client.guilds.fetch(guildID)
-        let location = (await eventDetails).eventLocation
-
-        //create the event based on the schedule interval (daily, weekly, monthly or yearly)
-        switch ((await eventDetails).interval) {
-            case "daily": {
-                logger.info("Try creating Daily Schedule.")
-                let event = await guild.scheduledEvents.create({
-                    name: (await eventDetails).eventName,
-                    scheduledStartTime: (await eventDetails).startTime,
-                    scheduledEndTime: (await eventDetails).endTime,
-                    privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
-                    entityType: GuildScheduledEventEntityType.External,
-                    entityMetadata: { location },
-                    description: (await eventDetails).description,
-                    image: discordMessageAttachment,
-                    recurrenceRule: {
-                        frequency: GuildScheduledEventRecurrenceRuleFrequency.Daily,
-                        interval: (await eventDetails).frequency,
-                        startAt: (await eventDetails).startTime.toISOString(),
-                        byWeekday: []
-                    },
-                })
-
-                frequence = "day"
-                break
-            }
+        let matchingEvents = await findScheduledEvents(guild, identifier)
+
+        if (matchingEvents.length == 0) {
+            logger.error("No event found for: " + identifier)
+            await (channel as TextChannel).send(translate(language, "event.notFound", { identifier: identifier }))
+            return "failed"
+        }
+
+        // Ask the author which events are meant if the name is ambiguous
+        if (matchingEvents.length > 1) {
+            let eventLines = matchingEvents.map((event, index) => `${index + 1}. ${event.name} (${event.id}): ${event.scheduledStartAt?.toISOString()}`).join("\n")
+            await (channel as TextChannel).send(translate(language, "cancel.ambiguous", { identifier: identifier, action: action, events: eventLines }))
+
+            let answers = await (channel as TextChannel).awaitMessages({ filter: answer => answer.author.id == authorID, max: 1, time: 60_000 })
+            let answer = answers.first()?.content.trim().toLowerCase() ?? ""
 
-            case "weekly": {
-                logger.info("Try creating Weekly Schedule.")
-
-                if((await eventDetails).frequency > 2 || (await eventDetails).frequency < 0) {
-                    logger.error("Error creating weekly schedule. Interval can only be 1 or 2. Input value: " + (await eventDetails).frequency)
-                    await (channel as TextChannel).send("Error creating weekly schedule. Interval can only be 1 or 2. Input Value: " + (await eventDetails).frequency)
-                    return
-                } 
-
-                const weekday = getWeekdayNameFromDate((await eventDetails).startTime);
-                let event = await guild.scheduledEvents.create({
-                    name: (await eventDetails).eventName,
-                    scheduledStartTime: (await eventDetails).startTime,
-                    scheduledEndTime: (await eventDetails).endTime,
-                    privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
-                    entityType: GuildScheduledEventEntityType.External,
-                    entityMetadata: { location },
-                    description: (await eventDetails).description,
-                    image: discordMessageAttachment,
-                    recurrenceRule: {
-                        frequency: GuildScheduledEventRecurrenceRuleFrequency.Weekly,
-                        interval: (await eventDetails).frequency,
-                        startAt: (await eventDetails).startTime,
-                        byWeekday: [weekday],
-                    },
-                })
-
-                frequence = "week"
-                break
+            if (answer != "all") {
+                let selectedIndexes = answer.split(/[\s,]+/).map(value => +value - 1)
+                if (selectedIndexes.some(index => !matchingEvents[index])) {
+                    logger.info(`Cancellation of "${identifier}" aborted by answer: ${answer}`)
+                    await (channel as TextChannel).send(translate(language, "cancel.nothingDone", { action: action }))
+                    return "cancelled"
+                }
+                matchingEvents = selectedIndexes.map(index => matchingEvents[index]!)
             }
-            
-            // Case currently not working due to Discord API
-            case "monthly": {
-                /** 
-                logger.info("Try creating Monthly Schedule.")
-                const weekday = getWeekdayNameFromDate((await eventDetails).startTime);
-                let event = await guild.scheduledEvents.create({
-                    name: (await eventDetails).eventName,
-                    scheduledStartTime: (await eventDetails).startTime,
-                    scheduledEndTime: (await eventDetails).endTime,
-                    privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
-                    entityType: GuildScheduledEventEntityType.External,
-                    entityMetadata: { location },
-                    description: (await eventDetails).description,
-                    image: discordMessageAttachment,
-                    recurrenceRule: {
-                        frequency: GuildScheduledEventRecurrenceRuleFrequency.Monthly,
-                        interval: (await eventDetails).frequency,
-                        startAt: (await eventDetails).startTime,
-                        byNWeekday: []
-                    },
-                })
-
-                frequence = "month"*/
-                logger.error("Monthly schedule currently not working due to Discord API.")
-                await (channel as TextChannel).send("Monthly schedule currently not working due to Discord API.")
-
-                break
+        }
+
+        // Recurring Discord series can only be ended on purpose
+        let seriesEvents = matchingEvents.filter(event => event.recurrenceRule)
+        if (seriesEvents.length > 0 && !cancelSeries) {
+            logger.error(`Event "${identifier}" is a recurring series, "series" flag missing.`)
+            await (channel as TextChannel).send(translate(language, "cancel.seriesFlagMissing", { name: seriesEvents[0]!.name }))
+            return "failed"
+        }
+
+        let endedSeries = new Set<string>()
+        let outcome: CommandOutcome = "done"
+        for (let event of matchingEvents) {
+            // Occurrences of bot-managed series are single events, with "series" the whole series is ended
+            let botSeries = findSeriesByEvent(event.id)
+            if (cancelSeries && botSeries) {
+                if (endedSeries.has(botSeries.seriesId)) {
+                    continue
+                }
+                endedSeries.add(botSeries.seriesId)
+
+                let deletedEvents = await endSeries(botSeries.seriesId)
+                if (channel && channel.isTextBased()) {
+                    if (sendNotice) {
+                        await (channel as TextChannel).send(translate(noticeLanguage, "cancel.seriesNotice", { mention: getPingMention(guildID), name: botSeries.eventName }))
+                    }
+                    else {
+                        await (channel as TextChannel).send(translate(language, "cancel.seriesEnded", { name: botSeries.eventName, count: deletedEvents.length, action: action }))
+                    }
+                }
+                continue
             }
 
-            // Case currently not working due to Discord API
-            case "yearly": {
-                /**logger.info("Try creating Yearly Schedule.")
-                let event = await guild.scheduledEvents.create({
-                    name: (await eventDetails).eventName,
-                    scheduledStartTime: (await eventDetails).startTime,
-                    scheduledEndTime: (await eventDetails).endTime,
-                    privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
-                    entityType: GuildScheduledEventEntityType.External,
-                    entityMetadata: { location },
-                    description: (await eventDetails).description,
-                    image: discordMessageAttachment,
-                    recurrenceRule: {
-                        frequency: GuildScheduledEventRecurrenceRuleFrequency.Yearly,
-                        interval: (await eventDetails).frequency,
-                        startAt: (await eventDetails).startTime,
-                        byMonth: [],
-                        byMonthDay: [],
-                    },
-                })
-                
-                frequence = "year"*/
-
-                logger.error("Monthly schedule currently not working due to Discord API.")
-                await (channel as TextChannel).send("Monthly schedule currently not working due to Discord API.")
-                break
+            if (!isCancellable(event, deleteEvent)) {
+                logger.error(`Event "${event.name}" (${event.id}) cannot be cancelled in its current status.`)
+                await (channel as TextChannel).send(translate(language, "cancel.notCancellable", { name: event.name }))
+                outcome = "failed"
+                continue
             }
 
-            // if none of the intervals is true, send an error message in the logs and on the server
-            default: {
-                logger.error("Could not fetch event schedule. Fetched Input: " + (await eventDetails).interval)
-                await (channel as TextChannel).send("Failed: Schedule not valid. Input: " + (await eventDetails).interval)
-                return
+            await cancelScheduledEvent(event, deleteEvent)
+            logger.info(`Event "${event.name}" (${event.id}) ${action}.`)
+
+            if (channel && channel.isTextBased()) {
+                if (sendNotice) {
+                    let timezone = eventRepository.getEvent(event.id)?.details.timezone ?? getGuildSettings(guildID).timezone
+                    let startTime = formatEventTime(event.scheduledStartAt!, timezone, noticeLanguage)
+                    await (channel as TextChannel).send(translate(noticeLanguage, "cancel.notice", { mention: getPingMention(guildID), name: event.name, time: startTime }))
+                }
+                else {
+                    await (channel as TextChannel).send(translate(language, "cancel.done", { name: event.name, action: action }))
+                }
             }
         }
-        
-        logger.info(`Event "${(await eventDetails).eventName}" created for ${(await eventDetails).startTime} with schedule ${(await eventDetails).interval} repeated every ${(await eventDetails).frequency} `+ frequence + `(s).`)
-        if (channel && channel.isTextBased()) {
-            await (channel as TextChannel).send(`Event "${(await eventDetails).eventName}" created for ${(await eventDetails).startTime} with schedule ${(await eventDetails).interval} repeated every ${(await eventDetails).frequency} ` + frequence + `(s).`)
-        }
+
+        return outcome
 
     } catch (e) {
-        logger.error("Failed to create event: " + e)
+        logger.error(`Failed to cancel event: ` + e)
         if (channel && channel.isTextBased()) {
-            await (channel as TextChannel).send("Failed to create event: " + e)
+            await (channel as TextChannel).send(translate(language, "cancel.failed", { error: String(e) })).catch(() => null)
+        }
+        return "failed"
+    }
+}
+
+
+/**
+ * Checks whether a scheduled event can still be cancelled or deleted.
+ *
+ * @param event - The scheduled event.
+ * @param deleteEvent - `true` if the event should be deleted, which is possible in every status.
+ *
+ * @returns `true` if `cancelScheduledEvent` can handle the event; otherwise, `false`.
+ */
+export function isCancellable(event: GuildScheduledEvent, deleteEvent: boolean): boolean {
+    return deleteEvent || event.recurrenceRule != null || event.isScheduled()
+}
+
+/**
+ * Cancels or deletes a single scheduled Discord event and stops its live ping.
+ *
+ * ### Example:
+ * ```ts
+ * if (isCancellable(event, false)) {
+ *     await cancelScheduledEvent(event, false)
+ * }
+ * ```
+ *
+ * @param event - The scheduled event.
+ * @param deleteEvent - `true` to delete the event from the guild, `false` to only set its status to cancelled.
+ *
+ * @returns A `Promise` resolving to the status stored in the `eventRepository`: `"cancelled"` or `"deleted"`.
+ *
+ * @remarks
+ * - Recurring Discord events are always deleted, since cancelling only affects a single occurrence.
+ * - Does not send any messages, occurrences of bot-managed series are ended with `endSeries` instead.
+ *
+ * @throws An `Error` if the event already started or ended and is not deleted (see `isCancellable`), and errors from the Discord API.
+ */
+export async function cancelScheduledEvent(event: GuildScheduledEvent, deleteEvent: boolean): Promise<StoredEventStatus> {
+    if (!isCancellable(event, deleteEvent)) {
+        throw new Error(`Event "${event.name}" has already started or ended and cannot be cancelled.`)
+    }
+
+    let status: StoredEventStatus = deleteEvent || event.recurrenceRule ? "deleted" : "cancelled"
+    if (status == "deleted") {
+        await event.delete()
+    }
+    else {
+        await event.setStatus(GuildScheduledEventStatus.Canceled)
+    }
+
+    untrackScheduledEvent(event.id)
+    eventRepository.updateEventStatus(event.id, status)
+
+    return status
+}
+
+/**
+ * Formats how ambiguous or relative dates were read, appended to confirmations so users can check them.
+ *
+ * @param eventDetails - The `EventDetails` with the notes of the date parser.
+ * @param language - The language of the hint after the notes.
+ *
+ * @returns The notes on new lines, or an empty string if there are none.
+ */
+export function formatDateNotes(eventDetails: EventDetails, language: string = "en"): string {
+    let dateNotes = eventDetails.dateNotes ?? []
+    return dateNotes.length > 0 ? "\n" + dateNotes.join("\n") + " " + translate(language, "create.dateNotesHint") : ""
+}
+
+// Outcome of a `New Event` or `New Schedule` command, shown as reaction on the command
+export type CreationOutcome = "created" | "failed" | "pending" | "cancelled"
+
+// Outcome of a command that changes existing events, shown as reaction on the command
+export type CommandOutcome = "done" | "failed" | "cancelled"
+
+export interface ScheduleCreationResult {
+    event: GuildScheduledEvent
+    scheduleSummary: string
+}
+
+/**
+ * Creates a one-time scheduled Discord event from already validated event details.
+ *
+ * ### Example:
+ * ```ts
+ * const event = await createDiscordEventFromDetails(guild, eventDetails, "", "987654321098765432");
+ * ```
+ *
+ * @param guild - The Discord guild where the event should be created.
+ * @param eventDetails - The validated `EventDetails` of the event.
+ * @param discordMessageAttachment - Optional image URL for the event's cover image.
+ * @param replyChannel - The ID of the channel that gets the live ping at start time.
+ * @param commandContext - The author, message and command text the event is created from, or `null` if unknown.
+ *
+ * @returns A `Promise` resolving to the created `GuildScheduledEvent`.
+ *
+ * @remarks
+ * - The location may name a voice or stage channel, the event is then created in that channel (see `resolveEventLocation`).
+ * - Registers the created event with the scheduler and records it in the `eventRepository`.
+ * - Does not validate or send any messages, callers use `eventDetailsFromFields` and report the result themselves.
+ *
+ * @throws An `Error` if the location channel cannot be used, and errors from the Discord API.
+ */
+export async function createDiscordEventFromDetails(guild: Guild, eventDetails: EventDetails, discordMessageAttachment: string, replyChannel: string, commandContext: CommandContext | null = null): Promise<GuildScheduledEvent> {
+    let location = await resolveEventLocation(guild, eventDetails.eventLocation)
+
+    let event = await guild.scheduledEvents.create({
+        name: eventDetails.eventName,
+        scheduledStartTime: eventDetails.startTime,
+        scheduledEndTime: eventDetails.endTime,
+        privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
+        ...locationEventOptions(location),
+        description: eventDetails.description,
+        image: discordMessageAttachment,
+    })
+    logger.info(`Event "${eventDetails.eventName}" created for ${eventDetails.startTime}`)
+    trackScheduledEvent(event, replyChannel, eventDetails.timezone)
+    recordCreatedEvent(event.id, guild.id, replyChannel, { ...eventDetails, eventLocation: location.storedLocation }, commandContext, null)
+
+    return event
+}
+
+/**
+ * Replaces the details of an existing one-time scheduled Discord event with already validated event details.
+ *
+ * ### Example:
+ * ```ts
+ * const editedEvent = await editDiscordEventFromDetails(guild, event, eventDetails);
+ * ```
+ *
+ * @param guild - The Discord guild the event belongs to.
+ * @param event - The scheduled event to change.
+ * @param eventDetails - The validated `EventDetails` the event should have afterwards.
+ *
+ * @returns A `Promise` resolving to the edited `GuildScheduledEvent`.
+ *
+ * @remarks
+ * - Name, times, location and description are all replaced; the cover image and the interested members are kept.
+ * - Refreshes the live ping and the stored details in the `eventRepository`.
+ * - Does not validate or send any messages, like `createDiscordEventFromDetails`.
+ *
+ * @throws An `Error` if the location channel cannot be used, and errors from the Discord API.
+ */
+export async function editDiscordEventFromDetails(guild: Guild, event: GuildScheduledEvent, eventDetails: EventDetails): Promise<GuildScheduledEvent> {
+    let location = await resolveEventLocation(guild, eventDetails.eventLocation)
+
+    let editOptions: GuildScheduledEventEditOptions<GuildScheduledEventStatus, GuildScheduledEventSetStatusArg<GuildScheduledEventStatus>> = {
+        name: eventDetails.eventName,
+        scheduledStartTime: eventDetails.startTime,
+        scheduledEndTime: eventDetails.endTime,
+        ...locationEventOptions(location),
+        description: eventDetails.description,
+    }
+    // Leaving a voice or stage channel needs the channel cleared explicitly
+    if (!location.channel && event.channelId) editOptions.channel = null
+
+    let editedEvent = await event.edit(editOptions)
+    logger.info(`Event "${editedEvent.name}" (${editedEvent.id}) replaced for ${eventDetails.startTime}`)
+    refreshScheduledEvent(editedEvent)
+    eventRepository.updateEventDetails(editedEvent.id, { ...eventDetails, eventLocation: location.storedLocation })
+
+    return editedEvent
+}
+
+/**
+ * Creates a recurring schedule from already validated event details, either as native Discord recurrence or as bot-managed series.
+ *
+ * ### Example:
+ * ```ts
+ * const { event, scheduleSummary } = await createDiscordScheduleFromDetails(guild, eventDetails, "", "987654321098765432");
+ * // scheduleSummary: "every month on the 2nd Saturday"
+ * ```
+ *
+ * @param guild - The Discord guild where the schedule should be created.
+ * @param eventDetails - The validated `EventDetails`, `interval` and `frequency` describe the recurrence.
+ * @param discordMessageAttachment - Optional image URL for the event's cover image.
+ * @param replyChannel - The ID of the channel that gets the live pings.
+ * @param commandContext - The author, message and command text the schedule is created from, or `null` if unknown.
+ *
+ * @returns A `Promise` resolving to the (first) created event and a readable summary of the schedule.
+ *
+ * @remarks
+ * - Rules Discord supports natively (daily, weekly every 1 or 2 weeks) become a single recurring Discord event.
+ * - All other rules (monthly, yearly, longer weekly intervals, COUNT/UNTIL) become a bot-managed series via `createMaterializedSeries`.
+ * - The location may name a voice or stage channel, every occurrence is then created in that channel.
+ *
+ * @throws An `Error` if the schedule is invalid, has no upcoming occurrence or the location channel cannot be used, and errors from the Discord API.
+ */
+export async function createDiscordScheduleFromDetails(guild: Guild, eventDetails: EventDetails, discordMessageAttachment: string, replyChannel: string, commandContext: CommandContext | null = null): Promise<ScheduleCreationResult> {
+    let location = await resolveEventLocation(guild, eventDetails.eventLocation)
+    eventDetails = { ...eventDetails, eventLocation: location.storedLocation }
+
+    // Build the recurrence rule from the interval keyword or RRULE
+    let recurrenceRule = parseRecurrenceRule(eventDetails.interval, eventDetails.frequency, eventDetails.startTime, eventDetails.timezone)
+    if (!recurrenceRule) {
+        throw new Error("Schedule not valid. Input: " + eventDetails.interval)
+    }
+
+    let event: GuildScheduledEvent
+    let discordRecurrenceRule = toDiscordRecurrenceRule(recurrenceRule, eventDetails.startTime, eventDetails.timezone)
+    if (discordRecurrenceRule) {
+        logger.info("Try creating Discord Schedule.")
+        event = await guild.scheduledEvents.create({
+            name: eventDetails.eventName,
+            scheduledStartTime: eventDetails.startTime,
+            scheduledEndTime: eventDetails.endTime,
+            privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
+            ...locationEventOptions(location),
+            description: eventDetails.description,
+            image: discordMessageAttachment,
+            recurrenceRule: discordRecurrenceRule,
+        })
+        trackScheduledEvent(event, replyChannel, eventDetails.timezone)
+        recordCreatedEvent(event.id, guild.id, replyChannel, eventDetails, commandContext, null)
+    }
+    else {
+        // Discord cannot express this rule, so the bot creates and rolls forward the single occurrences itself
+        logger.info("Try creating bot-managed Schedule.")
+        let createdEvents = await createMaterializedSeries(guild, eventDetails, recurrenceRule, discordMessageAttachment, replyChannel, commandContext)
+        if (createdEvents.length == 0) {
+            throw new Error("Schedule has no upcoming occurrences. Input: " + eventDetails.interval)
         }
+        event = createdEvents[0]!
     }
-}
\ No newline at end of file
+
+    let scheduleSummary = describeRecurrenceRule(recurrenceRule)
+    logger.info(`Event "${eventDetails.eventName}" created for ${eventDetails.startTime} with schedule ${scheduleSummary}.`)
+
+    return { event, scheduleSummary }
+}
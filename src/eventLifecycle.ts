@@ -0,0 +1,339 @@
+import { DiscordAPIError, GuildScheduledEventEntityType, GuildScheduledEventStatus, RESTJSONErrorCodes, TextChannel, type Guild, type GuildScheduledEvent, type PartialGuildScheduledEvent } from "discord.js"
+import type { Database } from "bun:sqlite"
+import { logger, client } from "./mainBot"
+import { database } from "./database"
+import { eventRepository } from "./eventStore"
+import { untrackScheduledEvent } from "./eventScheduler"
+import { getGuildSettings, formatOffset } from "./guildSettings"
+import { getLanguage, translate } from "./localization"
+
+export interface LifecycleRecord {
+    eventId: string
+    guildId: string
+    // When the event became active, `null` if the bot did not see it start
+    startedAt: Date | null
+    // When the occurrence ended and its summary was handled, `null` while it is upcoming or running
+    completedAt: Date | null
+}
+
+/**
+ * Storage of the start and end the lifecycle manager saw for each event, so no summary is posted twice.
+ */
+export interface LifecycleRepository {
+    getRecord(eventID: string): LifecycleRecord | null
+    saveRecord(record: LifecycleRecord): void
+    listCompleted(guildID: string, before: Date): LifecycleRecord[]
+    deleteRecord(eventID: string): void
+}
+
+interface LifecycleRow {
+    event_id: string
+    guild_id: string
+    started_at: string | null
+    completed_at: string | null
+}
+
+/**
+ * `LifecycleRepository` backed by SQLite (via `bun:sqlite`).
+ */
+export class SqliteLifecycleRepository implements LifecycleRepository {
+    private db: Database
+
+    constructor(db: Database) {
+        this.db = db
+        this.db.run(`CREATE TABLE IF NOT EXISTS event_lifecycle (
+            event_id TEXT PRIMARY KEY,
+            guild_id TEXT NOT NULL,
+            started_at TEXT,
+            completed_at TEXT
+        )`)
+    }
+
+    getRecord(eventID: string): LifecycleRecord | null {
+        let row = this.db.query<LifecycleRow, [string]>("SELECT * FROM event_lifecycle WHERE event_id = ?").get(eventID)
+        return row ? this.toRecord(row) : null
+    }
+
+    saveRecord(record: LifecycleRecord): void {
+        this.db.query("INSERT OR REPLACE INTO event_lifecycle (event_id, guild_id, started_at, completed_at) VALUES (?, ?, ?, ?)").run(
+            record.eventId,
+            record.guildId,
+            record.startedAt?.toISOString() ?? null,
+            record.completedAt?.toISOString() ?? null,
+        )
+    }
+
+    listCompleted(guildID: string, before: Date): LifecycleRecord[] {
+        return this.db.query<LifecycleRow, [string, string]>("SELECT * FROM event_lifecycle WHERE guild_id = ? AND completed_at IS NOT NULL AND completed_at < ?")
+            .all(guildID, before.toISOString())
+            .map(row => this.toRecord(row))
+    }
+
+    deleteRecord(eventID: string): void {
+        this.db.query("DELETE FROM event_lifecycle WHERE event_id = ?").run(eventID)
+    }
+
+    private toRecord(row: LifecycleRow): LifecycleRecord {
+        return {
+            eventId: row.event_id,
+            guildId: row.guild_id,
+            startedAt: row.started_at ? new Date(row.started_at) : null,
+            completedAt: row.completed_at ? new Date(row.completed_at) : null,
+        }
+    }
+}
+
+export const lifecycleRepository: LifecycleRepository = new SqliteLifecycleRepository(database)
+
+const LIFECYCLE_CHECK_INTERVAL = 60 * 1000
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Checks whether the lifecycle manager takes care of an event.
+ *
+ * @param event - The scheduled event.
+ *
+ * @returns `true` for External events created by the bot; otherwise, `false`.
+ *
+ * @remarks
+ * - Voice and stage events are left to their hosts, Discord ends them once the channel is empty.
+ */
+function isManagedEvent(event: GuildScheduledEvent): boolean {
+    return event.creatorId == client.user?.id && event.entityType == GuildScheduledEventEntityType.External
+}
+
+/**
+ * Checks whether the current occurrence of an event was already handled as ended.
+ *
+ * @param record - The lifecycle record of the event, if any.
+ * @param event - The scheduled event.
+ *
+ * @returns `true` if the record's end belongs to the current occurrence; otherwise, `false`.
+ */
+function isOccurrenceFinished(record: LifecycleRecord | null, event: GuildScheduledEvent): boolean {
+    return record?.completedAt != null && event.scheduledStartAt != null && record.completedAt > event.scheduledStartAt
+}
+
+/**
+ * Fetches an event for the cleanup, telling a deleted event apart from a failed request.
+ *
+ * @param guild - The Discord guild of the event.
+ * @param eventID - The ID of the event.
+ *
+ * @returns A `Promise` resolving to the event, or `null` if it no longer exists in Discord.
+ *
+ * @throws Errors from the Discord API other than an unknown event.
+ */
+async function fetchExistingEvent(guild: Guild, eventID: string): Promise<GuildScheduledEvent | null> {
+    try {
+        return await guild.scheduledEvents.fetch(eventID)
+    } catch (e) {
+        if (e instanceof DiscordAPIError && (e.code == RESTJSONErrorCodes.UnknownGuildScheduledEvent || e.status == 404)) {
+            return null
+        }
+        throw e
+    }
+}
+
+/**
+ * Posts the summary of an ended event into its reply channel and marks the occurrence as handled.
+ *
+ * @param guild - The Discord guild of the event.
+ * @param event - The event, as it was while it was running.
+ * @param endTime - When the event ended.
+ *
+ * @returns A `Promise<void>` that resolves once the summary was posted.
+ *
+ * @remarks
+ * - The duration counts from the start the bot saw, or from the scheduled start if it was started late (e.g. after a restart).
+ * - Recurring Discord events continue with their next occurrence, so only single events are marked as completed in the `eventRepository`.
+ */
+async function finishEvent(guild: Guild, event: GuildScheduledEvent, endTime: Date): Promise<void> {
+    let record = lifecycleRepository.getRecord(event.id)
+    let scheduledStart = event.scheduledStartAt ?? endTime
+    let startTime = record?.startedAt && record.startedAt < endTime ? record.startedAt : scheduledStart
+
+    lifecycleRepository.saveRecord({ eventId: event.id, guildId: guild.id, startedAt: startTime, completedAt: endTime })
+    if (!event.recurrenceRule) {
+        eventRepository.updateEventStatus(event.id, "completed")
+        untrackScheduledEvent(event.id)
+    }
+
+    let guildSettings = getGuildSettings(guild.id)
+    if (!guildSettings.summary) {
+        return
+    }
+
+    let interestedCount = event.userCount ?? (await guild.scheduledEvents.fetch({ guildScheduledEvent: event.id, withUserCount: true }).catch(() => null))?.userCount ?? 0
+    let channelID = eventRepository.getEvent(event.id)?.channelId ?? guildSettings.replyChannelId ?? guild.systemChannelId
+    let channel = channelID ? await client.channels.fetch(channelID).catch(() => null) : null
+    if (channel && channel.isTextBased()) {
+        let duration = formatOffset(Math.max(Math.round((endTime.getTime() - startTime.getTime()) / 60_000), 0))
+        await (channel as TextChannel).send(translate(getLanguage(guild.id), "lifecycle.summary", { name: event.name, duration: duration, count: interestedCount }))
+    }
+    logger.info(`Event "${event.name}" (${event.id}) ended, summary handled.`)
+}
+
+/**
+ * Starts and completes the due events of a guild and deletes its old completed events.
+ *
+ * @param guild - The Discord guild.
+ *
+ * @returns A `Promise<void>` that resolves once all due events were handled.
+ *
+ * @remarks
+ * - Events whose start passed while the bot was offline are started late. Events whose end passed as well are not started,
+ *   they are only marked as completed in the `eventRepository`, without summary.
+ * - Completed events are only forgotten once Discord deleted them or they no longer exist, recurring events are kept.
+ *
+ * @throws No exceptions are thrown to the caller; errors per event are logged.
+ */
+async function updateGuildLifecycle(guild: Guild): Promise<void> {
+    let guildSettings = getGuildSettings(guild.id)
+    let now = new Date()
+
+    if (guildSettings.lifecycle) {
+        let scheduledEvents = await guild.scheduledEvents.fetch()
+
+        for (let event of scheduledEvents.values()) {
+            if (!isManagedEvent(event)) {
+                continue
+            }
+
+            try {
+                // Missed while the bot was offline, starting it now would only end it again right away
+                if (event.isScheduled() && event.scheduledEndAt && event.scheduledEndAt <= now) {
+                    if (!isOccurrenceFinished(lifecycleRepository.getRecord(event.id), event)) {
+                        lifecycleRepository.saveRecord({ eventId: event.id, guildId: guild.id, startedAt: null, completedAt: event.scheduledEndAt })
+                        if (!event.recurrenceRule) {
+                            eventRepository.updateEventStatus(event.id, "completed")
+                            untrackScheduledEvent(event.id)
+                        }
+                        logger.info(`Event "${event.name}" (${event.id}) ended while the bot was offline, marked as completed.`)
+                    }
+                    continue
+                }
+
+                if (event.isScheduled() && event.scheduledStartAt && event.scheduledStartAt <= now) {
+                    lifecycleRepository.saveRecord({ eventId: event.id, guildId: guild.id, startedAt: now, completedAt: null })
+                    event = await event.setStatus(GuildScheduledEventStatus.Active)
+                    logger.info(`Event "${event.name}" (${event.id}) started.`)
+                }
+
+                if (event.isActive() && event.scheduledEndAt && event.scheduledEndAt <= now) {
+                    // Marked before the update, so the status update of Discord does not post the summary again
+                    if (!isOccurrenceFinished(lifecycleRepository.getRecord(event.id), event)) {
+                        await finishEvent(guild, event, event.scheduledEndAt)
+                    }
+                    await event.setStatus(GuildScheduledEventStatus.Completed)
+                    logger.info(`Event "${event.name}" (${event.id}) completed.`)
+                }
+            } catch (e) {
+                logger.error(`Failed to update the status of event ${event.id}: ` + e)
+            }
+        }
+    }
+
+    if (guildSettings.cleanupDays != null) {
+        for (let record of lifecycleRepository.listCompleted(guild.id, new Date(now.getTime() - guildSettings.cleanupDays * DAY))) {
+            try {
+                let event = await fetchExistingEvent(guild, record.eventId)
+                // Recurring events continue with their next occurrence and are kept, only the old record is dropped
+                if (event?.recurrenceRule) {
+                    lifecycleRepository.deleteRecord(record.eventId)
+                    continue
+                }
+                if (event) {
+                    await event.delete()
+                    logger.info(`Completed event "${event.name}" (${event.id}) deleted after ${guildSettings.cleanupDays} day(s).`)
+                }
+                eventRepository.updateEventStatus(record.eventId, "deleted")
+                lifecycleRepository.deleteRecord(record.eventId)
+            } catch (e) {
+                logger.error(`Failed to delete completed event ${record.eventId}: ` + e)
+            }
+        }
+    }
+}
+
+/**
+ * Runs the lifecycle of every guild the bot is in.
+ *
+ * @returns A `Promise<void>` that resolves once all guilds were handled.
+ *
+ * @throws No exceptions are thrown to the caller; errors per guild are logged.
+ */
+export async function runEventLifecycle(): Promise<void> {
+    for (let guild of client.guilds.cache.values()) {
+        try {
+            await updateGuildLifecycle(guild)
+        } catch (e) {
+            logger.error(`Failed to run the event lifecycle of guild ${guild.id}: ` + e)
+        }
+    }
+}
+
+/**
+ * Records when managed events start and posts the summary of events a host ended in Discord.
+ *
+ * ### Example:
+ * ```ts
+ * client.on(Events.GuildScheduledEventUpdate, handleLifecycleStatusUpdate)
+ * ```
+ *
+ * @param oldEvent - The event before the update, `null` if it was not cached.
+ * @param newEvent - The event after the update.
+ *
+ * @returns A `Promise<void>` that resolves once the start was recorded or the summary posted.
+ *
+ * @remarks
+ * - Events the lifecycle manager completed itself are already marked, so their summary is not posted twice.
+ * - Recurring Discord events go back to "scheduled" after an occurrence, which counts as its end as well.
+ *
+ * @throws No exceptions are thrown to the caller; errors are logged.
+ */
+export async function handleLifecycleStatusUpdate(oldEvent: GuildScheduledEvent | PartialGuildScheduledEvent | null, newEvent: GuildScheduledEvent): Promise<void> {
+    try {
+        if (!isManagedEvent(newEvent)) {
+            return
+        }
+
+        let wasActive = oldEvent != null && !oldEvent.partial && oldEvent.isActive()
+        let record = lifecycleRepository.getRecord(newEvent.id)
+
+        // A record with an end belongs to an earlier occurrence
+        if (!wasActive && newEvent.isActive() && (!record?.startedAt || record.completedAt)) {
+            lifecycleRepository.saveRecord({ eventId: newEvent.id, guildId: newEvent.guildId, startedAt: new Date(), completedAt: null })
+        }
+
+        let hasEnded = newEvent.isCompleted() || (newEvent.recurrenceRule != null && newEvent.isScheduled())
+        if (wasActive && hasEnded && !isOccurrenceFinished(record, oldEvent as GuildScheduledEvent)) {
+            let guild = await client.guilds.fetch(newEvent.guildId)
+            await finishEvent(guild, oldEvent as GuildScheduledEvent, new Date())
+        }
+    } catch (e) {
+        logger.error(`Failed to handle the status update of event ${newEvent.id}: ` + e)
+    }
+}
+
+/**
+ * Catches up on the events that started or ended while the bot was offline and checks every minute for due events.
+ *
+ * ### Example:
+ * ```ts
+ * client.once(Events.ClientReady, async () => {
+ *     await startEventLifecycle()
+ * })
+ * ```
+ *
+ * @returns A `Promise<void>` that resolves after the first run.
+ *
+ * @remarks
+ * - The state is read from Discord and the `lifecycleRepository` on every run, so nothing is lost on a restart.
+ * - Configured per guild with the `lifecycle`, `cleanup` and `summary` settings (see `configureDiscordGuild`).
+ */
+export async function startEventLifecycle(): Promise<void> {
+    await runEventLifecycle()
+    setInterval(runEventLifecycle, LIFECYCLE_CHECK_INTERVAL)
+    logger.info("Event lifecycle started.")
+}
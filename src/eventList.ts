@@ -0,0 +1,408 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder, MessageFlags, TextChannel, type ButtonInteraction, type ChatInputCommandInteraction, type Guild, type GuildScheduledEvent } from "discord.js"
+import { randomUUID } from "crypto"
+import { logger, client } from "./mainBot"
+import { parseDateTime } from "./dateParser"
+import { splitEventFields } from "./EventDetails"
+import { parseRecurrenceRule, describeRecurrenceRule } from "./recurrenceEngine"
+import { eventRepository } from "./eventStore"
+import { findSeriesByEvent } from "./recurringSeries"
+import { getGuildSettings } from "./guildSettings"
+
+export interface EventListFilter {
+    from: Date | null
+    to: Date | null
+    search: string
+    // Only events created by this user, `null` for all events
+    createdBy: string | null
+}
+
+export interface ParsedEventListFilter {
+    filter: EventListFilter
+    errors: string[]
+}
+
+interface EventListSession {
+    guildId: string
+    filter: EventListFilter
+}
+
+// Events per embed page, Discord allows 25 fields per embed but 5 entries stay readable on mobile
+const PAGE_SIZE = 5
+// The page buttons of a list stop working after this time
+const LIST_SESSION_TIMEOUT = 30 * 60 * 1000
+const BUTTON_PREFIX = "event-list:"
+
+const listSessions = new Map<string, EventListSession>()
+
+/**
+ * Parses the filters of the `List` command.
+ *
+ * ### Example:
+ * ```ts
+ * parseListFilter("from=today; to=next Friday; search=raid; mine", "555555555555555555", "Europe/Berlin", "en-GB")
+ * // Returns: { filter: { from: Date, to: Date, search: "raid", createdBy: "555555555555555555" }, errors: [] }
+ * ```
+ *
+ * @param listInfo - A semicolon-separated list of filters, or an empty string for all upcoming events.
+ *   - `from=<date>` / `to=<date>`: only events starting in this range, a date without time covers the whole day.
+ *   - `search=<text>` (or `name=`): only events whose name contains the text (case-insensitive).
+ *   - `mine`: only events created by the author of the command.
+ * @param authorID - The ID of the user who asked for the list, used for `mine`.
+ * @param timezone - The IANA timezone the dates are meant in.
+ * @param locale - The locale used for ambiguous numeric dates.
+ *
+ * @returns The `EventListFilter` and a message per invalid filter.
+ */
+export function parseListFilter(listInfo: string, authorID: string, timezone: string, locale: string): ParsedEventListFilter {
+    let filter: EventListFilter = { from: null, to: null, search: "", createdBy: null }
+    let errors: string[] = []
+
+    for (let part of splitEventFields(listInfo).filter(part => part != "")) {
+        let separatorIndex = part.indexOf("=")
+        let key = (separatorIndex < 0 ? part : part.slice(0, separatorIndex)).trim().toLowerCase()
+        let value = separatorIndex < 0 ? "" : part.slice(separatorIndex + 1).trim()
+
+        switch (key) {
+            case "from":
+            case "to": {
+                let date = parseFilterDate(value, key == "to", timezone, locale)
+                if (!date) {
+                    errors.push(`${key}: \`${value}\` is not a valid date (e.g. 2025-06-20, tomorrow, next Friday 18:00)`)
+                }
+                else if (key == "from") {
+                    filter.from = date
+                }
+                else {
+                    filter.to = date
+                }
+                break
+            }
+            case "search":
+            case "name": {
+                filter.search = value
+                break
+            }
+            case "mine": {
+                filter.createdBy = authorID
+                break
+            }
+            default: {
+                errors.push(`\`${part}\` is not a known filter, use from=, to=, search= or mine`)
+            }
+        }
+    }
+
+    if (filter.from && filter.to && filter.to < filter.from) {
+        errors.push("to: the end of the range is before its start")
+    }
+
+    return { filter, errors }
+}
+
+/**
+ * Parses a filter date, a date without time covers the whole day.
+ *
+ * @param input - The date, with or without time.
+ * @param isRangeEnd - `true` for the end of the range, a date without time then means the end of that day.
+ * @param timezone - The IANA timezone the date is meant in.
+ * @param locale - The locale used for ambiguous numeric dates.
+ *
+ * @returns The date, or `null` if it could not be read.
+ */
+function parseFilterDate(input: string, isRangeEnd: boolean, timezone: string, locale: string): Date | null {
+    let parsedDateTime = parseDateTime(input, timezone, locale)
+    if (parsedDateTime) {
+        return parsedDateTime.dateTime.toJSDate()
+    }
+
+    let parsedDate = parseDateTime(input + " 00:00", timezone, locale)
+    if (!parsedDate) {
+        return null
+    }
+
+    return (isRangeEnd ? parsedDate.dateTime.endOf("day") : parsedDate.dateTime).toJSDate()
+}
+
+/**
+ * Fetches the upcoming and active events of a guild that match a filter.
+ *
+ * @param guild - The Discord guild.
+ * @param filter - The `EventListFilter` to apply.
+ *
+ * @returns A `Promise` resolving to the matching events, sorted by start time.
+ *
+ * @remarks
+ * - The events are fetched with their interested count (`userCount`).
+ * - "Created by" uses the author stored in the `eventRepository`, events created in Discord directly use their creator.
+ */
+export async function fetchListedEvents(guild: Guild, filter: EventListFilter): Promise<GuildScheduledEvent[]> {
+    let scheduledEvents = await guild.scheduledEvents.fetch({ withUserCount: true })
+    let search = filter.search.toLowerCase()
+
+    return [...scheduledEvents.values()]
+        .filter(event => !event.isCompleted() && !event.isCanceled())
+        .filter(event => !filter.from || (event.scheduledStartAt ?? new Date(0)) >= filter.from)
+        .filter(event => !filter.to || (event.scheduledStartAt ?? new Date(0)) <= filter.to)
+        .filter(event => event.name.toLowerCase().includes(search))
+        .filter(event => !filter.createdBy || (eventRepository.getEvent(event.id)?.authorId ?? event.creatorId) == filter.createdBy)
+        .sort((first, second) => (first.scheduledStartTimestamp ?? 0) - (second.scheduledStartTimestamp ?? 0))
+}
+
+/**
+ * Describes how an event repeats.
+ *
+ * @param event - The scheduled event.
+ *
+ * @returns The recurrence summary (see `describeRecurrenceRule`), or `null` for one-time events.
+ *
+ * @remarks
+ * - Occurrences of bot-managed series are described from the series' current rule, which includes an end set later (see `endSeriesAt`).
+ * - Other events created by the bot are described from their stored interval.
+ * - Recurring events created in Discord directly are only marked as recurring.
+ */
+export function describeEventRecurrence(event: GuildScheduledEvent): string | null {
+    let series = findSeriesByEvent(event.id)
+    if (series) {
+        let seriesRule = parseRecurrenceRule(series.rule, 1, new Date(series.firstStart), series.timezone)
+        if (seriesRule) {
+            return describeRecurrenceRule(seriesRule)
+        }
+    }
+
+    let storedDetails = eventRepository.getEvent(event.id)?.details
+    if (storedDetails && storedDetails.interval != "") {
+        let rule = parseRecurrenceRule(storedDetails.interval, storedDetails.frequency, storedDetails.startTime, storedDetails.timezone)
+        if (rule) {
+            return describeRecurrenceRule(rule)
+        }
+    }
+
+    return event.recurrenceRule ? "recurring" : null
+}
+
+/**
+ * Formats a single event as embed field.
+ *
+ * @param event - The scheduled event.
+ *
+ * @returns The field's name and value.
+ */
+function formatEventField(event: GuildScheduledEvent): { name: string, value: string } {
+    let startSeconds = Math.floor((event.scheduledStartTimestamp ?? 0) / 1000)
+    let lines = [`<t:${startSeconds}:F> (<t:${startSeconds}:R>)`]
+    if (event.scheduledEndTimestamp) {
+        lines[0] += ` – <t:${Math.floor(event.scheduledEndTimestamp / 1000)}:t>`
+    }
+
+    let location = event.channelId ? `<#${event.channelId}>` : event.entityMetadata?.location
+    if (location) {
+        lines.push(`📍 ${location}`)
+    }
+
+    let recurrence = describeEventRecurrence(event)
+    if (recurrence) {
+        lines.push(`🔁 ${recurrence}`)
+    }
+
+    lines.push(`⭐ ${event.userCount ?? 0} interested · [Open](${event.url})`)
+
+    return { name: (event.isActive() ? "🔴 " : "") + event.name, value: lines.join("\n") }
+}
+
+/**
+ * Describes the active filters for the embed.
+ *
+ * @param filter - The `EventListFilter`.
+ *
+ * @returns The description, or `null` without filters.
+ */
+function describeListFilter(filter: EventListFilter): string | null {
+    let parts: string[] = []
+    if (filter.from) parts.push(`from <t:${Math.floor(filter.from.getTime() / 1000)}:f>`)
+    if (filter.to) parts.push(`to <t:${Math.floor(filter.to.getTime() / 1000)}:f>`)
+    if (filter.search != "") parts.push(`name contains "${filter.search}"`)
+    if (filter.createdBy) parts.push(`created by <@${filter.createdBy}>`)
+
+    return parts.length > 0 ? "Filters: " + parts.join(", ") : null
+}
+
+/**
+ * Builds one page of the event list as embed with Previous/Next buttons.
+ *
+ * @param events - All matching events.
+ * @param page - The 0-based page to show, clamped to the existing pages.
+ * @param sessionID - The ID of the list session, encoded in the buttons.
+ * @param filter - The filter the events were selected with.
+ *
+ * @returns The message payload with the embed and the button row.
+ */
+function buildEventListPage(events: GuildScheduledEvent[], page: number, sessionID: string, filter: EventListFilter) {
+    let pageCount = Math.max(Math.ceil(events.length / PAGE_SIZE), 1)
+    page = Math.min(Math.max(page, 0), pageCount - 1)
+
+    let embed = new EmbedBuilder()
+        .setTitle("Upcoming events")
+        .setFooter({ text: `Page ${page + 1}/${pageCount} · ${events.length} event(s)` })
+
+    let filterDescription = describeListFilter(filter)
+    let pageEvents = events.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE)
+    if (pageEvents.length == 0) {
+        embed.setDescription([filterDescription, "No events found."].filter(line => line != null).join("\n"))
+    }
+    else {
+        if (filterDescription) {
+            embed.setDescription(filterDescription)
+        }
+        embed.addFields(pageEvents.map(event => formatEventField(event)))
+    }
+
+    let buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId(`${BUTTON_PREFIX}${sessionID}:${page - 1}`)
+            .setLabel("Previous")
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(page == 0),
+        new ButtonBuilder()
+            .setCustomId(`${BUTTON_PREFIX}${sessionID}:${page + 1}`)
+            .setLabel("Next")
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(page >= pageCount - 1),
+    )
+
+    return { embeds: [embed], components: pageCount > 1 ? [buttons] : [], allowedMentions: { parse: [] } }
+}
+
+/**
+ * Remembers the filter of a list, so its page buttons can fetch the events again.
+ *
+ * @param guildID - The ID of the guild the list belongs to.
+ * @param filter - The filter of the list.
+ *
+ * @returns The ID of the session.
+ */
+function createListSession(guildID: string, filter: EventListFilter): string {
+    let sessionID = randomUUID()
+    listSessions.set(sessionID, { guildId: guildID, filter: filter })
+    setTimeout(() => listSessions.delete(sessionID), LIST_SESSION_TIMEOUT)
+
+    return sessionID
+}
+
+/**
+ * Posts the upcoming events of a guild as paginated embed to a specified channel.
+ *
+ * ### Example:
+ * ```ts
+ * await listDiscordEvents(
+ *   "from=today; to=2025-07-31; search=raid; mine",
+ *   "123456789012345678",
+ *   "987654321098765432",
+ *   "555555555555555555"
+ * );
+ * ```
+ *
+ * @param listInfo - The filters, see `parseListFilter`. An empty string lists all upcoming events.
+ * @param guildID - The Discord guild (server) ID whose events are listed.
+ * @param replyChannel - The ID of the Discord channel where the list or errors will be posted.
+ * @param authorID - The ID of the user who asked for the list, used for the `mine` filter.
+ *
+ * @returns A `Promise<void>` that resolves once the list has been posted.
+ *
+ * @remarks
+ * - Every entry shows name, start and end as Discord timestamps (shown in each viewer's local time), location,
+ *   recurrence summary, interested count and a link to the event.
+ * - Dates of the filters are read in the guild's timezone and locale.
+ * - The Previous/Next buttons work for `LIST_SESSION_TIMEOUT` (30 minutes) and always show the current state of the events.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger`, the date parser and the `eventRepository`.
+ */
+export async function listDiscordEvents(listInfo: string, guildID: string, replyChannel: string, authorID: string): Promise<void> {
+    logger.info("Invoking List: " + listInfo)
+    let channel = client.channels.cache.get(replyChannel)
+
+    let guildSettings = getGuildSettings(guildID)
+    let { filter, errors } = parseListFilter(listInfo, authorID, guildSettings.timezone, guildSettings.locale)
+    if (errors.length > 0) {
+        logger.error("Invalid List filters: " + listInfo)
+        await (channel as TextChannel).send("Please check your filters:\n" + errors.map(error => `- ${error}`).join("\n"))
+        return
+    }
+
+    try {
+        let guild = await client.guilds.fetch(guildID)
+        let events = await fetchListedEvents(guild, filter)
+        await (channel as TextChannel).send(buildEventListPage(events, 0, createListSession(guildID, filter), filter))
+
+    } catch (e) {
+        logger.error("Failed to list events: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send("Failed to list events: " + e)
+        }
+    }
+}
+
+/**
+ * Answers `/event list` with the upcoming events of the guild as ephemeral, paginated embed.
+ *
+ * @param interaction - The `/event list` interaction, its `from`, `to`, `search` and `mine` options are the filters.
+ *
+ * @returns A `Promise<void>` that resolves once the list has been sent.
+ *
+ * @remarks
+ * - Uses the same filters and layout as `listDiscordEvents`.
+ */
+export async function replyWithEventList(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+    let listInfo = ["from", "to", "search"]
+        .filter(key => interaction.options.getString(key) != null)
+        .map(key => `${key}=${interaction.options.getString(key)}`)
+    if (interaction.options.getBoolean("mine")) {
+        listInfo.push("mine")
+    }
+
+    let guildSettings = getGuildSettings(interaction.guildId)
+    let { filter, errors } = parseListFilter(listInfo.join("; "), interaction.user.id, guildSettings.timezone, guildSettings.locale)
+    if (errors.length > 0) {
+        await interaction.reply({ content: "Please check your filters:\n" + errors.map(error => `- ${error}`).join("\n"), flags: MessageFlags.Ephemeral })
+        return
+    }
+
+    let events = await fetchListedEvents(interaction.guild, filter)
+    await interaction.reply({ ...buildEventListPage(events, 0, createListSession(interaction.guildId, filter), filter), flags: MessageFlags.Ephemeral })
+}
+
+/**
+ * Checks whether a button belongs to an event list.
+ *
+ * @param customID - The custom ID of the pressed button.
+ *
+ * @returns `true` for the Previous/Next buttons of an event list; otherwise, `false`.
+ */
+export function isEventListButton(customID: string): boolean {
+    return customID.startsWith(BUTTON_PREFIX)
+}
+
+/**
+ * Switches an event list to the page of the pressed Previous/Next button.
+ *
+ * @param interaction - The button interaction.
+ *
+ * @returns A `Promise<void>` that resolves once the list message has been updated.
+ *
+ * @remarks
+ * - The events are fetched again, so the page reflects changes made since the list was posted.
+ * - After `LIST_SESSION_TIMEOUT` or a restart, the user is asked to run the command again.
+ */
+export async function handleEventListButton(interaction: ButtonInteraction<"cached">): Promise<void> {
+    let [sessionID, page] = interaction.customId.slice(BUTTON_PREFIX.length).split(":")
+    let session = listSessions.get(sessionID!)
+    if (!session) {
+        await interaction.reply({ content: "This list has expired, please run the command again.", flags: MessageFlags.Ephemeral })
+        return
+    }
+
+    let events = await fetchListedEvents(interaction.guild, session.filter)
+    await interaction.update(buildEventListPage(events, Number(page), sessionID!, session.filter))
+}
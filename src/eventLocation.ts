@@ -0,0 +1,109 @@
+import { ChannelType, GuildScheduledEventEntityType, PermissionFlagsBits, type Guild, type StageChannel, type VoiceChannel } from "discord.js"
+
+export interface EventLocation {
+    entityType: GuildScheduledEventEntityType
+    // The voice or stage channel of the event, `null` for External events
+    channel: VoiceChannel | StageChannel | null
+    // The text shown as location of External events, `null` for channel events
+    location: string | null
+    // The value stored in the `eventRepository`, channel events are stored as mention so they keep working after a rename
+    storedLocation: string
+}
+
+// Permissions Discord requires to create an event in a voice or stage channel
+const voicePermissions = { ViewChannel: PermissionFlagsBits.ViewChannel, Connect: PermissionFlagsBits.Connect, ManageEvents: PermissionFlagsBits.ManageEvents }
+const stagePermissions = { ...voicePermissions, ManageChannels: PermissionFlagsBits.ManageChannels, MuteMembers: PermissionFlagsBits.MuteMembers, MoveMembers: PermissionFlagsBits.MoveMembers }
+
+/**
+ * Resolves the location field of an event to a voice or stage channel of the guild or an External location.
+ *
+ * ### Example:
+ * ```ts
+ * const location = await resolveEventLocation(guild, "<#123456789012345678>")
+ * // Returns: { entityType: GuildScheduledEventEntityType.Voice, channel: VoiceChannel, location: null, storedLocation: "<#123456789012345678>" }
+ *
+ * const location = await resolveEventLocation(guild, "Zoom")
+ * // Returns: { entityType: GuildScheduledEventEntityType.External, channel: null, location: "Zoom", storedLocation: "Zoom" }
+ * ```
+ *
+ * @param guild - The Discord guild the event is created in.
+ * @param location - The location as written in the command: a channel mention, a channel ID, a channel name (optionally with `#`) or free text.
+ *
+ * @returns A `Promise` resolving to the `EventLocation`.
+ *
+ * @remarks
+ * - Mentions and IDs must refer to an existing voice or stage channel.
+ * - Names are matched case-insensitively against the guild's voice and stage channels; text without a match becomes an External location.
+ * - For channel events, the bot needs View Channel, Connect and Manage Events in the channel,
+ *   stage channels additionally need Manage Channels, Mute Members and Move Members.
+ *
+ * @throws An `Error` with a readable message if the channel does not exist, is no voice or stage channel, or the bot lacks permissions.
+ */
+export async function resolveEventLocation(guild: Guild, location: string): Promise<EventLocation> {
+    let trimmedLocation = location.trim()
+    let channelID = trimmedLocation.match(/^<#(\d+)>$/)?.[1] ?? trimmedLocation.match(/^\d{17,20}$/)?.[0]
+
+    let channel
+    if (channelID) {
+        channel = await guild.channels.fetch(channelID).catch(() => null)
+        if (!channel) {
+            throw new Error(`Channel ${trimmedLocation} does not exist in this server.`)
+        }
+    }
+    else {
+        let channelName = trimmedLocation.replace(/^#/, "").toLowerCase()
+        let channels = await guild.channels.fetch()
+        channel = channels.find(channel => channel != null && (channel.type == ChannelType.GuildVoice || channel.type == ChannelType.GuildStageVoice) && channel.name.toLowerCase() == channelName) ?? null
+        if (!channel) {
+            return { entityType: GuildScheduledEventEntityType.External, channel: null, location: trimmedLocation, storedLocation: trimmedLocation }
+        }
+    }
+
+    if (channel.type != ChannelType.GuildVoice && channel.type != ChannelType.GuildStageVoice) {
+        throw new Error(`Channel ${trimmedLocation} is no voice or stage channel.`)
+    }
+
+    let isStage = channel.type == ChannelType.GuildStageVoice
+    let botMember = await guild.members.fetchMe()
+    let channelPermissions = channel.permissionsFor(botMember)
+    let missingPermissions = Object.entries(isStage ? stagePermissions : voicePermissions)
+        .filter(([, permission]) => !channelPermissions.has(permission))
+        .map(([permissionName]) => permissionName)
+    if (missingPermissions.length > 0) {
+        throw new Error(`The bot is missing the permission(s) ${missingPermissions.join(", ")} in <#${channel.id}>.`)
+    }
+
+    return {
+        entityType: isStage ? GuildScheduledEventEntityType.StageInstance : GuildScheduledEventEntityType.Voice,
+        channel: channel,
+        location: null,
+        storedLocation: `<#${channel.id}>`,
+    }
+}
+
+/**
+ * Builds the location part of the options for `guild.scheduledEvents.create` and `event.edit`.
+ *
+ * ### Example:
+ * ```ts
+ * await guild.scheduledEvents.create({
+ *     name: "Raid Night",
+ *     ...
+ *     ...locationEventOptions(await resolveEventLocation(guild, "Raid Voice")),
+ * })
+ * ```
+ *
+ * @param eventLocation - The resolved `EventLocation`.
+ *
+ * @returns The entity type with either the `channel` or the `entityMetadata.location`.
+ *
+ * @remarks
+ * - When editing an event from a channel to an External location, `channel: null` has to be added to clear the channel.
+ */
+export function locationEventOptions(eventLocation: EventLocation) {
+    if (eventLocation.channel) {
+        return { entityType: eventLocation.entityType, channel: eventLocation.channel }
+    }
+
+    return { entityType: eventLocation.entityType, entityMetadata: { location: eventLocation.location! } }
+}
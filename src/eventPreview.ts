@@ -0,0 +1,317 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder, GuildScheduledEventEntityType, MessageFlags, type ButtonInteraction, type Guild, type Message } from "discord.js"
+import { randomUUID } from "crypto"
+import { DateTime } from "luxon"
+import { logger, client } from "./mainBot"
+import { extractEventdetails, formatFieldErrors, type EventDetails } from "./EventDetails"
+import { createNewDiscordEvent, createNewDiscordSchedule, type CreationOutcome, type CommandOutcome } from "./eventFunctions"
+import { resolveEventLocation } from "./eventLocation"
+import { splitForceFlag, findEventConflicts, formatConflicts } from "./conflictDetection"
+import { parseRecurrenceRule, expandOccurrences, describeRecurrenceRule, toDiscordRecurrenceRule } from "./recurrenceEngine"
+import { getGuildSettings } from "./guildSettings"
+import { getLanguage, translate } from "./localization"
+import type { CommandContext } from "./eventStore"
+
+export type CreationCommand = "New Event" | "New Schedule"
+
+interface PendingPreview {
+    command: CreationCommand
+    eventInfo: string
+    attachment: string
+    guildId: string
+    replyChannel: string
+    context: CommandContext
+    // The command message, its reaction shows the outcome
+    message: Message
+    // The reply with the preview and the buttons
+    previewMessage: Message
+    // The author's language, used when the preview expires
+    language: string
+}
+
+// Previews wait this long for a decision
+const PREVIEW_TIMEOUT = 15 * 60 * 1000
+// Occurrences of a schedule listed in the preview
+const PREVIEWED_OCCURRENCES = 5
+const BUTTON_PREFIX = "event-preview:"
+
+const outcomeReactions: Record<CreationOutcome | CommandOutcome, string> = {
+    created: "✅",
+    done: "✅",
+    failed: "❌",
+    pending: "⏳",
+    cancelled: "✖️",
+}
+
+const pendingPreviews = new Map<string, PendingPreview>()
+
+/**
+ * Reacts to a command message with the outcome of the command.
+ *
+ * ### Example:
+ * ```ts
+ * await reactWithOutcome(message, await createNewDiscordEvent(eventInfo, attachment, guildID, replyChannel, commandContext))
+ * // Reacts ✅ if the event was created, ❌ if it failed
+ * ```
+ *
+ * @param message - The message with the command.
+ * @param outcome - The `CreationOutcome` of a creation command, or the `CommandOutcome` of a command that changes existing events.
+ *
+ * @returns A `Promise<void>` that resolves once the reaction was added.
+ *
+ * @remarks
+ * - The ⏳ reaction of a decided preview is removed, unless another command of the same message still waits for a decision.
+ * - Errors (e.g. a deleted message) are only logged.
+ */
+export async function reactWithOutcome(message: Message, outcome: CreationOutcome | CommandOutcome): Promise<void> {
+    try {
+        let waitingReaction = message.reactions.cache.get(outcomeReactions.pending)
+        let stillWaiting = [...pendingPreviews.values()].some(preview => preview.message.id == message.id)
+        if (outcome != "pending" && waitingReaction?.me && !stillWaiting) {
+            await waitingReaction.users.remove(client.user!.id)
+        }
+        await message.react(outcomeReactions[outcome])
+    } catch (e) {
+        logger.error("Failed to react to command: " + e)
+    }
+}
+
+/**
+ * Parses a `New Event` or `New Schedule` command and replies with a preview of what will be created, with Confirm/Cancel buttons.
+ *
+ * ### Example:
+ * ```ts
+ * const outcome = await previewDiscordCreation(
+ *   "New Schedule",
+ *   "Raid Night; 2025-06-20 18:00; 2h; Europe/Berlin; #raid-voice; Weekly raid; monthly; 1",
+ *   "https://cdn.discordapp.com/attachments/.../raid.png",
+ *   "123456789012345678",
+ *   "987654321098765432",
+ *   commandContext,
+ *   message
+ * );
+ * // Replies with the preview embed and returns "pending"
+ * ```
+ *
+ * @param command - `"New Event"` or `"New Schedule"`.
+ * @param eventInfo - The event details as given in the command, see `createNewDiscordEvent` and `createNewDiscordSchedule`.
+ * @param discordMessageAttachment - The URL of the cover image, or an empty string.
+ * @param guildID - The Discord guild (server) ID the event will be created in.
+ * @param replyChannel - The ID of the channel that gets the confirmation and live pings once the event is created.
+ * @param commandContext - The author, message and command text the event is created from.
+ * @param message - The message with the command, the preview replies to it and its reaction shows the final outcome.
+ *
+ * @returns A `Promise` resolving to `"pending"` once the preview was sent, or `"failed"` if the details are invalid.
+ *
+ * @remarks
+ * - The preview shows the start and end in the event's timezone and UTC, the resolved location, the next
+ *   `PREVIEWED_OCCURRENCES` (5) occurrences of a schedule, the cover image and overlapping events.
+ * - Only the author can confirm. The event is then created with the same functions as without preview,
+ *   overlaps are not asked about again since the preview showed them.
+ * - Previews expire after `PREVIEW_TIMEOUT` (15 minutes) or a restart, nothing is created then.
+ * - The preview and the answers use the author's language (see `getLanguage`).
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and answered in Discord when possible.
+ */
+export async function previewDiscordCreation(command: CreationCommand, eventInfo: string, discordMessageAttachment: string, guildID: string, replyChannel: string, commandContext: CommandContext, message: Message): Promise<CreationOutcome> {
+    logger.info(`Previewing ${command}: ` + eventInfo)
+
+    let { eventInfo: detailsInfo, force } = splitForceFlag(eventInfo)
+    let guildSettings = getGuildSettings(guildID)
+    let language = getLanguage(guildID, commandContext.authorId)
+    let { details: eventDetails, errors } = await extractEventdetails(detailsInfo, command, guildSettings)
+    if (errors.length > 0) {
+        logger.error("Invalid Event Details: " + eventInfo + "\n" + formatFieldErrors(errors))
+        await message.reply(translate(language, "create.invalid", { errors: formatFieldErrors(errors) }))
+        return "failed"
+    }
+
+    try {
+        let guild = await client.guilds.fetch(guildID)
+        let embed = await buildPreviewEmbed(guild, command, eventDetails, discordMessageAttachment, guildSettings.locale, language)
+        let conflicts = force ? [] : await findEventConflicts(guild, eventDetails)
+
+        let previewID = randomUUID()
+        let buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder().setCustomId(`${BUTTON_PREFIX}${previewID}:confirm`).setLabel(translate(language, conflicts.length > 0 ? "button.createAnyway" : "button.confirm")).setStyle(conflicts.length > 0 ? ButtonStyle.Danger : ButtonStyle.Success),
+            new ButtonBuilder().setCustomId(`${BUTTON_PREFIX}${previewID}:cancel`).setLabel(translate(language, "button.cancel")).setStyle(ButtonStyle.Secondary),
+        )
+        let previewMessage = await message.reply({
+            content: conflicts.length > 0 ? formatConflicts(conflicts, language) : "",
+            embeds: [embed],
+            components: [buttons],
+            allowedMentions: { parse: [] },
+        })
+
+        pendingPreviews.set(previewID, {
+            command: command,
+            eventInfo: eventInfo,
+            attachment: discordMessageAttachment,
+            guildId: guildID,
+            replyChannel: replyChannel,
+            context: commandContext,
+            message: message,
+            previewMessage: previewMessage,
+            language: language,
+        })
+        setTimeout(() => expirePreview(previewID), PREVIEW_TIMEOUT)
+
+        return "pending"
+
+    } catch (e) {
+        logger.error("Failed to preview event: " + e)
+        await message.reply(translate(language, "create.failed", { error: String(e) })).catch(() => null)
+        return "failed"
+    }
+}
+
+/**
+ * Builds the embed showing what a `New Event` or `New Schedule` command will create.
+ *
+ * @param guild - The Discord guild the event will be created in.
+ * @param command - `"New Event"` or `"New Schedule"`.
+ * @param eventDetails - The validated `EventDetails`.
+ * @param discordMessageAttachment - The URL of the cover image, or an empty string.
+ * @param locale - The locale of the guild, used for day and month names.
+ * @param language - The language of the field names and notes.
+ *
+ * @returns A `Promise` resolving to the preview embed.
+ *
+ * @throws An `Error` if the location names an unusable channel or the schedule's rule is invalid.
+ */
+async function buildPreviewEmbed(guild: Guild, command: CreationCommand, eventDetails: EventDetails, discordMessageAttachment: string, locale: string, language: string): Promise<EmbedBuilder> {
+    let location = await resolveEventLocation(guild, eventDetails.eventLocation)
+
+    let embed = new EmbedBuilder()
+        .setTitle(eventDetails.eventName)
+        .setDescription(eventDetails.description || null)
+        .addFields(
+            { name: translate(language, "preview.start"), value: formatPreviewTime(eventDetails.startTime, eventDetails.timezone, locale), inline: true },
+            { name: translate(language, "preview.end"), value: formatPreviewTime(eventDetails.endTime, eventDetails.timezone, locale), inline: true },
+            { name: translate(language, "preview.location"), value: location.channel ? `<#${location.channel.id}> (${translate(language, location.entityType == GuildScheduledEventEntityType.StageInstance ? "preview.stageChannel" : "preview.voiceChannel")})` : location.location || translate(language, "preview.noLocation") },
+        )
+        .setFooter({ text: translate(language, "preview.footer") })
+
+    if (command == "New Schedule") {
+        let recurrenceRule = parseRecurrenceRule(eventDetails.interval, eventDetails.frequency, eventDetails.startTime, eventDetails.timezone)
+        if (!recurrenceRule) {
+            throw new Error("Schedule not valid. Input: " + eventDetails.interval)
+        }
+
+        let occurrences = expandOccurrences(recurrenceRule, eventDetails.startTime, eventDetails.timezone, new Date(eventDetails.startTime.getTime() - 1), PREVIEWED_OCCURRENCES + 1)
+        let lines = occurrences.slice(0, PREVIEWED_OCCURRENCES).map(occurrence => "- " + formatLocalTime(occurrence, eventDetails.timezone, locale))
+        if (occurrences.length > PREVIEWED_OCCURRENCES) {
+            lines.push("- …")
+        }
+        let seriesType = translate(language, toDiscordRecurrenceRule(recurrenceRule, eventDetails.startTime, eventDetails.timezone) ? "preview.nativeSeries" : "preview.botSeries")
+        embed.addFields({ name: translate(language, "preview.repeats"), value: `${describeRecurrenceRule(recurrenceRule)} (${seriesType})\n` + lines.join("\n") })
+    }
+
+    let dateNotes = eventDetails.dateNotes ?? []
+    if (dateNotes.length > 0) {
+        embed.addFields({ name: translate(language, "preview.readAs"), value: dateNotes.join("\n") })
+    }
+
+    if (discordMessageAttachment != "") {
+        embed.setImage(discordMessageAttachment)
+    }
+
+    return embed
+}
+
+/**
+ * Formats a point in time in the event's timezone, e.g. `"Fri 20 Jun 2025, 18:00 (Europe/Berlin)"`.
+ *
+ * @param date - The point in time.
+ * @param tz - The IANA timezone of the event.
+ * @param locale - The locale used for day and month names.
+ *
+ * @returns The formatted local time.
+ */
+function formatLocalTime(date: Date, tz: string, locale: string): string {
+    return DateTime.fromJSDate(date, { zone: tz }).setLocale(locale).toFormat("ccc d LLL yyyy, HH:mm") + ` (${tz})`
+}
+
+/**
+ * Formats a point in time for the Start and End fields: local, UTC and relative.
+ *
+ * @param date - The point in time.
+ * @param tz - The IANA timezone of the event.
+ * @param locale - The locale used for day and month names.
+ *
+ * @returns The lines of the field.
+ */
+function formatPreviewTime(date: Date, tz: string, locale: string): string {
+    let utcTime = DateTime.fromJSDate(date, { zone: "utc" }).toFormat("yyyy-MM-dd HH:mm") + " UTC"
+    return [formatLocalTime(date, tz, locale), utcTime, `<t:${Math.floor(date.getTime() / 1000)}:R>`].join("\n")
+}
+
+/**
+ * Removes the buttons of a preview that was not decided in time and shows that nothing was created.
+ *
+ * @param previewID - The ID of the preview.
+ */
+async function expirePreview(previewID: string): Promise<void> {
+    let preview = pendingPreviews.get(previewID)
+    if (!preview) {
+        return
+    }
+
+    pendingPreviews.delete(previewID)
+    logger.info(`Preview of ${preview.command} expired: ` + preview.eventInfo)
+    await preview.previewMessage.edit({ content: translate(preview.language, "preview.expired"), components: [] }).catch(e => logger.error("Failed to expire preview: " + e))
+    await reactWithOutcome(preview.message, "cancelled")
+}
+
+/**
+ * Checks whether a button belongs to an event preview.
+ *
+ * @param customID - The custom ID of the pressed button.
+ *
+ * @returns `true` for the buttons of a preview; otherwise, `false`.
+ */
+export function isPreviewButton(customID: string): boolean {
+    return customID.startsWith(BUTTON_PREFIX)
+}
+
+/**
+ * Creates or discards the event of a preview, depending on the pressed button, and reacts to the command with the outcome.
+ *
+ * @param interaction - The button interaction.
+ *
+ * @returns A `Promise<void>` that resolves once the event was created or discarded.
+ *
+ * @remarks
+ * - Only the author of the command may decide, others get an ephemeral hint.
+ * - The answers use the language of the user who pressed the button.
+ * - The buttons are removed before the event is created, so it cannot be created twice.
+ */
+export async function handlePreviewButton(interaction: ButtonInteraction<"cached">): Promise<void> {
+    let [previewID, decision] = interaction.customId.slice(BUTTON_PREFIX.length).split(":")
+    let language = getLanguage(interaction.guildId, interaction.user.id)
+    let preview = pendingPreviews.get(previewID!)
+    if (!preview) {
+        await interaction.update({ content: translate(language, "preview.expiredButton"), components: [] })
+        return
+    }
+
+    if (interaction.user.id != preview.context.authorId) {
+        await interaction.reply({ content: translate(language, "button.authorOnly"), flags: MessageFlags.Ephemeral })
+        return
+    }
+
+    pendingPreviews.delete(previewID!)
+    if (decision != "confirm") {
+        logger.info(`${preview.command} cancelled in the preview by ${interaction.user.tag}.`)
+        await interaction.update({ content: translate(language, "button.cancelled"), components: [] })
+        await reactWithOutcome(preview.message, "cancelled")
+        return
+    }
+
+    logger.info(`${preview.command} confirmed in the preview by ${interaction.user.tag}.`)
+    await interaction.update({ content: translate(language, "button.confirmed"), components: [] })
+
+    let createEvent = preview.command == "New Schedule" ? createNewDiscordSchedule : createNewDiscordEvent
+    let outcome = await createEvent(preview.eventInfo, preview.attachment, preview.guildId, preview.replyChannel, preview.context, true)
+    await interaction.editReply({ content: translate(language, outcome == "created" ? "preview.created" : "preview.failed", { channel: preview.replyChannel }) })
+    await reactWithOutcome(preview.message, outcome)
+}
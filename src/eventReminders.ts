@@ -0,0 +1,322 @@
+import { TextChannel, type GuildScheduledEvent, type PartialGuildScheduledEvent, type User } from "discord.js"
+import type { Database } from "bun:sqlite"
+import { logger, client } from "./mainBot"
+import { database } from "./database"
+import { getNextOccurrence } from "./additionalFunctions"
+import { eventRepository } from "./eventStore"
+import { getGuildSettings, formatOffset } from "./guildSettings"
+
+export interface EventSubscription {
+    eventId: string
+    guildId: string
+    userId: string
+}
+
+/**
+ * Storage of the members interested in an event, the reminders already sent and the members who opted out.
+ */
+export interface ReminderRepository {
+    listSubscriptions(): EventSubscription[]
+    addSubscription(subscription: EventSubscription): void
+    removeSubscription(eventID: string, userID: string): void
+    removeEventSubscriptions(eventID: string): void
+    isOptedOut(guildID: string, userID: string): boolean
+    setOptedOut(guildID: string, userID: string, optedOut: boolean): void
+    wasReminderSent(eventID: string, occurrenceStart: Date, offset: number): boolean
+    markReminderSent(eventID: string, occurrenceStart: Date, offset: number): void
+}
+
+/**
+ * `ReminderRepository` backed by SQLite (via `bun:sqlite`).
+ */
+export class SqliteReminderRepository implements ReminderRepository {
+    private db: Database
+
+    constructor(db: Database) {
+        this.db = db
+        this.db.run(`CREATE TABLE IF NOT EXISTS event_subscriptions (
+            event_id TEXT NOT NULL,
+            guild_id TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            PRIMARY KEY (event_id, user_id)
+        )`)
+        this.db.run(`CREATE TABLE IF NOT EXISTS reminder_opt_outs (
+            guild_id TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            PRIMARY KEY (guild_id, user_id)
+        )`)
+        this.db.run(`CREATE TABLE IF NOT EXISTS sent_reminders (
+            event_id TEXT NOT NULL,
+            occurrence_start TEXT NOT NULL,
+            offset_minutes INTEGER NOT NULL,
+            PRIMARY KEY (event_id, occurrence_start, offset_minutes)
+        )`)
+    }
+
+    listSubscriptions(): EventSubscription[] {
+        return this.db.query<{ event_id: string, guild_id: string, user_id: string }, []>("SELECT * FROM event_subscriptions").all()
+            .map(row => ({ eventId: row.event_id, guildId: row.guild_id, userId: row.user_id }))
+    }
+
+    addSubscription(subscription: EventSubscription): void {
+        this.db.query("INSERT OR IGNORE INTO event_subscriptions (event_id, guild_id, user_id) VALUES (?, ?, ?)")
+            .run(subscription.eventId, subscription.guildId, subscription.userId)
+    }
+
+    removeSubscription(eventID: string, userID: string): void {
+        this.db.query("DELETE FROM event_subscriptions WHERE event_id = ? AND user_id = ?").run(eventID, userID)
+    }
+
+    removeEventSubscriptions(eventID: string): void {
+        this.db.query("DELETE FROM event_subscriptions WHERE event_id = ?").run(eventID)
+        this.db.query("DELETE FROM sent_reminders WHERE event_id = ?").run(eventID)
+    }
+
+    isOptedOut(guildID: string, userID: string): boolean {
+        return this.db.query("SELECT 1 FROM reminder_opt_outs WHERE guild_id = ? AND user_id = ?").get(guildID, userID) != null
+    }
+
+    setOptedOut(guildID: string, userID: string, optedOut: boolean): void {
+        if (optedOut) {
+            this.db.query("INSERT OR IGNORE INTO reminder_opt_outs (guild_id, user_id) VALUES (?, ?)").run(guildID, userID)
+        }
+        else {
+            this.db.query("DELETE FROM reminder_opt_outs WHERE guild_id = ? AND user_id = ?").run(guildID, userID)
+        }
+    }
+
+    wasReminderSent(eventID: string, occurrenceStart: Date, offset: number): boolean {
+        return this.db.query("SELECT 1 FROM sent_reminders WHERE event_id = ? AND occurrence_start = ? AND offset_minutes = ?")
+            .get(eventID, occurrenceStart.toISOString(), offset) != null
+    }
+
+    markReminderSent(eventID: string, occurrenceStart: Date, offset: number): void {
+        this.db.query("INSERT OR IGNORE INTO sent_reminders (event_id, occurrence_start, offset_minutes) VALUES (?, ?, ?)")
+            .run(eventID, occurrenceStart.toISOString(), offset)
+    }
+}
+
+export const reminderRepository: ReminderRepository = new SqliteReminderRepository(database)
+
+const REMINDER_CHECK_INTERVAL = 60 * 1000
+// Discord returns at most 100 subscribers per request
+const MAX_SUBSCRIBER_FETCH = 100
+
+/**
+ * Starts tracking a member who clicked "Interested" on an event.
+ *
+ * ### Example:
+ * ```ts
+ * client.on(Events.GuildScheduledEventUserAdd, handleSubscriberAdd)
+ * ```
+ *
+ * @param event - The scheduled event, possibly partial.
+ * @param user - The member who clicked "Interested".
+ */
+export function handleSubscriberAdd(event: GuildScheduledEvent | PartialGuildScheduledEvent, user: User): void {
+    reminderRepository.addSubscription({ eventId: event.id, guildId: event.guildId, userId: user.id })
+    logger.info(`User ${user.id} is interested in event ${event.id}.`)
+}
+
+/**
+ * Stops tracking a member who removed "Interested" from an event.
+ *
+ * @param event - The scheduled event, possibly partial.
+ * @param user - The member who removed "Interested".
+ */
+export function handleSubscriberRemove(event: GuildScheduledEvent | PartialGuildScheduledEvent, user: User): void {
+    reminderRepository.removeSubscription(event.id, user.id)
+    logger.info(`User ${user.id} is no longer interested in event ${event.id}.`)
+}
+
+/**
+ * Adds the members who clicked "Interested" while the bot was offline.
+ *
+ * @returns A `Promise<void>` that resolves once the subscribers of all events were fetched.
+ *
+ * @remarks
+ * - Discord returns at most 100 subscribers per event, members beyond that are added by the gateway events once they change.
+ * - Members who removed "Interested" while the bot was offline are only dropped if the event has fewer than 100 subscribers.
+ *
+ * @throws No exceptions are thrown to the caller; errors per guild are logged.
+ */
+async function syncSubscribers(): Promise<void> {
+    for (let guild of client.guilds.cache.values()) {
+        try {
+            let scheduledEvents = await guild.scheduledEvents.fetch()
+            for (let event of scheduledEvents.values()) {
+                if (event.isCompleted() || event.isCanceled()) {
+                    continue
+                }
+
+                let subscribers = await event.fetchSubscribers({ limit: MAX_SUBSCRIBER_FETCH })
+                if (subscribers.size < MAX_SUBSCRIBER_FETCH) {
+                    for (let subscription of reminderRepository.listSubscriptions().filter(subscription => subscription.eventId == event.id && !subscribers.has(subscription.userId))) {
+                        reminderRepository.removeSubscription(event.id, subscription.userId)
+                    }
+                }
+                for (let subscriber of subscribers.values()) {
+                    reminderRepository.addSubscription({ eventId: event.id, guildId: guild.id, userId: subscriber.user.id })
+                }
+            }
+        } catch (e) {
+            logger.error(`Failed to fetch the interested members of guild ${guild.id}: ` + e)
+        }
+    }
+}
+
+/**
+ * Sends the reminder DMs of one event if one of its reminder times has passed.
+ *
+ * @param event - The scheduled event.
+ * @param userIDs - The members interested in the event.
+ *
+ * @returns A `Promise<void>` that resolves once all DMs were sent.
+ *
+ * @remarks
+ * - Every reminder of an occurrence is sent once; the state is stored, so a restart does not send it again.
+ * - If several reminder times passed at once (e.g. after downtime), only the one closest to the start is sent.
+ * - Members who opted out with the `Reminders` command are skipped, failed DMs (e.g. closed DMs) are logged.
+ */
+async function sendDueReminders(event: GuildScheduledEvent, userIDs: string[]): Promise<void> {
+    let settings = getGuildSettings(event.guildId)
+    let timezone = eventRepository.getEvent(event.id)?.details.timezone ?? settings.timezone
+    let now = new Date()
+    let occurrenceStart = getNextOccurrence(event, now, timezone)
+    if (!occurrenceStart) {
+        return
+    }
+
+    let dueOffsets = settings.reminderOffsets
+        .filter(offset => occurrenceStart.getTime() - offset * 60_000 <= now.getTime())
+        .filter(offset => !reminderRepository.wasReminderSent(event.id, occurrenceStart, offset))
+    if (dueOffsets.length == 0) {
+        return
+    }
+
+    for (let offset of dueOffsets) {
+        reminderRepository.markReminderSent(event.id, occurrenceStart, offset)
+    }
+
+    let startSeconds = Math.floor(occurrenceStart.getTime() / 1000)
+    let location = event.channelId ? `<#${event.channelId}>` : event.entityMetadata?.location
+    let reminder = `⏰ Reminder: **${event.name}** starts <t:${startSeconds}:R> (<t:${startSeconds}:F>)` + (location ? ` · ${location}` : "")
+        + `\n${event.url}`
+        + `\nYou get this because you are interested in the event. Use "${settings.prefix} Reminders: off" in the server to stop reminders.`
+
+    let sentCount = 0
+    for (let userID of userIDs.filter(userID => !reminderRepository.isOptedOut(event.guildId, userID))) {
+        try {
+            let user = await client.users.fetch(userID)
+            await user.send(reminder)
+            sentCount++
+        } catch (e) {
+            logger.error(`Failed to send the reminder of event ${event.id} to user ${userID}: ` + e)
+        }
+    }
+
+    logger.info(`Reminder (${formatOffset(Math.min(...dueOffsets))} before) of event ${event.id} sent to ${sentCount} member(s).`)
+}
+
+/**
+ * Sends all reminder DMs that are due.
+ *
+ * @returns A `Promise<void>` that resolves once all subscribed events were checked.
+ *
+ * @remarks
+ * - Subscriptions of events that no longer exist, were cancelled or completed are removed.
+ *
+ * @throws No exceptions are thrown to the caller; errors per event are logged.
+ */
+export async function sendAllDueReminders(): Promise<void> {
+    let subscriptionsByEvent = new Map<string, EventSubscription[]>()
+    for (let subscription of reminderRepository.listSubscriptions()) {
+        subscriptionsByEvent.set(subscription.eventId, [...subscriptionsByEvent.get(subscription.eventId) ?? [], subscription])
+    }
+
+    for (let [eventID, subscriptions] of subscriptionsByEvent) {
+        try {
+            let guild = await client.guilds.fetch(subscriptions[0]!.guildId)
+            let event = await guild.scheduledEvents.fetch(eventID).catch(() => null)
+            if (!event || event.isCanceled() || event.isCompleted()) {
+                reminderRepository.removeEventSubscriptions(eventID)
+                continue
+            }
+
+            await sendDueReminders(event, subscriptions.map(subscription => subscription.userId))
+        } catch (e) {
+            logger.error(`Failed to send the reminders of event ${eventID}: ` + e)
+        }
+    }
+}
+
+/**
+ * Fetches the interested members missed while offline and checks every minute for due reminders.
+ *
+ * ### Example:
+ * ```ts
+ * client.once(Events.ClientReady, async () => {
+ *     await startEventReminders()
+ * })
+ * ```
+ *
+ * @returns A `Promise<void>` that resolves after the first check.
+ *
+ * @remarks
+ * - Subscriptions and sent reminders are stored in the shared SQLite database, so reminders survive restarts.
+ */
+export async function startEventReminders(): Promise<void> {
+    await syncSubscribers()
+    await sendAllDueReminders()
+    setInterval(sendAllDueReminders, REMINDER_CHECK_INTERVAL)
+    logger.info(`Tracking ${reminderRepository.listSubscriptions().length} event subscription(s) for reminders.`)
+}
+
+/**
+ * Shows or changes whether a member gets reminder DMs in a guild and sends the result to a specified channel.
+ *
+ * ### Example:
+ * ```ts
+ * await configureDiscordReminders("off", "123456789012345678", "987654321098765432", "555555555555555555");
+ * ```
+ *
+ * @param reminderInfo - `"off"` to stop reminders, `"on"` to get them again, or an empty string to show the current state.
+ * @param guildID - The Discord guild (server) ID.
+ * @param replyChannel - The ID of the Discord channel where the result will be posted.
+ * @param userID - The ID of the member who sent the command.
+ *
+ * @returns A `Promise<void>` that resolves once the answer was sent.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger` and the `reminderRepository`.
+ */
+export async function configureDiscordReminders(reminderInfo: string, guildID: string, replyChannel: string, userID: string): Promise<void> {
+    logger.info("Invoking Reminders: " + reminderInfo)
+    let channel = client.channels.cache.get(replyChannel)
+
+    try {
+        let setting = reminderInfo.trim().toLowerCase()
+        if (setting == "off" || setting == "on") {
+            reminderRepository.setOptedOut(guildID, userID, setting == "off")
+            logger.info(`User ${userID} turned reminders ${setting} in guild ${guildID}.`)
+        }
+        else if (setting != "") {
+            await (channel as TextChannel).send("Reminders need this format: Reminders: on|off")
+            return
+        }
+
+        let offsets = getGuildSettings(guildID).reminderOffsets
+        let state = reminderRepository.isOptedOut(guildID, userID)
+            ? "you get no reminders"
+            : offsets.length > 0 ? `you get a DM ${offsets.map(offset => formatOffset(offset)).join(" and ")} before the events you are interested in` : "reminders are turned off for this server"
+        await (channel as TextChannel).send({ content: `<@${userID}>, ${state}.`, allowedMentions: { parse: [] } })
+
+    } catch (e) {
+        logger.error("Failed to change reminders: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send("Failed to change reminders: " + e)
+        }
+    }
+}
@@ -0,0 +1,228 @@
+import { TextChannel, type GuildScheduledEvent } from "discord.js"
+import { logger, client } from "./mainBot"
+import { getNextOccurrence } from "./additionalFunctions"
+import { eventRepository } from "./eventStore"
+import { getGuildSettings } from "./guildSettings"
+import { getLanguage, translate } from "./localization"
+
+export interface TrackedEvent {
+    guildId: string
+    channelId: string
+    timezone: string
+}
+
+// setTimeout cannot wait longer than ~24.8 days, longer waits are split up
+const MAX_TIMER_DELAY = 2_147_483_647
+
+const trackedEvents = new Map<string, TrackedEvent>()
+const pingTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+/**
+ * Builds the mention used for live pings.
+ *
+ * @param guildID - The ID of the guild the ping is sent in.
+ *
+ * @returns A mention of the guild's ping role (see `getGuildSettings`, falls back to `PING_ROLE_ID`); otherwise, `"@here"`.
+ */
+export function getPingMention(guildID: string): string {
+    let pingRole = getGuildSettings(guildID).pingRoleId
+    return pingRole ? `<@&${pingRole}>` : "@here"
+}
+
+/**
+ * Starts tracking a scheduled event created by the bot and arms a live ping for its next start time.
+ *
+ * ### Example:
+ * ```ts
+ * let event = await guild.scheduledEvents.create({ ... })
+ * trackScheduledEvent(event, "987654321098765432", "Europe/Berlin")
+ * ```
+ *
+ * @param event - The Discord scheduled event returned by `guild.scheduledEvents.create`.
+ * @param replyChannel - The ID of the channel the command came from, the ping is posted there.
+ * @param timezone - The IANA timezone the event was planned in, used for recurring occurrences.
+ *
+ * @remarks
+ * - After a restart, `restoreScheduledPings` re-arms the timer from the event's record in the `eventRepository`.
+ * - Calling this again for the same event replaces its timer (e.g. after an edit).
+ *
+ * @dependencies
+ * - Requires `logger`.
+ */
+export function trackScheduledEvent(event: GuildScheduledEvent, replyChannel: string, timezone: string): void {
+    trackedEvents.set(event.id, {
+        guildId: event.guildId,
+        channelId: replyChannel,
+        timezone: timezone,
+    })
+    armLivePing(event)
+}
+
+/**
+ * Stops tracking a scheduled event and clears its pending live ping.
+ *
+ * @param eventID - The ID of the scheduled event.
+ */
+export function untrackScheduledEvent(eventID: string): void {
+    clearTimeout(pingTimers.get(eventID))
+    pingTimers.delete(eventID)
+
+    trackedEvents.delete(eventID)
+}
+
+/**
+ * Returns the tracking information (reply channel and timezone) of an event.
+ *
+ * @param eventID - The ID of the scheduled event.
+ *
+ * @returns The `TrackedEvent`, or `undefined` if the event is not tracked by the scheduler.
+ */
+export function getTrackedEvent(eventID: string): TrackedEvent | undefined {
+    return trackedEvents.get(eventID)
+}
+
+/**
+ * Re-arms the live ping of an already tracked event, e.g. after its start time was edited.
+ *
+ * @param event - The updated Discord scheduled event.
+ *
+ * @remarks
+ * - Events that are not tracked by the scheduler are ignored.
+ */
+export function refreshScheduledEvent(event: GuildScheduledEvent): void {
+    if (trackedEvents.has(event.id)) {
+        armLivePing(event)
+    }
+}
+
+/**
+ * Arms the timer for the next occurrence of a tracked event.
+ *
+ * @param event - The Discord scheduled event to arm the ping for.
+ *
+ * @remarks
+ * - If the event has no future occurrence, it is no longer tracked.
+ */
+function armLivePing(event: GuildScheduledEvent): void {
+    let trackedEvent = trackedEvents.get(event.id)
+    if (!trackedEvent) {
+        return
+    }
+
+    clearTimeout(pingTimers.get(event.id))
+
+    let nextStart = getNextOccurrence(event, new Date(), trackedEvent.timezone)
+    if (!nextStart) {
+        logger.info(`No upcoming occurrence for event "${event.name}" (${event.id}), stop tracking.`)
+        untrackScheduledEvent(event.id)
+        return
+    }
+
+    logger.info(`Live ping for "${event.name}" (${event.id}) scheduled at ${nextStart.toISOString()}`)
+    setPingTimer(event.id, nextStart)
+}
+
+/**
+ * Sets a timer that fires at the given start time, splitting waits that are longer than `setTimeout` allows.
+ *
+ * @param eventID - The ID of the scheduled event.
+ * @param startTime - The time the live ping should be sent.
+ */
+function setPingTimer(eventID: string, startTime: Date): void {
+    let delay = startTime.getTime() - Date.now()
+
+    if (delay > MAX_TIMER_DELAY) {
+        pingTimers.set(eventID, setTimeout(() => setPingTimer(eventID, startTime), MAX_TIMER_DELAY))
+        return
+    }
+
+    pingTimers.set(eventID, setTimeout(() => sendLivePing(eventID), Math.max(delay, 0)))
+}
+
+/**
+ * Posts the live ping for a tracked event into its reply channel and arms the next occurrence of a series.
+ *
+ * @param eventID - The ID of the scheduled event that is starting.
+ *
+ * @remarks
+ * - Deleted or cancelled events are untracked without a ping.
+ * - The ping uses the guild's language.
+ */
+async function sendLivePing(eventID: string): Promise<void> {
+    let trackedEvent = trackedEvents.get(eventID)
+    if (!trackedEvent) {
+        return
+    }
+
+    try {
+        let guild = await client.guilds.fetch(trackedEvent.guildId)
+        let event = await guild.scheduledEvents.fetch(eventID).catch(() => null)
+
+        if (!event || event.isCanceled() || event.isCompleted()) {
+            logger.info(`Event ${eventID} no longer exists or was cancelled, stop tracking.`)
+            untrackScheduledEvent(eventID)
+            return
+        }
+
+        let channel = await client.channels.fetch(trackedEvent.channelId)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(translate(getLanguage(trackedEvent.guildId), "scheduler.starting", { mention: getPingMention(trackedEvent.guildId), name: event.name, url: event.url }))
+        }
+        logger.info(`Live ping sent for "${event.name}" (${event.id})`)
+
+        armLivePing(event)
+
+    } catch (e) {
+        logger.error("Failed to send live ping: " + e)
+    }
+}
+
+/**
+ * Recovers the live ping timers after a restart by re-reading the scheduled events of every guild.
+ *
+ * ### Example:
+ * ```ts
+ * client.once(Events.ClientReady, async () => {
+ *     await restoreScheduledPings()
+ * })
+ * ```
+ *
+ * @returns A `Promise<void>` that resolves once all timers are armed again.
+ *
+ * @remarks
+ * - Every event created by the bot is re-armed, reply channels and timezones are taken from the `eventRepository`.
+ * - Bot events without a record fall back to the guild's configured reply channel (or system channel) and default timezone.
+ *
+ * @throws No exceptions are thrown to the caller; errors per guild are logged.
+ */
+export async function restoreScheduledPings(): Promise<void> {
+    for (let guild of client.guilds.cache.values()) {
+        try {
+            let scheduledEvents = await guild.scheduledEvents.fetch()
+
+            for (let event of scheduledEvents.values()) {
+                if (event.creatorId != client.user?.id || event.isCanceled() || event.isCompleted()) {
+                    continue
+                }
+
+                let storedEvent = eventRepository.getEvent(event.id)
+                let guildSettings = getGuildSettings(guild.id)
+                let channelID = storedEvent?.channelId ?? guildSettings.replyChannelId ?? guild.systemChannelId
+                if (!channelID) {
+                    continue
+                }
+
+                trackedEvents.set(event.id, {
+                    guildId: guild.id,
+                    channelId: channelID,
+                    timezone: storedEvent?.details.timezone ?? guildSettings.timezone,
+                })
+                armLivePing(event)
+            }
+        } catch (e) {
+            logger.error(`Failed to restore live pings for guild ${guild.id}: ` + e)
+        }
+    }
+
+    logger.info(`Restored ${pingTimers.size} live ping(s).`)
+}
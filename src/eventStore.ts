@@ -0,0 +1,258 @@
+import type { Database } from "bun:sqlite"
+import { database } from "./database"
+import type { EventDetails } from "./EventDetails"
+
+export type StoredEventStatus = "scheduled" | "cancelled" | "completed" | "deleted"
+
+export interface CommandContext {
+    authorId: string
+    messageId: string | null
+    commandText: string
+}
+
+export interface StoredEvent {
+    eventId: string
+    guildId: string
+    channelId: string
+    authorId: string
+    messageId: string | null
+    commandText: string
+    seriesId: string | null
+    details: EventDetails
+    status: StoredEventStatus
+    createdAt: Date
+    updatedAt: Date
+}
+
+export type SeriesExceptionType = "skip" | "reschedule" | "end"
+
+// A change of a single occurrence, or the end of a series at a date
+export interface SeriesException {
+    type: SeriesExceptionType
+    // Start of the occurrence as the rule produces it, for `end` the last moment of the series
+    originalStart: string
+    // New times of a rescheduled occurrence, otherwise `null`
+    newStart: string | null
+    newEnd: string | null
+    authorId: string
+    createdAt: string
+}
+
+export interface RecurringSeries {
+    seriesId: string
+    guildId: string
+    channelId: string
+    authorId: string
+    messageId: string | null
+    commandText: string
+    eventName: string
+    eventLocation: string
+    description: string
+    image: string
+    timezone: string
+    durationMs: number
+    firstStart: string
+    rule: string
+    lastOccurrence: string
+    // Missing for series stored before exceptions existed
+    exceptions?: SeriesException[]
+}
+
+/**
+ * Storage of everything the bot knows about the events and series it created.
+ *
+ * @remarks
+ * - The bot only talks to this interface, so the storage backend can be replaced (e.g. in-memory for tests).
+ * - `SqliteEventRepository` is the implementation used by the bot.
+ */
+export interface EventRepository {
+    saveEvent(storedEvent: StoredEvent): void
+    getEvent(eventID: string): StoredEvent | null
+    listEvents(guildID: string): StoredEvent[]
+    listEventsBySeries(seriesID: string): StoredEvent[]
+    listEventsByMessage(messageID: string): StoredEvent[]
+    updateEventDetails(eventID: string, details: EventDetails): void
+    updateEventStatus(eventID: string, status: StoredEventStatus): void
+
+    saveSeries(series: RecurringSeries): void
+    getSeries(seriesID: string): RecurringSeries | null
+    listSeries(guildID?: string): RecurringSeries[]
+    deleteSeries(seriesID: string): void
+}
+
+interface EventRow {
+    event_id: string
+    guild_id: string
+    channel_id: string
+    author_id: string
+    message_id: string | null
+    command_text: string
+    series_id: string | null
+    details: string
+    status: StoredEventStatus
+    created_at: string
+    updated_at: string
+}
+
+/**
+ * `EventRepository` backed by SQLite (via `bun:sqlite`).
+ *
+ * ### Example:
+ * ```ts
+ * const repository = new SqliteEventRepository(new Database(":memory:"))
+ * repository.saveEvent(storedEvent)
+ * repository.getEvent(storedEvent.eventId)
+ * ```
+ *
+ * @remarks
+ * - `EventDetails` and series are stored as JSON, dates as ISO 8601 strings.
+ * - The tables are created on construction if they do not exist yet.
+ */
+export class SqliteEventRepository implements EventRepository {
+    private db: Database
+
+    constructor(db: Database) {
+        this.db = db
+        this.db.run(`CREATE TABLE IF NOT EXISTS events (
+            event_id TEXT PRIMARY KEY,
+            guild_id TEXT NOT NULL,
+            channel_id TEXT NOT NULL,
+            author_id TEXT NOT NULL,
+            message_id TEXT,
+            command_text TEXT NOT NULL,
+            series_id TEXT,
+            details TEXT NOT NULL,
+            status TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        )`)
+        this.db.run("CREATE INDEX IF NOT EXISTS events_guild ON events (guild_id)")
+        this.db.run("CREATE INDEX IF NOT EXISTS events_series ON events (series_id)")
+        this.db.run("CREATE INDEX IF NOT EXISTS events_message ON events (message_id)")
+        this.db.run(`CREATE TABLE IF NOT EXISTS series (
+            series_id TEXT PRIMARY KEY,
+            guild_id TEXT NOT NULL,
+            data TEXT NOT NULL
+        )`)
+    }
+
+    saveEvent(storedEvent: StoredEvent): void {
+        this.db.query(`INSERT OR REPLACE INTO events
+            (event_id, guild_id, channel_id, author_id, message_id, command_text, series_id, details, status, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).run(
+            storedEvent.eventId,
+            storedEvent.guildId,
+            storedEvent.channelId,
+            storedEvent.authorId,
+            storedEvent.messageId,
+            storedEvent.commandText,
+            storedEvent.seriesId,
+            JSON.stringify(storedEvent.details),
+            storedEvent.status,
+            storedEvent.createdAt.toISOString(),
+            storedEvent.updatedAt.toISOString(),
+        )
+    }
+
+    getEvent(eventID: string): StoredEvent | null {
+        let row = this.db.query<EventRow, [string]>("SELECT * FROM events WHERE event_id = ?").get(eventID)
+        return row ? this.toStoredEvent(row) : null
+    }
+
+    listEvents(guildID: string): StoredEvent[] {
+        return this.db.query<EventRow, [string]>("SELECT * FROM events WHERE guild_id = ? ORDER BY created_at").all(guildID).map(row => this.toStoredEvent(row))
+    }
+
+    listEventsBySeries(seriesID: string): StoredEvent[] {
+        return this.db.query<EventRow, [string]>("SELECT * FROM events WHERE series_id = ? ORDER BY created_at").all(seriesID).map(row => this.toStoredEvent(row))
+    }
+
+    listEventsByMessage(messageID: string): StoredEvent[] {
+        return this.db.query<EventRow, [string]>("SELECT * FROM events WHERE message_id = ? ORDER BY created_at").all(messageID).map(row => this.toStoredEvent(row))
+    }
+
+    updateEventDetails(eventID: string, details: EventDetails): void {
+        this.db.query("UPDATE events SET details = ?, updated_at = ? WHERE event_id = ?").run(JSON.stringify(details), new Date().toISOString(), eventID)
+    }
+
+    updateEventStatus(eventID: string, status: StoredEventStatus): void {
+        this.db.query("UPDATE events SET status = ?, updated_at = ? WHERE event_id = ?").run(status, new Date().toISOString(), eventID)
+    }
+
+    saveSeries(series: RecurringSeries): void {
+        this.db.query("INSERT OR REPLACE INTO series (series_id, guild_id, data) VALUES (?, ?, ?)").run(series.seriesId, series.guildId, JSON.stringify(series))
+    }
+
+    getSeries(seriesID: string): RecurringSeries | null {
+        let row = this.db.query<{ data: string }, [string]>("SELECT data FROM series WHERE series_id = ?").get(seriesID)
+        return row ? JSON.parse(row.data) : null
+    }
+
+    listSeries(guildID?: string): RecurringSeries[] {
+        let rows = guildID
+            ? this.db.query<{ data: string }, [string]>("SELECT data FROM series WHERE guild_id = ?").all(guildID)
+            : this.db.query<{ data: string }, []>("SELECT data FROM series").all()
+        return rows.map(row => JSON.parse(row.data))
+    }
+
+    deleteSeries(seriesID: string): void {
+        this.db.query("DELETE FROM series WHERE series_id = ?").run(seriesID)
+    }
+
+    private toStoredEvent(row: EventRow): StoredEvent {
+        let details = JSON.parse(row.details)
+
+        return {
+            eventId: row.event_id,
+            guildId: row.guild_id,
+            channelId: row.channel_id,
+            authorId: row.author_id,
+            messageId: row.message_id,
+            commandText: row.command_text,
+            seriesId: row.series_id,
+            details: { ...details, startTime: new Date(details.startTime), endTime: new Date(details.endTime) },
+            status: row.status,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at),
+        }
+    }
+}
+
+export const eventRepository: EventRepository = new SqliteEventRepository(database)
+
+/**
+ * Records a scheduled event created by the bot together with the command it was created from.
+ *
+ * ### Example:
+ * ```ts
+ * let event = await guild.scheduledEvents.create({ ... })
+ * recordCreatedEvent(event.id, event.guildId, replyChannel, eventDetails, commandContext, null)
+ * ```
+ *
+ * @param eventID - The ID of the created Discord scheduled event.
+ * @param guildID - The ID of the guild the event belongs to.
+ * @param replyChannel - The ID of the channel the command came from.
+ * @param eventDetails - The `EventDetails` the event was created with.
+ * @param commandContext - Who sent which command in which message, `null` if unknown.
+ * @param seriesID - The bot-managed series the event is an occurrence of, or `null`.
+ *
+ * @dependencies
+ * - Requires the `eventRepository`.
+ */
+export function recordCreatedEvent(eventID: string, guildID: string, replyChannel: string, eventDetails: EventDetails, commandContext: CommandContext | null, seriesID: string | null): void {
+    let now = new Date()
+
+    eventRepository.saveEvent({
+        eventId: eventID,
+        guildId: guildID,
+        channelId: replyChannel,
+        authorId: commandContext?.authorId ?? "",
+        messageId: commandContext?.messageId ?? null,
+        commandText: commandContext?.commandText ?? "",
+        seriesId: seriesID,
+        details: eventDetails,
+        status: "scheduled",
+        createdAt: now,
+        updatedAt: now,
+    })
+}
@@ -0,0 +1,475 @@
+import { TextChannel, type Message } from "discord.js"
+import type { Database } from "bun:sqlite"
+import { IANAZone } from "luxon"
+import { logger, client } from "./mainBot"
+import { database } from "./database"
+import { splitEventFields } from "./EventDetails"
+import { parseDuration } from "./dateParser"
+import { parseRecurrenceRule } from "./recurrenceEngine"
+import { createNewDiscordEvent, createNewDiscordSchedule, type CreationOutcome } from "./eventFunctions"
+import { previewDiscordCreation, type CreationCommand } from "./eventPreview"
+import { splitForceFlag } from "./conflictDetection"
+import type { CommandContext } from "./eventStore"
+import { getGuildSettings, formatOffset } from "./guildSettings"
+import { getLanguage, translate } from "./localization"
+
+/**
+ * A partial `EventDetails` that `From Template` completes with a start time.
+ *
+ * @remarks
+ * - Empty fields are filled in like empty command fields, e.g. with the guild's default timezone and location.
+ */
+export interface EventTemplate {
+    guildId: string
+    // As typed on saving, looked up case-insensitively
+    templateName: string
+    eventName: string
+    // Replaces the end time, `null` if every use has to give an end
+    durationMs: number | null
+    timezone: string
+    eventLocation: string
+    description: string
+    image: string
+    // Empty for one-time events, otherwise `From Template` creates a schedule
+    interval: string
+    frequency: number
+    authorId: string
+    updatedAt: Date
+}
+
+export interface ParsedTemplateFields {
+    fields: Omit<EventTemplate, "guildId" | "templateName" | "authorId" | "updatedAt">
+    errors: string[]
+}
+
+type TemplateField = "name" | "duration" | "timezone" | "location" | "description" | "interval" | "frequency" | "image"
+
+// Templates per guild, keeps `Template List` within one message
+const MAX_TEMPLATES = 25
+const MAX_TEMPLATE_NAME_LENGTH = 50
+
+// Field order of the positional syntax, like `New Schedule` without the start and with a duration instead of the end
+const templateFields: TemplateField[] = ["name", "duration", "timezone", "location", "description", "interval", "frequency"]
+
+const templateFieldAliases: Record<string, TemplateField> = {
+    name: "name", title: "name",
+    duration: "duration", end: "duration", length: "duration",
+    timezone: "timezone", tz: "timezone",
+    location: "location", loc: "location", where: "location",
+    description: "description", desc: "description",
+    interval: "interval", repeat: "interval",
+    frequency: "frequency", every: "frequency",
+    image: "image",
+}
+
+/**
+ * Storage of the event templates of all guilds.
+ */
+export interface TemplateRepository {
+    saveTemplate(template: EventTemplate): void
+    getTemplate(guildID: string, templateName: string): EventTemplate | null
+    listTemplates(guildID: string): EventTemplate[]
+    deleteTemplate(guildID: string, templateName: string): void
+}
+
+/**
+ * `TemplateRepository` backed by SQLite (via `bun:sqlite`).
+ *
+ * @remarks
+ * - Templates are stored as JSON, their names are compared case-insensitively.
+ */
+export class SqliteTemplateRepository implements TemplateRepository {
+    private db: Database
+
+    constructor(db: Database) {
+        this.db = db
+        this.db.run(`CREATE TABLE IF NOT EXISTS event_templates (
+            guild_id TEXT NOT NULL,
+            template_name TEXT NOT NULL COLLATE NOCASE,
+            data TEXT NOT NULL,
+            PRIMARY KEY (guild_id, template_name)
+        )`)
+    }
+
+    saveTemplate(template: EventTemplate): void {
+        this.db.query("INSERT OR REPLACE INTO event_templates (guild_id, template_name, data) VALUES (?, ?, ?)")
+            .run(template.guildId, template.templateName, JSON.stringify(template))
+    }
+
+    getTemplate(guildID: string, templateName: string): EventTemplate | null {
+        let row = this.db.query<{ data: string }, [string, string]>("SELECT data FROM event_templates WHERE guild_id = ? AND template_name = ?").get(guildID, templateName)
+        return row ? this.toTemplate(row.data) : null
+    }
+
+    listTemplates(guildID: string): EventTemplate[] {
+        return this.db.query<{ data: string }, [string]>("SELECT data FROM event_templates WHERE guild_id = ? ORDER BY template_name")
+            .all(guildID).map(row => this.toTemplate(row.data))
+    }
+
+    deleteTemplate(guildID: string, templateName: string): void {
+        this.db.query("DELETE FROM event_templates WHERE guild_id = ? AND template_name = ?").run(guildID, templateName)
+    }
+
+    private toTemplate(data: string): EventTemplate {
+        let template = JSON.parse(data)
+        return { ...template, updatedAt: new Date(template.updatedAt) }
+    }
+}
+
+export const templateRepository: TemplateRepository = new SqliteTemplateRepository(database)
+
+/**
+ * Parses and checks the fields of a `Template Save` command.
+ *
+ * ### Example:
+ * ```ts
+ * parseTemplateFields("Weekly Raid; 2h; Europe/Berlin; Raid Voice; Bring consumables; weekly")
+ * // Returns: { fields: { eventName: "Weekly Raid", durationMs: 7200000, ..., interval: "weekly", frequency: 1 }, errors: [] }
+ * ```
+ *
+ * @param templateInfo - The fields in the order name; duration; timezone; location; description; interval; frequency,
+ *   and/or `key=value` pairs (including `image=<url>`) after the positional fields. Every field may be empty.
+ *
+ * @returns The template fields and one message per invalid field.
+ *
+ * @remarks
+ * - Start and end are never stored; the duration accepts the formats of `parseDuration` (`2h`, `90m`, `1h30`).
+ * - The interval is checked against today, the full validation happens on every use like for `New Event` and `New Schedule`.
+ */
+export function parseTemplateFields(templateInfo: string): ParsedTemplateFields {
+    let values = new Map<TemplateField, string>()
+    let errors: string[] = []
+
+    let namedSyntax = false
+    for (let [index, part] of splitEventFields(templateInfo).entries()) {
+        let separatorIndex = part.indexOf("=")
+        let field = separatorIndex > 0 ? templateFieldAliases[part.slice(0, separatorIndex).trim().toLowerCase()] : undefined
+
+        if (field) {
+            namedSyntax = true
+            values.set(field, part.slice(separatorIndex + 1).trim())
+        }
+        else if (namedSyntax || index >= templateFields.length) {
+            if (part != "") {
+                errors.push(`field ${index + 1}: \`${part}\` is not a known key=value pair, use name, duration, timezone, location, description, interval, frequency or image`)
+            }
+        }
+        else {
+            values.set(templateFields[index]!, part)
+        }
+    }
+
+    let durationInput = values.get("duration") ?? ""
+    let durationMs = durationInput == "" ? null : parseDuration(durationInput)
+    if (durationInput != "" && durationMs == null) {
+        errors.push(`duration: \`${durationInput}\` is not a valid duration (e.g. 2h, 90m, 1h30)`)
+    }
+
+    let timezone = values.get("timezone") ?? ""
+    if (timezone != "" && !IANAZone.isValidZone(timezone)) {
+        errors.push(`timezone: \`${timezone}\` is not a valid IANA timezone (e.g. Europe/Berlin)`)
+    }
+
+    let interval = values.get("interval") ?? ""
+    let frequencyInput = values.get("frequency") ?? ""
+    let frequency = frequencyInput == "" ? 1 : +frequencyInput
+    if (!Number.isInteger(frequency) || frequency < 1) {
+        errors.push(`frequency: \`${frequencyInput}\` is not a positive whole number`)
+    }
+    else if (interval != "" && !parseRecurrenceRule(interval, frequency, new Date(), timezone || "UTC")) {
+        errors.push(`interval: \`${interval}\` is not a valid interval, use daily, weekly, monthly, yearly or an RRULE`)
+    }
+    else if (interval == "" && frequencyInput != "") {
+        errors.push("frequency: is only used together with an interval")
+    }
+
+    let image = values.get("image") ?? ""
+    if (image != "" && !URL.canParse(image)) {
+        errors.push(`image: \`${image}\` is not a URL`)
+    }
+
+    return {
+        fields: {
+            eventName: values.get("name") ?? "",
+            durationMs: durationMs,
+            timezone: timezone,
+            eventLocation: values.get("location") ?? "",
+            description: values.get("description") ?? "",
+            image: image,
+            interval: interval,
+            frequency: frequency,
+        },
+        errors,
+    }
+}
+
+/**
+ * Summarizes a template for confirmations and `Template List`.
+ *
+ * @param template - The template.
+ *
+ * @returns The set fields separated by `·`, e.g. `Weekly Raid · 2h · Europe/Berlin · Raid Voice · weekly`.
+ */
+function describeTemplate(template: Pick<EventTemplate, "eventName" | "durationMs" | "timezone" | "eventLocation" | "description" | "image" | "interval" | "frequency">): string {
+    let parts = [
+        template.eventName,
+        template.durationMs ? formatOffset(template.durationMs / 60_000) : "",
+        template.timezone,
+        template.eventLocation,
+        template.interval ? template.interval + (template.frequency > 1 ? ` every ${template.frequency}` : "") : "",
+        template.description ? "📝" : "",
+        template.image ? "🖼️" : "",
+    ]
+
+    return parts.filter(part => part != "").join(" · ") || "(empty)"
+}
+
+/**
+ * Builds the `New Event` or `New Schedule` command for a use of a template.
+ *
+ * ### Example:
+ * ```ts
+ * buildTemplateCommand(template, "2025-06-20 18:00; location=Raid Voice 2; force")
+ * // Returns: { command: "New Schedule", eventInfo: "name=Weekly Raid; start=2025-06-20 18:00; end=120m; ...; location=Raid Voice 2; force", image: "" }
+ * ```
+ *
+ * @param template - The template.
+ * @param instanceInfo - The start time, optionally followed by `key=value` overrides of any `New Schedule` field, `image=<url>` and `; force`.
+ *
+ * @returns The command and its event details, with the overrides after the template's fields so they take precedence.
+ *
+ * @remarks
+ * - The stored duration becomes the end, `end=` or `duration=` overrides it with a time or another duration.
+ * - A template with interval creates a schedule, `interval=` (empty) turns a use into a one-time event and `interval=...` the other way round.
+ */
+export function buildTemplateCommand(template: EventTemplate, instanceInfo: string): { command: CreationCommand, eventInfo: string, image: string } {
+    let { eventInfo: overridesInfo, force } = splitForceFlag(instanceInfo)
+    let [startInput, ...overrides] = splitEventFields(overridesInfo)
+
+    let interval = template.interval
+    let image = template.image
+    let otherOverrides: string[] = []
+    for (let override of overrides.filter(override => override != "")) {
+        let separatorIndex = override.indexOf("=")
+        let key = separatorIndex > 0 ? override.slice(0, separatorIndex).trim().toLowerCase() : ""
+        let value = override.slice(separatorIndex + 1).trim()
+
+        if (key == "interval" || key == "repeat") {
+            interval = value
+        }
+        else if (key == "image") {
+            image = value
+        }
+        else {
+            otherOverrides.push(override)
+        }
+    }
+
+    let fields: [string, string][] = [
+        ["name", template.eventName],
+        ["start", startInput ?? ""],
+        ["end", template.durationMs ? `${template.durationMs / 60_000}m` : ""],
+        ["timezone", template.timezone],
+        ["location", template.eventLocation],
+        ["description", template.description],
+    ]
+    if (interval != "") {
+        fields.push(["interval", interval], ["frequency", interval == template.interval ? String(template.frequency) : ""])
+    }
+
+    let eventInfo = [
+        ...fields.filter(([, value]) => value != "").map(([key, value]) => `${key}=${value}`),
+        ...otherOverrides,
+    ].join("; ")
+
+    return {
+        command: interval != "" ? "New Schedule" : "New Event",
+        eventInfo: eventInfo + (force ? "; force" : ""),
+        image: image,
+    }
+}
+
+/**
+ * Saves (or replaces) an event template of a guild and confirms it in the reply channel.
+ *
+ * ### Example:
+ * ```ts
+ * await saveDiscordTemplate("Raid", "Weekly Raid; 2h; Europe/Berlin; Raid Voice; Bring consumables", "", "123456789012345678", "987654321098765432", "555555555555555555");
+ * ```
+ *
+ * @param templateName - The name the template is used with, e.g. `Raid`.
+ * @param templateInfo - The template fields (see `parseTemplateFields`).
+ * @param discordMessageAttachment - The image attached to the command, stored as the template's cover image unless `image=` is given.
+ * @param guildID - The Discord guild (server) ID.
+ * @param replyChannel - The ID of the channel the confirmation is posted to.
+ * @param authorID - The ID of the user who sent the command.
+ *
+ * @returns A `Promise<void>` that resolves once the template was saved or the error was sent.
+ *
+ * @remarks
+ * - A guild can have up to `MAX_TEMPLATES` (25) templates, saving an existing name replaces that template.
+ * - Discord attachment URLs expire after a while, a permanent `image=` URL is more reliable.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ */
+export async function saveDiscordTemplate(templateName: string, templateInfo: string, discordMessageAttachment: string, guildID: string, replyChannel: string, authorID: string): Promise<void> {
+    logger.info(`Invoking Template Save "${templateName}": ${templateInfo}`)
+    let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID, authorID)
+
+    try {
+        let { fields, errors } = parseTemplateFields(templateInfo)
+        if (templateName == "" || templateName.length > MAX_TEMPLATE_NAME_LENGTH) {
+            errors.unshift(`template name: must have 1 to ${MAX_TEMPLATE_NAME_LENGTH} characters`)
+        }
+        if (errors.length > 0) {
+            logger.error(`Invalid template "${templateName}": ${errors.join(", ")}`)
+            await (channel as TextChannel).send(translate(language, "template.invalid", { errors: errors.map(error => "- " + error).join("\n") }) + "\n" + translate(language, "template.format"))
+            return
+        }
+
+        let existingTemplate = templateRepository.getTemplate(guildID, templateName)
+        if (!existingTemplate && templateRepository.listTemplates(guildID).length >= MAX_TEMPLATES) {
+            await (channel as TextChannel).send(translate(language, "template.tooMany", { max: MAX_TEMPLATES }))
+            return
+        }
+
+        let template: EventTemplate = {
+            ...fields,
+            image: fields.image || discordMessageAttachment,
+            guildId: guildID,
+            templateName: templateName,
+            authorId: authorID,
+            updatedAt: new Date(),
+        }
+        templateRepository.saveTemplate(template)
+        logger.info(`Template "${templateName}" of guild ${guildID} saved.`)
+
+        await (channel as TextChannel).send({
+            content: translate(language, existingTemplate ? "template.updated" : "template.saved", { template: templateName, summary: describeTemplate(template) }),
+            allowedMentions: { parse: [] },
+        })
+
+    } catch (e) {
+        logger.error("Failed to save template: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(translate(language, "template.failed", { error: String(e) }))
+        }
+    }
+}
+
+/**
+ * Lists the event templates of a guild in the reply channel.
+ *
+ * @param guildID - The Discord guild (server) ID.
+ * @param replyChannel - The ID of the channel the list is posted to.
+ * @param authorID - The ID of the user who sent the command, decides the language.
+ *
+ * @returns A `Promise<void>` that resolves once the list was sent.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged.
+ */
+export async function listDiscordTemplates(guildID: string, replyChannel: string, authorID: string): Promise<void> {
+    let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID, authorID)
+
+    try {
+        let templates = templateRepository.listTemplates(guildID)
+        let content = templates.length == 0
+            ? translate(language, "template.none")
+            : translate(language, "template.list", { templates: templates.map(template => `- **${template.templateName}**: ${describeTemplate(template)}`).join("\n") })
+
+        await (channel as TextChannel).send({ content: content, allowedMentions: { parse: [] } })
+
+    } catch (e) {
+        logger.error("Failed to list templates: " + e)
+    }
+}
+
+/**
+ * Deletes an event template of a guild. Events created from it are not affected.
+ *
+ * @param templateName - The name of the template, case-insensitive.
+ * @param guildID - The Discord guild (server) ID.
+ * @param replyChannel - The ID of the channel the confirmation is posted to.
+ * @param authorID - The ID of the user who sent the command, decides the language.
+ *
+ * @returns A `Promise<void>` that resolves once the template was deleted or the error was sent.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ */
+export async function deleteDiscordTemplate(templateName: string, guildID: string, replyChannel: string, authorID: string): Promise<void> {
+    let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID, authorID)
+
+    try {
+        let template = templateRepository.getTemplate(guildID, templateName)
+        if (!template) {
+            await (channel as TextChannel).send({ content: translate(language, "template.notFound", { template: templateName }), allowedMentions: { parse: [] } })
+            return
+        }
+
+        templateRepository.deleteTemplate(guildID, templateName)
+        logger.info(`Template "${template.templateName}" of guild ${guildID} deleted.`)
+        await (channel as TextChannel).send({ content: translate(language, "template.deleted", { template: template.templateName }), allowedMentions: { parse: [] } })
+
+    } catch (e) {
+        logger.error("Failed to delete template: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(translate(language, "template.failed", { error: String(e) }))
+        }
+    }
+}
+
+/**
+ * Creates an event or schedule from a template, like `New Event` or `New Schedule` with the template's fields.
+ *
+ * ### Example:
+ * ```ts
+ * let outcome = await createDiscordEventFromTemplate("Raid", "2025-06-20 18:00; description=Bring consumables", "", guildID, replyChannel, commandContext, message)
+ * await reactWithOutcome(message, outcome)
+ * ```
+ *
+ * @param templateName - The name of the template, case-insensitive.
+ * @param instanceInfo - The start time and optional overrides (see `buildTemplateCommand`).
+ * @param discordMessageAttachment - An image attached to the command, replaces the template's cover image.
+ * @param guildID - The Discord guild (server) ID.
+ * @param replyChannel - The ID of the channel confirmations and errors are posted to.
+ * @param commandContext - The author, message and command text, stored with the created events.
+ * @param message - The command message, answered by the preview.
+ *
+ * @returns A `Promise` resolving to the `CreationOutcome`.
+ *
+ * @remarks
+ * - The events are validated and created by `createNewDiscordEvent`/`createNewDiscordSchedule`,
+ *   after a preview if the guild has `preview` enabled, so conflicts and errors are handled the same way.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ */
+export async function createDiscordEventFromTemplate(templateName: string, instanceInfo: string, discordMessageAttachment: string, guildID: string, replyChannel: string, commandContext: CommandContext, message: Message): Promise<CreationOutcome> {
+    logger.info(`Invoking From Template "${templateName}": ${instanceInfo}`)
+    let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID, commandContext.authorId)
+
+    let template = templateRepository.getTemplate(guildID, templateName)
+    if (!template) {
+        logger.error(`Template "${templateName}" not found in guild ${guildID}.`)
+        await (channel as TextChannel).send({ content: translate(language, "template.notFound", { template: templateName }), allowedMentions: { parse: [] } })
+        return "failed"
+    }
+    if (instanceInfo.trim() == "") {
+        await (channel as TextChannel).send(translate(language, "template.useFormat"))
+        return "failed"
+    }
+
+    let { command, eventInfo, image } = buildTemplateCommand(template, instanceInfo)
+    let attachment = discordMessageAttachment || image
+    logger.info(`Template "${template.templateName}" expanded to ${command}: ${eventInfo}`)
+
+    if (getGuildSettings(guildID).preview) {
+        return await previewDiscordCreation(command, eventInfo, attachment, guildID, replyChannel, commandContext, message)
+    }
+
+    let createEvent = command == "New Schedule" ? createNewDiscordSchedule : createNewDiscordEvent
+    return await createEvent(eventInfo, attachment, guildID, replyChannel, commandContext)
+}
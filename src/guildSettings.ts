@@ -0,0 +1,462 @@
+import { PermissionFlagsBits, TextChannel, type GuildMember } from "discord.js"
+import type { Database } from "bun:sqlite"
+import { IANAZone } from "luxon"
+import { logger, client } from "./mainBot"
+import { database } from "./database"
+import { parseCronSchedule } from "./cronSchedule"
+import { parseDuration } from "./dateParser"
+import { getLanguage, translate } from "./localization"
+import { splitEventFields } from "./EventDetails"
+
+export interface GuildSettings {
+    prefix: string
+    timezone: string
+    location: string
+    replyChannelId: string | null
+    pingRoleId: string | null
+    language: string
+    locale: string
+    digestChannelId: string | null
+    digestSchedule: string
+    digestDays: number
+    // Minutes before the start at which interested members get a reminder DM, empty to disable
+    reminderOffsets: number[]
+    // Whether `New Event` and `New Schedule` show a preview that the author has to confirm
+    preview: boolean
+    // Whether External events created by the bot are started at their start and completed at their end time
+    lifecycle: boolean
+    // Days after which events the bot completed are deleted, `null` to keep them
+    cleanupDays: number | null
+    // Whether a summary is posted when an event ended
+    summary: boolean
+}
+
+export const DEFAULT_GUILD_SETTINGS: GuildSettings = {
+    prefix: "!dmb",
+    timezone: "Europe/Amsterdam",
+    location: "",
+    replyChannelId: null,
+    pingRoleId: null,
+    language: "en",
+    locale: "en-GB",
+    digestChannelId: null,
+    // Every Monday at 08:00 in the guild's timezone
+    digestSchedule: "0 8 * * 1",
+    digestDays: 7,
+    reminderOffsets: [24 * 60, 15],
+    preview: true,
+    lifecycle: true,
+    cleanupDays: null,
+    summary: true,
+}
+
+export const supportedLanguages = ["en", "de"]
+
+/**
+ * Storage of the per-guild settings.
+ *
+ * @remarks
+ * - Only the settings a guild changed are stored, `getGuildSettings` fills in the defaults.
+ */
+export interface GuildSettingsRepository {
+    getSettings(guildID: string): Partial<GuildSettings> | null
+    saveSettings(guildID: string, settings: Partial<GuildSettings>): void
+}
+
+/**
+ * `GuildSettingsRepository` backed by SQLite (via `bun:sqlite`).
+ *
+ * @remarks
+ * - The settings of a guild are stored as one JSON object, so new settings need no schema change.
+ */
+export class SqliteGuildSettingsRepository implements GuildSettingsRepository {
+    private db: Database
+
+    constructor(db: Database) {
+        this.db = db
+        this.db.run(`CREATE TABLE IF NOT EXISTS guild_settings (
+            guild_id TEXT PRIMARY KEY,
+            data TEXT NOT NULL
+        )`)
+    }
+
+    getSettings(guildID: string): Partial<GuildSettings> | null {
+        let row = this.db.query<{ data: string }, [string]>("SELECT data FROM guild_settings WHERE guild_id = ?").get(guildID)
+        return row ? JSON.parse(row.data) : null
+    }
+
+    saveSettings(guildID: string, settings: Partial<GuildSettings>): void {
+        this.db.query("INSERT OR REPLACE INTO guild_settings (guild_id, data) VALUES (?, ?)").run(guildID, JSON.stringify(settings))
+    }
+}
+
+export const guildSettingsRepository: GuildSettingsRepository = new SqliteGuildSettingsRepository(database)
+
+/**
+ * Returns the settings of a guild, with defaults for everything the guild did not configure.
+ *
+ * ### Example:
+ * ```ts
+ * const settings = getGuildSettings("123456789012345678")
+ * // Returns: { prefix: "!dmb", timezone: "Europe/Amsterdam", location: "", replyChannelId: null, pingRoleId: null, language: "en", locale: "en-GB", ... }
+ * ```
+ *
+ * @param guildID - The ID of the guild, or `null`/`undefined` outside of a guild.
+ *
+ * @returns The complete `GuildSettings` of the guild.
+ *
+ * @remarks
+ * - Without a configured ping role, the `PING_ROLE_ID` environment variable is used.
+ */
+export function getGuildSettings(guildID: string | null | undefined): GuildSettings {
+    let storedSettings = guildID ? guildSettingsRepository.getSettings(guildID) : null
+
+    return {
+        ...DEFAULT_GUILD_SETTINGS,
+        pingRoleId: process.env.PING_ROLE_ID || null,
+        ...storedSettings,
+    }
+}
+
+/**
+ * Validates and applies a single `key=value` setting.
+ *
+ * @param guildID - The ID of the guild the setting belongs to.
+ * @param key - The setting's key, e.g. `timezone`.
+ * @param value - The new value, an empty value resets the setting to its default.
+ * @param settings - The stored settings of the guild, changed in place.
+ * @param language - The language of the error message.
+ *
+ * @returns An error message if the value is invalid; otherwise, `null`.
+ */
+async function applySetting(guildID: string, key: string, value: string, settings: Partial<GuildSettings>, language: string): Promise<string | null> {
+    let guild = await client.guilds.fetch(guildID)
+
+    switch (key) {
+        case "prefix": {
+            if (value == "") {
+                delete settings.prefix
+            }
+            else if (/\s/.test(value)) {
+                return translate(language, "config.prefixSpaces")
+            }
+            else {
+                settings.prefix = value
+            }
+            return null
+        }
+        case "timezone":
+        case "tz": {
+            if (value == "") {
+                delete settings.timezone
+            }
+            else if (!IANAZone.isValidZone(value)) {
+                return translate(language, "config.invalidTimezone", { value: value })
+            }
+            else {
+                settings.timezone = value
+            }
+            return null
+        }
+        case "location": {
+            if (value == "") {
+                delete settings.location
+            }
+            else {
+                settings.location = value
+            }
+            return null
+        }
+        case "channel": {
+            if (value == "") {
+                delete settings.replyChannelId
+                return null
+            }
+            let channelID = value.replace(/^<#(\d+)>$/, "$1")
+            let channel = await guild.channels.fetch(channelID).catch(() => null)
+            if (!channel || !channel.isTextBased()) {
+                return translate(language, "config.invalidChannel", { value: value })
+            }
+            settings.replyChannelId = channel.id
+            return null
+        }
+        case "role": {
+            if (value == "") {
+                delete settings.pingRoleId
+                return null
+            }
+            if (value == "@here") {
+                settings.pingRoleId = null
+                return null
+            }
+            let roleID = value.replace(/^<@&(\d+)>$/, "$1")
+            let role = await guild.roles.fetch(roleID).catch(() => null)
+            if (!role) {
+                return translate(language, "config.invalidRole", { value: value })
+            }
+            settings.pingRoleId = role.id
+            return null
+        }
+        case "language": {
+            if (value == "") {
+                delete settings.language
+            }
+            else if (!supportedLanguages.includes(value.toLowerCase())) {
+                return translate(language, "config.invalidLanguage", { value: value, languages: supportedLanguages.join(", ") })
+            }
+            else {
+                settings.language = value.toLowerCase()
+            }
+            return null
+        }
+        case "locale": {
+            if (value == "") {
+                delete settings.locale
+            }
+            else if (Intl.DateTimeFormat.supportedLocalesOf(value).length == 0) {
+                return translate(language, "config.invalidLocale", { value: value })
+            }
+            else {
+                settings.locale = value
+            }
+            return null
+        }
+        case "digest": {
+            if (value == "") {
+                delete settings.digestChannelId
+                return null
+            }
+            let channelID = value.replace(/^<#(\d+)>$/, "$1")
+            let channel = await guild.channels.fetch(channelID).catch(() => null)
+            if (!channel || !channel.isTextBased()) {
+                return translate(language, "config.invalidChannel", { value: value })
+            }
+            settings.digestChannelId = channel.id
+            return null
+        }
+        case "digestschedule": {
+            if (value == "") {
+                delete settings.digestSchedule
+            }
+            else if (!parseCronSchedule(value)) {
+                return translate(language, "config.invalidCron", { value: value })
+            }
+            else {
+                settings.digestSchedule = value
+            }
+            return null
+        }
+        case "digestdays": {
+            if (value == "") {
+                delete settings.digestDays
+            }
+            else if (!/^\d+$/.test(value) || +value < 1 || +value > 31) {
+                return translate(language, "config.invalidDigestDays", { value: value })
+            }
+            else {
+                settings.digestDays = +value
+            }
+            return null
+        }
+        case "reminders": {
+            if (value == "") {
+                delete settings.reminderOffsets
+                return null
+            }
+            if (value.toLowerCase() == "off") {
+                settings.reminderOffsets = []
+                return null
+            }
+            let offsets = value.split(",").map(offset => parseDuration(offset))
+            if (offsets.some(offset => offset == null)) {
+                return translate(language, "config.invalidReminders", { value: value })
+            }
+            settings.reminderOffsets = [...new Set(offsets.map(offset => Math.round(offset! / 60_000)))].sort((first, second) => second - first)
+            return null
+        }
+        case "preview": {
+            if (value == "") {
+                delete settings.preview
+            }
+            else if (value.toLowerCase() != "on" && value.toLowerCase() != "off") {
+                return translate(language, "config.invalidSwitch", { value: value })
+            }
+            else {
+                settings.preview = value.toLowerCase() == "on"
+            }
+            return null
+        }
+        case "lifecycle":
+        case "summary": {
+            if (value == "") {
+                delete settings[key]
+            }
+            else if (value.toLowerCase() != "on" && value.toLowerCase() != "off") {
+                return translate(language, "config.invalidSwitch", { value: value })
+            }
+            else {
+                settings[key] = value.toLowerCase() == "on"
+            }
+            return null
+        }
+        case "cleanup": {
+            if (value == "") {
+                delete settings.cleanupDays
+            }
+            else if (value.toLowerCase() == "off") {
+                settings.cleanupDays = null
+            }
+            else if (!/^\d+$/.test(value) || +value < 1 || +value > 365) {
+                return translate(language, "config.invalidCleanup", { value: value })
+            }
+            else {
+                settings.cleanupDays = +value
+            }
+            return null
+        }
+        default: {
+            return translate(language, "config.unknownSetting", { key: key })
+        }
+    }
+}
+
+/**
+ * Formats a reminder offset as duration, e.g. `1440` as `"24h"` and `90` as `"1h30m"`.
+ *
+ * @param offset - The offset in minutes.
+ *
+ * @returns The formatted duration.
+ */
+export function formatOffset(offset: number): string {
+    let hours = Math.floor(offset / 60)
+    let minutes = offset % 60
+    return (hours > 0 ? `${hours}h` : "") + (minutes > 0 || hours == 0 ? `${minutes}m` : "")
+}
+
+/**
+ * Formats the settings of a guild for the `Config` command.
+ *
+ * @param settings - The complete `GuildSettings` of the guild.
+ * @param language - The language of the placeholders for unset values.
+ *
+ * @returns One line per setting.
+ */
+function formatGuildSettings(settings: GuildSettings, language: string): string {
+    return [
+        `prefix: ${settings.prefix}`,
+        `timezone: ${settings.timezone}`,
+        `location: ${settings.location || translate(language, "config.none")}`,
+        `channel: ${settings.replyChannelId ? `<#${settings.replyChannelId}>` : translate(language, "config.commandChannel")}`,
+        `role: ${settings.pingRoleId ? `<@&${settings.pingRoleId}>` : "@here"}`,
+        `language: ${settings.language}`,
+        `locale: ${settings.locale}`,
+        `digest: ${settings.digestChannelId ? `<#${settings.digestChannelId}>` : translate(language, "config.off")}`,
+        `digestschedule: ${settings.digestSchedule}`,
+        `digestdays: ${settings.digestDays}`,
+        `reminders: ${settings.reminderOffsets.length > 0 ? settings.reminderOffsets.map(offset => formatOffset(offset)).join(", ") : translate(language, "config.off")}`,
+        `preview: ${settings.preview ? "on" : "off"}`,
+        `lifecycle: ${settings.lifecycle ? "on" : "off"}`,
+        `cleanup: ${settings.cleanupDays != null ? translate(language, "config.days", { count: settings.cleanupDays }) : translate(language, "config.off")}`,
+        `summary: ${settings.summary ? "on" : "off"}`,
+    ].join("\n")
+}
+
+/**
+ * Shows or changes the settings of a guild and sends the result to a specified channel.
+ *
+ * ### Example:
+ * ```ts
+ * await configureDiscordGuild(
+ *   "timezone=America/New_York; channel=#events; role=@Raiders",
+ *   "123456789012345678",
+ *   "987654321098765432",
+ *   message.member
+ * );
+ * ```
+ *
+ * @param configInfo - A semicolon-separated list of `key=value` settings (split like event fields, see `splitEventFields`), or an empty string to only show the settings.
+ *   - `prefix`: the command prefix, without the trailing space (default `!dmb`).
+ *   - `timezone` (or `tz`): the IANA timezone used when a command gives none (default `Europe/Amsterdam`).
+ *   - `location`: the location used when a command gives none.
+ *   - `channel`: the channel for confirmations and live pings (default: the channel of the command).
+ *   - `role`: the role mentioned in live pings and notices, or `@here`.
+ *   - `language`: the language of the bot's replies (`en` or `de`), members can choose their own with `Language`.
+ *   - `locale`: decides whether dates like `03/04` are read day-first or month-first (e.g. `en-GB`, `en-US`).
+ *   - `digest`: the channel of the agenda digest, which is off without a channel.
+ *   - `digestschedule`: when the digest is posted, as cron expression in the guild's timezone (default `0 8 * * 1`, Monday 08:00).
+ *   - `digestdays`: how many days the digest covers, starting with the day it is posted (default 7).
+ *   - `reminders`: comma-separated times before an event at which interested members get a DM (default `24h, 15m`), or `off`.
+ *   - `preview`: whether new events are shown as preview and only created once the author confirms (`on` or `off`, default `on`).
+ *   - `lifecycle`: whether External events created by the bot are started and completed at their start and end time (`on` or `off`, default `on`).
+ *   - `cleanup`: after how many days the events the bot completed are deleted (1 to 365), or `off` to keep them (default).
+ *   - `summary`: whether a summary with duration and interested count is posted when an event ended (`on` or `off`, default `on`).
+ * @param guildID - The Discord guild (server) ID the settings belong to.
+ * @param replyChannel - The ID of the Discord channel where the settings or errors will be posted.
+ * @param member - The member who sent the command, changing settings requires the "Manage Server" permission.
+ *
+ * @returns A `Promise<void>` that resolves once the settings were shown or changed.
+ *
+ * @remarks
+ * - An empty value (e.g. `channel=`) resets the setting to its default.
+ * - If any setting is invalid, nothing is changed and all problems are reported.
+ * - The settings are stored in the shared SQLite database and survive restarts.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger` and the `guildSettingsRepository`.
+ */
+export async function configureDiscordGuild(configInfo: string, guildID: string, replyChannel: string, member: GuildMember | null): Promise<void> {
+    logger.info("Invoking Config: " + configInfo)
+    let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID, member?.id ?? null)
+
+    let configParts = splitEventFields(configInfo).map(part => part.trim()).filter(part => part != "")
+
+    try {
+        if (configParts.length == 0) {
+            await (channel as TextChannel).send({ content: translate(language, "config.current", { settings: formatGuildSettings(getGuildSettings(guildID), language) }), allowedMentions: { parse: [] } })
+            return
+        }
+
+        if (!member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+            logger.error(`User ${member?.id} is not allowed to change the settings of guild ${guildID}.`)
+            await (channel as TextChannel).send(translate(language, "config.notAllowed"))
+            return
+        }
+
+        let settings = guildSettingsRepository.getSettings(guildID) ?? {}
+        let problems: string[] = []
+
+        for (let part of configParts) {
+            let separatorIndex = part.indexOf("=")
+            if (separatorIndex < 0) {
+                problems.push(translate(language, "config.notKeyValue", { part: part }))
+                continue
+            }
+
+            let problem = await applySetting(guildID, part.slice(0, separatorIndex).trim().toLowerCase(), part.slice(separatorIndex + 1).trim(), settings, language)
+            if (problem) {
+                problems.push(problem)
+            }
+        }
+
+        if (problems.length > 0) {
+            logger.error("Invalid settings: " + problems.join(" "))
+            await (channel as TextChannel).send(translate(language, "config.nothingChanged", { problems: problems.map(problem => `- ${problem}`).join("\n") }))
+            return
+        }
+
+        guildSettingsRepository.saveSettings(guildID, settings)
+        logger.info(`Settings of guild ${guildID} updated: ${JSON.stringify(settings)}`)
+        // A changed server language applies to this reply already
+        language = getLanguage(guildID, member.id)
+        await (channel as TextChannel).send({ content: translate(language, "config.updated", { settings: formatGuildSettings(getGuildSettings(guildID), language) }), allowedMentions: { parse: [] } })
+
+    } catch (e) {
+        logger.error("Failed to configure guild: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(translate(language, "config.failed", { error: String(e) }))
+        }
+    }
+}
@@ -0,0 +1,107 @@
+import { timingSafeEqual } from "crypto"
+import { logger, client } from "./mainBot"
+import { buildGuildCalendar, getCalendarFeedToken } from "./calendarExport"
+import { apiRoutes } from "./eventApi"
+
+export interface HttpRoute {
+    method: string
+    pattern: RegExp
+    handler: (request: Request, params: string[]) => Promise<Response>
+}
+
+/**
+ * Compares two secrets in constant time.
+ *
+ * @param given - The secret sent by the client.
+ * @param expected - The expected secret.
+ *
+ * @returns `true` if both are equal.
+ */
+export function secretsMatch(given: string, expected: string): boolean {
+    let givenBuffer = Buffer.from(given)
+    let expectedBuffer = Buffer.from(expected)
+    return givenBuffer.length == expectedBuffer.length && timingSafeEqual(givenBuffer, expectedBuffer)
+}
+
+const routes: HttpRoute[] = [
+    // Subscribable iCalendar feed of a guild, e.g. /guilds/123/calendar.ics?token=...
+    {
+        method: "GET",
+        pattern: /^\/guilds\/(\d+)\/calendar\.ics$/,
+        handler: async (request, [guildID]) => {
+            let token = new URL(request.url).searchParams.get("token") ?? ""
+            if (!secretsMatch(token, getCalendarFeedToken(guildID!))) {
+                return new Response("Forbidden", { status: 403 })
+            }
+
+            let guild = client.guilds.cache.get(guildID!)
+            if (!guild) {
+                return new Response("Not Found", { status: 404 })
+            }
+
+            return new Response(await buildGuildCalendar(guild), {
+                headers: {
+                    "Content-Type": "text/calendar; charset=utf-8",
+                    "Content-Disposition": `inline; filename="${guild.id}.ics"`,
+                },
+            })
+        },
+    },
+]
+
+/**
+ * Finds and runs the route matching a request.
+ *
+ * @param request - The incoming HTTP request.
+ *
+ * @returns A `Promise` resolving to the route's response, `404` if no route matches or `500` on errors.
+ */
+export async function handleHttpRequest(request: Request): Promise<Response> {
+    let pathname = new URL(request.url).pathname
+
+    // The API routes are read here and not spread into `routes`, since `eventApi` imports this module as well
+    for (let route of [...routes, ...apiRoutes]) {
+        let match = pathname.match(route.pattern)
+        if (match && route.method == request.method) {
+            try {
+                return await route.handler(request, match.slice(1))
+            } catch (e) {
+                logger.error(`HTTP ${request.method} ${pathname} failed: ` + e)
+                return new Response("Internal Server Error", { status: 500 })
+            }
+        }
+    }
+
+    return new Response("Not Found", { status: 404 })
+}
+
+/**
+ * Starts the optional local HTTP server if `HTTP_PORT` is set.
+ *
+ * ### Example:
+ * ```ts
+ * client.once(Events.ClientReady, async () => {
+ *     startHttpServer()
+ * })
+ * ```
+ *
+ * @remarks
+ * - Listens on `HTTP_HOST` (default `127.0.0.1`), put a reverse proxy in front of it to make the feeds public.
+ * - Serves the per-guild calendar feeds at `/guilds/<guild ID>/calendar.ics?token=<token>`.
+ * - Serves the JSON API below `/api/guilds/<guild ID>/` if `API_TOKEN` is set (see `apiRoutes`), e.g. for websites or spreadsheets.
+ *
+ * @dependencies
+ * - Requires the Bun runtime (`Bun.serve`).
+ */
+export function startHttpServer(): void {
+    if (!process.env.HTTP_PORT) {
+        return
+    }
+
+    let server = Bun.serve({
+        hostname: process.env.HTTP_HOST || "127.0.0.1",
+        port: +process.env.HTTP_PORT,
+        fetch: handleHttpRequest,
+    })
+    logger.info(`HTTP server listening on ${server.url}`)
+}
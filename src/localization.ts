@@ -0,0 +1,459 @@
+import { TextChannel } from "discord.js"
+import type { Database } from "bun:sqlite"
+import { DateTime } from "luxon"
+import { logger, client } from "./mainBot"
+import { database } from "./database"
+import { getGuildSettings, supportedLanguages } from "./guildSettings"
+
+// English templates, `{name}` placeholders are filled in by `translate`
+const englishMessages = {
+    "create.invalid": "Please check your Event Details:\n{errors}",
+    "create.eventFormat": "Event Details need this format: Name of Event; Event Start Time; Event End Time; Timezone in IANAS-Formatting; Location or #voice-channel; Description (or name=...; start=...; end=...; tz=...; location=...), optionally followed by ; force",
+    "create.scheduleFormat": "Event Details need this format: Name of Event; Event Start Time; Event End Time; Timezone in IANAS-Formatting; Location or #voice-channel; Description; Interval (daily/weekly/monthly/yearly or RRULE:...); Frequency (or name=...; start=...; end=...; interval=...), optionally followed by ; force",
+    "create.created": "Event \"{name}\" created for {time}: {url}",
+    "create.scheduleCreated": "Event \"{name}\" created for {time} with schedule {schedule}. {url}",
+    "create.failed": "Failed to create event: {error}",
+    "create.dateNotesHint": "Use \"Edit Event\" if this is not what you meant.",
+    "edit.missingEvent": "Please name the event to edit (ID or exact name) or reply to the bot's confirmation message.",
+    "edit.invalid": "Please check your updates:\n{errors}",
+    "edit.ambiguous": "Multiple events are named \"{identifier}\". Please use the event ID instead:\n{events}",
+    "edit.inPast": "Start or End Time is in the past. Please retry.",
+    "edit.endBeforeStart": "Event cannot end before the start time. Please retry.",
+    "edit.nothingToUpdate": "Nothing to update. Use name=, start=, end=, timezone=, location=, description= or attach an image.",
+    "edit.updated": "Event \"{name}\" updated for {time}: {url}",
+    "edit.failed": "Failed to edit event: {error}",
+    "cancel.missingEvent": "Please name the event (ID or exact name) or reply to the bot's confirmation message.",
+    "cancel.ambiguous": "Multiple events are named \"{identifier}\". Which ones should be {action}? Answer with the numbers (e.g. 1, 3) or \"all\":\n{events}",
+    "cancel.nothingDone": "Nothing was {action}.",
+    "cancel.seriesFlagMissing": "\"{name}\" is a recurring series. Add \"; series\" to end the whole series.",
+    "cancel.seriesNotice": "{mention} The series \"{name}\" has been cancelled.",
+    "cancel.seriesEnded": "Series \"{name}\" ended, {count} upcoming event(s) {action}.",
+    "cancel.notCancellable": "Event \"{name}\" has already started or ended and cannot be cancelled. Use \"Delete Event\" instead.",
+    "cancel.notice": "{mention} Event \"{name}\" planned for {time} has been cancelled.",
+    "cancel.done": "Event \"{name}\" {action}.",
+    "cancel.failed": "Failed to cancel event: {error}",
+    "action.cancelled": "cancelled",
+    "action.deleted": "deleted",
+    "event.notFound": "No event found for: {identifier}",
+    "sync.edited": "Your edit changed the events of this message:",
+    "sync.deleted": "The message that created these events was deleted:",
+    "sync.updated": "✏️ Event \"{name}\" updated: {url}",
+    "sync.created": "➕ Created: {command}",
+    "sync.pending": "⚠️ Waiting for a confirmation in <#{channel}>: {command}",
+    "sync.createFailed": "❌ Not created, see <#{channel}>: {command}",
+    "sync.cancelled": "🗑️ Event \"{name}\" cancelled",
+    "sync.invalid": "❌ Nothing changed for `{command}`:\n{errors}",
+    "sync.notAllowed": "⛔ Not changed ({action} right missing): {command}",
+    "sync.failed": "❌ {command}: {error}",
+    "template.saved": "Template \"{template}\" saved: {summary}",
+    "template.updated": "Template \"{template}\" updated: {summary}",
+    "template.invalid": "Please check your template:\n{errors}",
+    "template.format": "Template Save needs this format: Template Save <template name>: Name of Event; Duration (e.g. 2h); Timezone in IANAS-Formatting; Location or #voice-channel; Description; Interval; Frequency (or name=...; duration=...; location=...; image=...), all fields are optional",
+    "template.tooMany": "This server already has {max} templates. Please delete one first.",
+    "template.notFound": "No template named \"{template}\". Use \"Template List\" to see all templates.",
+    "template.list": "Templates of this server:\n{templates}",
+    "template.none": "No templates saved yet. Use \"Template Save <template name>: ...\" to save one.",
+    "template.deleted": "Template \"{template}\" deleted.",
+    "template.useFormat": "From Template needs this format: From Template <template name>: Start Time, optionally followed by overrides like ; location=... and ; force",
+    "template.failed": "Failed to change the template: {error}",
+    "series.missingEvent": "Please name the schedule (event ID or exact name) or reply to the bot's confirmation message.",
+    "series.format.skip": "Skip Occurrence needs this format: Skip Occurrence: Event ID or Name; Date of the occurrence (e.g. 24.12.2025, or 24.12.2025 18:00 if there are several that day)",
+    "series.format.move": "Move Occurrence needs this format: Move Occurrence: Event ID or Name; Date of the occurrence; New Start (date and time, or only a time on the same day); optionally New End or Duration",
+    "series.format.end": "End Series needs this format: End Series: Event ID or Name; Date of the last occurrence",
+    "series.notRecurring": "\"{name}\" is not a recurring event.",
+    "series.activeNative": "\"{name}\" is running right now. Please try again after it ended.",
+    "series.invalidDate": "Could not read the date \"{date}\".",
+    "series.noOccurrence": "\"{name}\" has no occurrence on {date}.",
+    "series.ambiguousOccurrence": "\"{name}\" has several occurrences on {date}, please add the time:\n{occurrences}",
+    "series.inPast": "This occurrence of \"{name}\" has already started and cannot be changed anymore.",
+    "series.alreadySkipped": "The occurrence of \"{name}\" on {time} is already skipped.",
+    "series.skipped": "Occurrence of \"{name}\" on {time} skipped.",
+    "series.moved": "Occurrence of \"{name}\" on {originalTime} moved to {time}.",
+    "series.ended": "Schedule \"{name}\" ends on {date}, {count} later occurrence(s) deleted.",
+    "series.endedNativeDeleted": "\"{name}\" has no occurrence up to {date} anymore, so the event was deleted.",
+    "series.confirmAnswer": "yes",
+    "series.confirmConversion": "\"{name}\" is a recurring Discord event, so the bot can neither skip or move its single occurrences nor give it an end date. The bot can replace it with its own schedule at the same times, but the events get new links and the Interested marks are lost. Answer \"{answer}\" within a minute to replace it.",
+    "series.conversionAborted": "\"{name}\" was left unchanged.",
+    "series.converted": "\"{name}\" is now managed by the bot, so single occurrences can be changed.",
+    "series.exceptions": "Exceptions of this schedule:\n{exceptions}",
+    "series.exception.skip": "- {time}: skipped",
+    "series.exception.reschedule": "- {time}: moved to {newTime}",
+    "series.exception.end": "- ends after {time}",
+    "series.failed": "Failed to change the schedule: {error}",
+    "lifecycle.summary": "Event \"{name}\" has ended after {duration}, {count} member(s) were interested.",
+    "language.current": "<@{user}>, the bot answers you in {language}.",
+    "language.guildDefault": "<@{user}>, the bot answers you in the server's language ({language}).",
+    "language.format": "Language needs this format: Language: {languages}, or reset to use the server's language",
+    "language.failed": "Failed to change the language: {error}",
+    "config.current": "Settings of this server:\n{settings}",
+    "config.notAllowed": "You need the \"Manage Server\" permission to change the settings.",
+    "config.notKeyValue": "\"{part}\" is not a key=value setting.",
+    "config.nothingChanged": "Nothing was changed:\n{problems}",
+    "config.updated": "Settings updated:\n{settings}",
+    "config.failed": "Failed to change the settings: {error}",
+    "config.prefixSpaces": "The prefix cannot contain spaces.",
+    "config.invalidTimezone": "\"{value}\" is not a valid IANA timezone (e.g. America/New_York).",
+    "config.invalidChannel": "\"{value}\" is not a text channel of this server.",
+    "config.invalidRole": "\"{value}\" is not a role of this server.",
+    "config.invalidLanguage": "\"{value}\" is not supported. Available languages: {languages}.",
+    "config.invalidLocale": "\"{value}\" is not a known locale (e.g. en-US, en-GB, de-DE).",
+    "config.invalidCron": "\"{value}\" is not a valid cron schedule (minute hour day month weekday, e.g. \"0 8 * * MON\").",
+    "config.invalidDigestDays": "\"{value}\" is not a number of days between 1 and 31.",
+    "config.invalidReminders": "\"{value}\" is not a list of durations (e.g. 24h, 15m) or off.",
+    "config.invalidSwitch": "\"{value}\" is neither on nor off.",
+    "config.invalidCleanup": "\"{value}\" is not a number of days between 1 and 365 or off.",
+    "config.unknownSetting": "Unknown setting \"{key}\". Use prefix, timezone, location, channel, role, language, locale, digest, digestschedule, digestdays, reminders, preview, lifecycle, cleanup or summary.",
+    "config.none": "(none)",
+    "config.commandChannel": "(channel of the command)",
+    "config.off": "(off)",
+    "config.days": "{count} days",
+    "export.done": "Calendar export of \"{name}\".",
+    "export.subscribe": "Subscribe: {url}",
+    "export.failed": "Failed to export calendar: {error}",
+    "slash.formExpired": "This form expired, please run the command again.",
+    "slash.invalid": "Please check your options:\n{errors}",
+    "slash.notAllowed": "You are not allowed to use \"/event {subcommand}\" ({action} right missing). Please ask a server admin.",
+    "slash.updating": "Updating the event…",
+    "slash.cancelling": "Cancelling the event…",
+    "slash.done": "Done, see the confirmation in <#{channel}>.",
+    "slash.notDone": "Nothing was changed, see the reply in <#{channel}>.",
+    "slash.failed": "Something went wrong: {error}",
+    "preview.start": "Start",
+    "preview.end": "End",
+    "preview.location": "Location",
+    "preview.noLocation": "(none)",
+    "preview.voiceChannel": "voice channel",
+    "preview.stageChannel": "stage channel",
+    "preview.footer": "Nothing is created until you confirm.",
+    "preview.repeats": "Repeats",
+    "preview.nativeSeries": "recurring Discord event",
+    "preview.botSeries": "series managed by the bot",
+    "preview.readAs": "Read as",
+    "preview.expired": "This preview has expired, nothing was created.",
+    "preview.expiredButton": "This preview has expired, please run the command again.",
+    "preview.created": "Created, see the confirmation in <#{channel}>.",
+    "preview.failed": "Creation failed, see <#{channel}>.",
+    "conflict.warning": "⚠️ This overlaps with existing events at the same location:\n{conflicts}",
+    "conflict.entry": "- {name} {time} at {location}",
+    "conflict.more": "- … and {count} more",
+    "conflict.question": "Create the event anyway? (Or repeat the command with `; force` at the end.)",
+    "conflict.expired": "This warning has expired, please run the command again.",
+    "button.confirm": "Confirm",
+    "button.createAnyway": "Create anyway",
+    "button.cancel": "Cancel",
+    "button.authorOnly": "Only the author of the command can decide.",
+    "button.cancelled": "Cancelled, nothing was created.",
+    "button.confirmed": "Confirmed, creating the event…",
+    "permissions.denied": "<@{user}>, you are not allowed to use \"{command}\" ({action} right missing). Please ask a server admin.",
+    "permissions.list": "Command rights of this server:\n{grants}",
+    "permissions.everyone": "everyone",
+    "permissions.manageServer": "You need the \"Manage Server\" permission to change the command rights.",
+    "permissions.format": "Permissions need this format: grant|revoke create,edit,cancel,import|all @Role or @User",
+    "permissions.unknownAction": "Unknown action(s): {actions}. Use {validActions} or all.",
+    "permissions.unknownTarget": "\"{target}\" is not a role or member of this server.",
+    "permissions.updated": "Command rights updated:\n{grants}",
+    "permissions.failed": "Failed to change the command rights: {error}",
+    "scheduler.starting": "{mention} Event \"{name}\" is starting now! {url}",
+}
+
+export type MessageKey = keyof typeof englishMessages
+
+const messageCatalog: Record<string, Record<MessageKey, string>> = {
+    en: englishMessages,
+    de: {
+        "create.invalid": "Bitte prüfe die Event-Details:\n{errors}",
+        "create.eventFormat": "Event-Details brauchen dieses Format: Name des Events; Startzeit; Endzeit; Zeitzone im IANA-Format; Ort oder #Sprachkanal; Beschreibung (oder name=...; start=...; end=...; tz=...; location=...), optional gefolgt von ; force",
+        "create.scheduleFormat": "Event-Details brauchen dieses Format: Name des Events; Startzeit; Endzeit; Zeitzone im IANA-Format; Ort oder #Sprachkanal; Beschreibung; Intervall (daily/weekly/monthly/yearly oder RRULE:...); Häufigkeit (oder name=...; start=...; end=...; interval=...), optional gefolgt von ; force",
+        "create.created": "Event „{name}“ erstellt für {time}: {url}",
+        "create.scheduleCreated": "Event „{name}“ erstellt für {time} mit Zeitplan {schedule}. {url}",
+        "create.failed": "Event konnte nicht erstellt werden: {error}",
+        "create.dateNotesHint": "Nutze „Edit Event“, falls das nicht gemeint war.",
+        "edit.missingEvent": "Bitte nenne das zu ändernde Event (ID oder genauer Name) oder antworte auf die Bestätigung des Bots.",
+        "edit.invalid": "Bitte prüfe deine Änderungen:\n{errors}",
+        "edit.ambiguous": "Mehrere Events heißen „{identifier}“. Bitte nutze stattdessen die Event-ID:\n{events}",
+        "edit.inPast": "Start- oder Endzeit liegt in der Vergangenheit. Bitte versuche es erneut.",
+        "edit.endBeforeStart": "Das Event kann nicht vor seinem Start enden. Bitte versuche es erneut.",
+        "edit.nothingToUpdate": "Nichts zu ändern. Nutze name=, start=, end=, timezone=, location=, description= oder hänge ein Bild an.",
+        "edit.updated": "Event „{name}“ geändert für {time}: {url}",
+        "edit.failed": "Event konnte nicht geändert werden: {error}",
+        "cancel.missingEvent": "Bitte nenne das Event (ID oder genauer Name) oder antworte auf die Bestätigung des Bots.",
+        "cancel.ambiguous": "Mehrere Events heißen „{identifier}“. Welche sollen {action} werden? Antworte mit den Nummern (z. B. 1, 3) oder „all“:\n{events}",
+        "cancel.nothingDone": "Es wurde nichts {action}.",
+        "cancel.seriesFlagMissing": "„{name}“ ist eine wiederkehrende Serie. Füge „; series“ hinzu, um die ganze Serie zu beenden.",
+        "cancel.seriesNotice": "{mention} Die Serie „{name}“ wurde abgesagt.",
+        "cancel.seriesEnded": "Serie „{name}“ beendet, {count} kommende(s) Event(s) {action}.",
+        "cancel.notCancellable": "Event „{name}“ hat schon begonnen oder ist vorbei und kann nicht abgesagt werden. Nutze stattdessen „Delete Event“.",
+        "cancel.notice": "{mention} Das Event „{name}“ am {time} wurde abgesagt.",
+        "cancel.done": "Event „{name}“ {action}.",
+        "cancel.failed": "Event konnte nicht abgesagt werden: {error}",
+        "action.cancelled": "abgesagt",
+        "action.deleted": "gelöscht",
+        "event.notFound": "Kein Event gefunden für: {identifier}",
+        "sync.edited": "Deine Bearbeitung hat die Events dieser Nachricht geändert:",
+        "sync.deleted": "Die Nachricht, die diese Events erstellt hat, wurde gelöscht:",
+        "sync.updated": "✏️ Event „{name}“ geändert: {url}",
+        "sync.created": "➕ Erstellt: {command}",
+        "sync.pending": "⚠️ Wartet auf eine Bestätigung in <#{channel}>: {command}",
+        "sync.createFailed": "❌ Nicht erstellt, siehe <#{channel}>: {command}",
+        "sync.cancelled": "🗑️ Event „{name}“ abgesagt",
+        "sync.invalid": "❌ Nichts geändert für `{command}`:\n{errors}",
+        "sync.notAllowed": "⛔ Nicht geändert (Recht {action} fehlt): {command}",
+        "sync.failed": "❌ {command}: {error}",
+        "template.saved": "Vorlage „{template}“ gespeichert: {summary}",
+        "template.updated": "Vorlage „{template}“ geändert: {summary}",
+        "template.invalid": "Bitte prüfe deine Vorlage:\n{errors}",
+        "template.format": "Template Save braucht dieses Format: Template Save <Name der Vorlage>: Name des Events; Dauer (z. B. 2h); Zeitzone im IANA-Format; Ort oder #Sprachkanal; Beschreibung; Intervall; Häufigkeit (oder name=...; duration=...; location=...; image=...), alle Felder sind optional",
+        "template.tooMany": "Dieser Server hat schon {max} Vorlagen. Bitte lösche zuerst eine.",
+        "template.notFound": "Keine Vorlage namens „{template}“. Nutze „Template List“, um alle Vorlagen zu sehen.",
+        "template.list": "Vorlagen dieses Servers:\n{templates}",
+        "template.none": "Noch keine Vorlagen gespeichert. Nutze „Template Save <Name der Vorlage>: ...“, um eine zu speichern.",
+        "template.deleted": "Vorlage „{template}“ gelöscht.",
+        "template.useFormat": "From Template braucht dieses Format: From Template <Name der Vorlage>: Startzeit, optional gefolgt von Änderungen wie ; location=... und ; force",
+        "template.failed": "Vorlage konnte nicht geändert werden: {error}",
+        "series.missingEvent": "Bitte nenne den Zeitplan (Event-ID oder genauer Name) oder antworte auf die Bestätigung des Bots.",
+        "series.format.skip": "Skip Occurrence braucht dieses Format: Skip Occurrence: Event-ID oder Name; Datum des Termins (z. B. 24.12.2025, oder 24.12.2025 18:00 bei mehreren Terminen an dem Tag)",
+        "series.format.move": "Move Occurrence braucht dieses Format: Move Occurrence: Event-ID oder Name; Datum des Termins; Neuer Start (Datum und Uhrzeit, oder nur eine Uhrzeit am selben Tag); optional Neues Ende oder Dauer",
+        "series.format.end": "End Series braucht dieses Format: End Series: Event-ID oder Name; Datum des letzten Termins",
+        "series.notRecurring": "„{name}“ ist kein wiederkehrendes Event.",
+        "series.activeNative": "„{name}“ läuft gerade. Bitte versuche es nach dem Ende erneut.",
+        "series.invalidDate": "Das Datum „{date}“ konnte nicht gelesen werden.",
+        "series.noOccurrence": "„{name}“ hat am {date} keinen Termin.",
+        "series.ambiguousOccurrence": "„{name}“ hat am {date} mehrere Termine, bitte gib die Uhrzeit an:\n{occurrences}",
+        "series.inPast": "Dieser Termin von „{name}“ hat schon begonnen und kann nicht mehr geändert werden.",
+        "series.alreadySkipped": "Der Termin von „{name}“ am {time} fällt bereits aus.",
+        "series.skipped": "Termin von „{name}“ am {time} fällt aus.",
+        "series.moved": "Termin von „{name}“ am {originalTime} verschoben auf {time}.",
+        "series.ended": "Zeitplan „{name}“ endet am {date}, {count} spätere(r) Termin(e) gelöscht.",
+        "series.endedNativeDeleted": "„{name}“ hat bis zum {date} keinen Termin mehr, daher wurde das Event gelöscht.",
+        "series.confirmAnswer": "ja",
+        "series.confirmConversion": "„{name}“ ist ein wiederkehrendes Discord-Event, bei dem der Bot weder einzelne Termine ausfallen lassen oder verschieben noch ein Enddatum setzen kann. Der Bot kann es durch einen eigenen Zeitplan mit denselben Terminen ersetzen, die Events bekommen dann aber neue Links und die Interessiert-Markierungen gehen verloren. Antworte innerhalb einer Minute mit „{answer}“, um es zu ersetzen.",
+        "series.conversionAborted": "„{name}“ bleibt unverändert.",
+        "series.converted": "„{name}“ wird jetzt vom Bot verwaltet, damit einzelne Termine geändert werden können.",
+        "series.exceptions": "Ausnahmen dieses Zeitplans:\n{exceptions}",
+        "series.exception.skip": "- {time}: fällt aus",
+        "series.exception.reschedule": "- {time}: verschoben auf {newTime}",
+        "series.exception.end": "- endet nach {time}",
+        "series.failed": "Zeitplan konnte nicht geändert werden: {error}",
+        "lifecycle.summary": "Event „{name}“ ist nach {duration} zu Ende, {count} Mitglied(er) waren interessiert.",
+        "language.current": "<@{user}>, der Bot antwortet dir auf {language}.",
+        "language.guildDefault": "<@{user}>, der Bot antwortet dir in der Sprache des Servers ({language}).",
+        "language.format": "Language braucht dieses Format: Language: {languages}, oder reset für die Sprache des Servers",
+        "language.failed": "Sprache konnte nicht geändert werden: {error}",
+        "config.current": "Einstellungen dieses Servers:\n{settings}",
+        "config.notAllowed": "Du brauchst die Berechtigung „Server verwalten“, um die Einstellungen zu ändern.",
+        "config.notKeyValue": "„{part}“ ist keine key=value-Einstellung.",
+        "config.nothingChanged": "Nichts wurde geändert:\n{problems}",
+        "config.updated": "Einstellungen geändert:\n{settings}",
+        "config.failed": "Einstellungen konnten nicht geändert werden: {error}",
+        "config.prefixSpaces": "Das Präfix darf keine Leerzeichen enthalten.",
+        "config.invalidTimezone": "„{value}“ ist keine gültige IANA-Zeitzone (z. B. Europe/Berlin).",
+        "config.invalidChannel": "„{value}“ ist kein Textkanal dieses Servers.",
+        "config.invalidRole": "„{value}“ ist keine Rolle dieses Servers.",
+        "config.invalidLanguage": "„{value}“ wird nicht unterstützt. Verfügbare Sprachen: {languages}.",
+        "config.invalidLocale": "„{value}“ ist kein bekanntes Gebietsschema (z. B. de-DE, en-GB, en-US).",
+        "config.invalidCron": "„{value}“ ist kein gültiger Cron-Zeitplan (Minute Stunde Tag Monat Wochentag, z. B. „0 8 * * MON“).",
+        "config.invalidDigestDays": "„{value}“ ist keine Anzahl Tage zwischen 1 und 31.",
+        "config.invalidReminders": "„{value}“ ist weder eine Liste von Dauern (z. B. 24h, 15m) noch off.",
+        "config.invalidSwitch": "„{value}“ ist weder on noch off.",
+        "config.invalidCleanup": "„{value}“ ist weder eine Anzahl Tage zwischen 1 und 365 noch off.",
+        "config.unknownSetting": "Unbekannte Einstellung „{key}“. Verwende prefix, timezone, location, channel, role, language, locale, digest, digestschedule, digestdays, reminders, preview, lifecycle, cleanup oder summary.",
+        "config.none": "(keiner)",
+        "config.commandChannel": "(Kanal des Befehls)",
+        "config.off": "(aus)",
+        "config.days": "{count} Tage",
+        "export.done": "Kalenderexport von „{name}“.",
+        "export.subscribe": "Abonnieren: {url}",
+        "export.failed": "Kalender konnte nicht exportiert werden: {error}",
+        "slash.formExpired": "Dieses Formular ist abgelaufen, bitte führe den Befehl erneut aus.",
+        "slash.invalid": "Bitte prüfe deine Optionen:\n{errors}",
+        "slash.notAllowed": "Du darfst „/event {subcommand}“ nicht verwenden (Recht {action} fehlt). Bitte wende dich an einen Server-Admin.",
+        "slash.updating": "Event wird geändert …",
+        "slash.cancelling": "Event wird abgesagt …",
+        "slash.done": "Erledigt, die Bestätigung steht in <#{channel}>.",
+        "slash.notDone": "Nichts wurde geändert, die Antwort steht in <#{channel}>.",
+        "slash.failed": "Etwas ist schiefgelaufen: {error}",
+        "preview.start": "Beginn",
+        "preview.end": "Ende",
+        "preview.location": "Ort",
+        "preview.noLocation": "(keiner)",
+        "preview.voiceChannel": "Sprachkanal",
+        "preview.stageChannel": "Stage-Kanal",
+        "preview.footer": "Erst nach deiner Bestätigung wird etwas erstellt.",
+        "preview.repeats": "Wiederholung",
+        "preview.nativeSeries": "wiederkehrendes Discord-Event",
+        "preview.botSeries": "vom Bot verwalteter Zeitplan",
+        "preview.readAs": "Gelesen als",
+        "preview.expired": "Diese Vorschau ist abgelaufen, es wurde nichts erstellt.",
+        "preview.expiredButton": "Diese Vorschau ist abgelaufen, bitte führe den Befehl erneut aus.",
+        "preview.created": "Erstellt, die Bestätigung steht in <#{channel}>.",
+        "preview.failed": "Erstellen fehlgeschlagen, siehe <#{channel}>.",
+        "conflict.warning": "⚠️ Das überschneidet sich mit bestehenden Events am selben Ort:\n{conflicts}",
+        "conflict.entry": "- {name} {time}, Ort: {location}",
+        "conflict.more": "- … und {count} weitere",
+        "conflict.question": "Event trotzdem erstellen? (Oder wiederhole den Befehl mit `; force` am Ende.)",
+        "conflict.expired": "Diese Warnung ist abgelaufen, bitte führe den Befehl erneut aus.",
+        "button.confirm": "Bestätigen",
+        "button.createAnyway": "Trotzdem erstellen",
+        "button.cancel": "Abbrechen",
+        "button.authorOnly": "Nur wer den Befehl gesendet hat, kann entscheiden.",
+        "button.cancelled": "Abgebrochen, es wurde nichts erstellt.",
+        "button.confirmed": "Bestätigt, das Event wird erstellt …",
+        "permissions.denied": "<@{user}>, du darfst „{command}“ nicht verwenden (Recht {action} fehlt). Bitte wende dich an einen Server-Admin.",
+        "permissions.list": "Befehlsrechte dieses Servers:\n{grants}",
+        "permissions.everyone": "alle",
+        "permissions.manageServer": "Du brauchst die Berechtigung „Server verwalten“, um die Befehlsrechte zu ändern.",
+        "permissions.format": "Permissions brauchen dieses Format: grant|revoke create,edit,cancel,import|all @Rolle oder @Nutzer",
+        "permissions.unknownAction": "Unbekannte Aktion(en): {actions}. Nutze {validActions} oder all.",
+        "permissions.unknownTarget": "„{target}“ ist keine Rolle und kein Mitglied dieses Servers.",
+        "permissions.updated": "Befehlsrechte geändert:\n{grants}",
+        "permissions.failed": "Befehlsrechte konnten nicht geändert werden: {error}",
+        "scheduler.starting": "{mention} Event „{name}“ beginnt jetzt! {url}",
+    },
+}
+
+/**
+ * Storage of the languages members chose for themselves.
+ */
+export interface UserLanguageRepository {
+    getLanguage(userID: string): string | null
+    setLanguage(userID: string, language: string | null): void
+}
+
+/**
+ * `UserLanguageRepository` backed by SQLite (via `bun:sqlite`).
+ */
+export class SqliteUserLanguageRepository implements UserLanguageRepository {
+    private db: Database
+
+    constructor(db: Database) {
+        this.db = db
+        this.db.run(`CREATE TABLE IF NOT EXISTS user_languages (
+            user_id TEXT PRIMARY KEY,
+            language TEXT NOT NULL
+        )`)
+    }
+
+    getLanguage(userID: string): string | null {
+        return this.db.query<{ language: string }, [string]>("SELECT language FROM user_languages WHERE user_id = ?").get(userID)?.language ?? null
+    }
+
+    setLanguage(userID: string, language: string | null): void {
+        if (language) {
+            this.db.query("INSERT OR REPLACE INTO user_languages (user_id, language) VALUES (?, ?)").run(userID, language)
+        }
+        else {
+            this.db.query("DELETE FROM user_languages WHERE user_id = ?").run(userID)
+        }
+    }
+}
+
+export const userLanguageRepository: UserLanguageRepository = new SqliteUserLanguageRepository(database)
+
+/**
+ * Decides in which language the bot answers a member.
+ *
+ * ### Example:
+ * ```ts
+ * getLanguage("123456789012345678", "555555555555555555")
+ * // Returns: "de" if the member chose German, otherwise the guild's language
+ * ```
+ *
+ * @param guildID - The ID of the guild, `null` outside of guilds.
+ * @param userID - The ID of the member, or `null` if the answer is not meant for a single member.
+ *
+ * @returns The language code, one of `supportedLanguages`.
+ */
+export function getLanguage(guildID: string | null | undefined, userID: string | null = null): string {
+    return (userID ? userLanguageRepository.getLanguage(userID) : null) ?? getGuildSettings(guildID).language
+}
+
+/**
+ * Fills in a message template of the catalog.
+ *
+ * ### Example:
+ * ```ts
+ * translate("de", "event.notFound", { identifier: "Raid Night" })
+ * // Returns: "Kein Event gefunden für: Raid Night"
+ * ```
+ *
+ * @param language - The language code, unknown languages fall back to English.
+ * @param key - The key of the message.
+ * @param params - The values of the `{name}` placeholders.
+ *
+ * @returns The message.
+ */
+export function translate(language: string, key: MessageKey, params: Record<string, string | number> = {}): string {
+    let template = (messageCatalog[language] ?? englishMessages)[key]
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder)
+}
+
+/**
+ * Formats the time of an event for confirmations: as Discord timestamp, which every reader sees in their own timezone,
+ * followed by the time in the event's timezone.
+ *
+ * ### Example:
+ * ```ts
+ * formatEventTime(new Date("2025-06-20T16:00:00Z"), "Europe/Berlin", "en")
+ * // Returns: "<t:1750435200:F> (Fri 20 Jun 2025, 18:00 Europe/Berlin)"
+ * ```
+ *
+ * @param date - The point in time.
+ * @param timezone - The IANA timezone of the event.
+ * @param language - The language used for day and month names.
+ *
+ * @returns The formatted time.
+ */
+export function formatEventTime(date: Date, timezone: string, language: string): string {
+    let localTime = DateTime.fromJSDate(date, { zone: timezone }).setLocale(language).toFormat("ccc d LLL yyyy, HH:mm")
+    return `<t:${Math.floor(date.getTime() / 1000)}:F> (${localTime} ${timezone})`
+}
+
+/**
+ * Shows or changes the language the bot answers a member in and sends the result to a specified channel.
+ *
+ * ### Example:
+ * ```ts
+ * await configureDiscordLanguage("de", "123456789012345678", "987654321098765432", "555555555555555555");
+ * ```
+ *
+ * @param languageInfo - A language code (`en` or `de`), `reset` to use the guild's language again, or an empty string to show the current language.
+ * @param guildID - The Discord guild (server) ID.
+ * @param replyChannel - The ID of the Discord channel where the result will be posted.
+ * @param userID - The ID of the member who sent the command.
+ *
+ * @returns A `Promise<void>` that resolves once the answer was sent.
+ *
+ * @remarks
+ * - The chosen language applies in every guild, the guild's `language` setting is used for members without one.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ */
+export async function configureDiscordLanguage(languageInfo: string, guildID: string, replyChannel: string, userID: string): Promise<void> {
+    logger.info("Invoking Language: " + languageInfo)
+    let channel = client.channels.cache.get(replyChannel)
+
+    try {
+        let setting = languageInfo.trim().toLowerCase()
+        if (supportedLanguages.includes(setting) || setting == "reset") {
+            userLanguageRepository.setLanguage(userID, setting == "reset" ? null : setting)
+            logger.info(`User ${userID} set the language to ${setting}.`)
+        }
+        else if (setting != "") {
+            await (channel as TextChannel).send(translate(getLanguage(guildID, userID), "language.format", { languages: supportedLanguages.join("|") }))
+            return
+        }
+
+        let userLanguage = userLanguageRepository.getLanguage(userID)
+        let language = getLanguage(guildID, userID)
+        let answer = userLanguage
+            ? translate(language, "language.current", { user: userID, language: userLanguage })
+            : translate(language, "language.guildDefault", { user: userID, language: language })
+        await (channel as TextChannel).send({ content: answer, allowedMentions: { parse: [] } })
+
+    } catch (e) {
+        logger.error("Failed to change the language: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(translate(getLanguage(guildID, userID), "language.failed", { error: String(e) }))
+        }
+    }
+}
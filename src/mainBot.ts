@@ -1,8 +1,29 @@
-import { Client, Events, GatewayIntentBits } from 'discord.js'
+import { Client, Events, GatewayIntentBits, Partials, type Message } from 'discord.js'
 import { createLogger, format, transports } from 'winston'
 import fs from 'fs'
 import path from 'path'
-import { createNewDiscordEvent, createNewDiscordSchedule } from './eventFunctions'
+import { createNewDiscordEvent, createNewDiscordSchedule, editDiscordEvent, cancelDiscordEvent } from './eventFunctions'
+import { extractEventIdFromMessage } from './additionalFunctions'
+import { restoreScheduledPings } from './eventScheduler'
+import { startSeriesRollForward } from './recurringSeries'
+import { importDiscordSchedule, downloadImportSource, getImportFormat, type ImportSource } from './scheduleImport'
+import { exportDiscordCalendar } from './calendarExport'
+import { startHttpServer } from './httpServer'
+import type { CommandContext } from './eventStore'
+import { configureDiscordGuild, getGuildSettings, DEFAULT_GUILD_SETTINGS } from './guildSettings'
+import { authorizeCommand, manageDiscordPermissions, type PermissionAction } from './permissions'
+import { registerSlashCommands, handleInteraction } from './slashCommands'
+import { listDiscordEvents } from './eventList'
+import { startAgendaDigests } from './agendaDigest'
+import { startEventReminders, handleSubscriberAdd, handleSubscriberRemove, configureDiscordReminders } from './eventReminders'
+import { reportDiscordAttendance, handleVoiceStateUpdate, handleEventStatusUpdate } from './attendance'
+import { previewDiscordCreation, reactWithOutcome } from './eventPreview'
+import { configureDiscordLanguage } from './localization'
+import { handleMessageUpdate, handleMessageDelete } from './messageSync'
+import { saveDiscordTemplate, listDiscordTemplates, deleteDiscordTemplate, createDiscordEventFromTemplate } from './eventTemplates'
+import { changeDiscordSeries } from './seriesExceptions'
+import { startEventLifecycle, handleLifecycleStatusUpdate } from './eventLifecycle'
+import { handleWebhookEventCreate, handleWebhookEventUpdate, handleWebhookEventDelete } from './webhooks'
 
 
 // Create a new client with Intents for Discord
@@ -11,7 +32,11 @@ export const client = new Client({
         GatewayIntentBits.Guilds,
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
+        GatewayIntentBits.GuildScheduledEvents,
+        GatewayIntentBits.GuildVoiceStates,
     ],
+    // "Interested" changes of events that are not cached yet are still needed for reminders, edits of older messages for the event sync
+    partials: [Partials.GuildScheduledEvent, Partials.User, Partials.Message],
 })
 
 // If not exists, create a LogDir and Log-File
@@ -37,11 +62,48 @@ export const logger = createLogger({
 try {
     client.once(Events.ClientReady, async (readyClient) => {
         logger.info(`Logged in as ${readyClient.user.tag}`)
+        await restoreScheduledPings()
+        await startSeriesRollForward()
+        await registerSlashCommands()
+        await startAgendaDigests()
+        await startEventReminders()
+        await startEventLifecycle()
+        startHttpServer()
     });
 } catch(e) {
     logger.warn(e)
 }
 
+// Get the Event-ID from the bot confirmation a command replied to
+async function getReferencedEventID(message: Message): Promise<string | null> {
+    if (!message.reference) {
+        return null
+    }
+
+    let referencedMessage = await message.fetchReference()
+    if (referencedMessage.author.id != client.user?.id) {
+        return null
+    }
+
+    return extractEventIdFromMessage(referencedMessage.content)
+}
+
+// Commands that need a right (see permissions.ts), all others are open to everyone
+const commandActions: Record<string, PermissionAction> = {
+    "New Event": "create",
+    "New Schedule": "create",
+    "Edit Event": "edit",
+    "Cancel Event": "cancel",
+    "Delete Event": "cancel",
+    "Skip Occurrence": "edit",
+    "Move Occurrence": "edit",
+    "End Series": "cancel",
+    "Import": "import",
+    "Template Save": "create",
+    "Template Delete": "create",
+    "From Template": "create",
+}
+
 // Work with Input
 try {
     client.on(Events.MessageCreate, async (message) => {
@@ -49,9 +111,10 @@ try {
         let discordMessageLines: string[] = new Array()
         let discordMessageAttachment = ""
         let discordServerID = message.guild?.id
-        let channelSent = message.channel.id
-        let botPrefix = "!dmb "
-        var botPrefixRegEx = /!dmb /gi
+        let guildSettings = getGuildSettings(discordServerID)
+        let channelSent = guildSettings.replyChannelId ?? message.channel.id
+        let botPrefix = guildSettings.prefix + " "
+        let defaultConfigCommand = DEFAULT_GUILD_SETTINGS.prefix + " Config"
 
         const imageAttachment = message.attachments.find(att => att.contentType?.startsWith("image/"));
         if (imageAttachment) {
@@ -63,26 +126,148 @@ try {
         discordMessageLines = discordMessage.split("\n")
 
         // Check for each Line if it starts with Prefix
-        for (let line of discordMessageLines) {
+        for (let [lineIndex, line] of discordMessageLines.entries()) {
+            // The default prefix always reaches the settings, in case a custom prefix was forgotten
+            if (line.startsWith(defaultConfigCommand) && !line.startsWith(botPrefix)) {
+                line = line.replace(DEFAULT_GUILD_SETTINGS.prefix, guildSettings.prefix)
+            }
+
             if(line.startsWith(botPrefix)){    
                 // Remove Prefix
-                line = line.replace(botPrefixRegEx, "")
+                line = line.slice(botPrefix.length)
 
                 // Split up in Case-Identifyer and Data
                 let discordMessageParts: string[] = new Array()
                 discordMessageParts = line.split(": ")
+                let commandContext: CommandContext = { authorId: message.author.id, messageId: message.id, commandText: line }
+
+                // Template commands name the template before the colon, e.g. "Template Save Raid: ..."
+                let templateCommand = discordMessageParts[0]!.match(/^(Template Save|Template Delete|From Template) (.+)$/)
+                let commandName = templateCommand ? templateCommand[1]! : discordMessageParts[0]!
+                let templateName = templateCommand ? templateCommand[2]!.trim() : ""
+
+                // Check the author's rights before running the command
+                let commandAction = commandActions[commandName]
+                if (commandAction && !await authorizeCommand(message.member, commandAction, message.channel.id, commandName)) {
+                    message.react('⛔')
+                    continue
+                }
                 
-                switch(discordMessageParts[0]) {
-                    // In Case "New Event" create a new one-time Discord Event
+                switch(commandName) {
+                    // In Case "New Event" create a new one-time Discord Event (after the author confirmed the preview, if enabled)
                     case "New Event": {
-                        createNewDiscordEvent(discordMessageParts[1]!, discordMessageAttachment, discordServerID!, channelSent!)
-                        message.react('✅')
+                        let outcome = guildSettings.preview
+                            ? await previewDiscordCreation("New Event", discordMessageParts[1] ?? "", discordMessageAttachment, discordServerID!, channelSent!, commandContext, message)
+                            : await createNewDiscordEvent(discordMessageParts[1] ?? "", discordMessageAttachment, discordServerID!, channelSent!, commandContext)
+                        await reactWithOutcome(message, outcome)
                         break
                     }
-                    // In Case "New Schedule" create a new Discord Event with Input
+                    // In Case "New Schedule" create a new Discord Event with Input (after the author confirmed the preview, if enabled)
                     case "New Schedule": {
-                        createNewDiscordSchedule(discordMessageParts[1]!, discordMessageAttachment, discordServerID!, channelSent!)
-                        message.react('✅')
+                        let outcome = guildSettings.preview
+                            ? await previewDiscordCreation("New Schedule", discordMessageParts[1] ?? "", discordMessageAttachment, discordServerID!, channelSent!, commandContext, message)
+                            : await createNewDiscordSchedule(discordMessageParts[1] ?? "", discordMessageAttachment, discordServerID!, channelSent!, commandContext)
+                        await reactWithOutcome(message, outcome)
+                        break
+                    }
+                    // In Case "From Template" create an event or schedule from a saved template and a start time (with preview, if enabled)
+                    case "From Template": {
+                        let outcome = await createDiscordEventFromTemplate(templateName, discordMessageParts.slice(1).join(": "), discordMessageAttachment, discordServerID!, channelSent!, commandContext, message)
+                        await reactWithOutcome(message, outcome)
+                        break
+                    }
+                    // In Case "Template Save", "Template List" or "Template Delete" manage the server's event templates
+                    case "Template Save": {
+                        await saveDiscordTemplate(templateName, discordMessageParts.slice(1).join(": "), discordMessageAttachment, discordServerID!, channelSent!, message.author.id)
+                        break
+                    }
+                    case "Template List": {
+                        await listDiscordTemplates(discordServerID!, message.channel.id, message.author.id)
+                        break
+                    }
+                    case "Template Delete": {
+                        await deleteDiscordTemplate(templateName, discordServerID!, channelSent!, message.author.id)
+                        break
+                    }
+                    // In Case "Edit Event" change an existing Discord Event, identified by ID, name or the replied-to confirmation
+                    case "Edit Event": {
+                        let referencedEventID = await getReferencedEventID(message)
+                        let outcome = await editDiscordEvent(discordMessageParts[1] ?? "", discordMessageAttachment, discordServerID!, channelSent!, referencedEventID, message.author.id)
+                        await reactWithOutcome(message, outcome)
+                        break
+                    }
+                    // In Case "Cancel Event" or "Delete Event" remove an existing Discord Event or a whole series
+                    case "Cancel Event":
+                    case "Delete Event": {
+                        let referencedEventID = await getReferencedEventID(message)
+                        let outcome = await cancelDiscordEvent(discordMessageParts[1] ?? "", discordServerID!, channelSent!, message.author.id, referencedEventID, discordMessageParts[0] == "Delete Event")
+                        await reactWithOutcome(message, outcome)
+                        break
+                    }
+                    // In Case "Skip Occurrence", "Move Occurrence" or "End Series" record an exception of a recurring schedule
+                    case "Skip Occurrence":
+                    case "Move Occurrence":
+                    case "End Series": {
+                        let referencedEventID = await getReferencedEventID(message)
+                        let seriesChange = ({ "Skip Occurrence": "skip", "Move Occurrence": "move", "End Series": "end" } as const)[commandName]
+                        let outcome = await changeDiscordSeries(seriesChange, discordMessageParts.slice(1).join(": "), discordServerID!, channelSent!, message.author.id, referencedEventID)
+                        await reactWithOutcome(message, outcome)
+                        break
+                    }
+                    // In Case "Import" create all events of the attached files and the lines below the command
+                    case "Import": {
+                        let importSources: ImportSource[] = []
+                        for (let attachment of message.attachments.values()) {
+                            let format = getImportFormat(attachment.name)
+                            if (format) {
+                                importSources.push(await downloadImportSource(attachment.name, attachment.url, format))
+                            }
+                        }
+
+                        let importBlock = discordMessageLines.slice(lineIndex + 1).join("\n")
+                        if (importBlock.trim() != "") {
+                            importSources.push({ name: "message", format: "text", content: importBlock })
+                        }
+
+                        // The report replaces the reaction, every following line belongs to the import
+                        await importDiscordSchedule(importSources, discordMessageAttachment, discordServerID!, channelSent!, { authorId: message.author.id, messageId: message.id })
+                        return
+                    }
+                    // In Case "Export" reply with all events of the server as iCalendar file
+                    case "Export": {
+                        let outcome = await exportDiscordCalendar(discordServerID!, channelSent!)
+                        await reactWithOutcome(message, outcome)
+                        break
+                    }
+                    // In Case "List" show the upcoming events, optionally filtered (answered in the channel of the command)
+                    case "List": {
+                        await listDiscordEvents(discordMessageParts[1] ?? "", discordServerID!, message.channel.id, message.author.id)
+                        break
+                    }
+                    // In Case "Attendance" report who was interested in (and in the voice channel of) an event or series
+                    case "Attendance": {
+                        let outcome = await reportDiscordAttendance(discordMessageParts[1] ?? "", discordServerID!, channelSent!)
+                        await reactWithOutcome(message, outcome)
+                        break
+                    }
+                    // In Case "Reminders" show or change whether the author gets reminder DMs (answered in the channel of the command)
+                    case "Reminders": {
+                        await configureDiscordReminders(discordMessageParts[1] ?? "", discordServerID!, message.channel.id, message.author.id)
+                        break
+                    }
+                    // In Case "Language" show or change the language the bot answers the author in (answered in the channel of the command)
+                    case "Language": {
+                        await configureDiscordLanguage(discordMessageParts[1] ?? "", discordServerID!, message.channel.id, message.author.id)
+                        break
+                    }
+                    // In Case "Config" show or change the settings of the server (answered in the channel of the command)
+                    case "Config": {
+                        await configureDiscordGuild(discordMessageParts[1] ?? "", discordServerID!, message.channel.id, message.member)
+                        break
+                    }
+                    // In Case "Permissions" show, grant or revoke the command rights of roles and users
+                    case "Permissions": {
+                        await manageDiscordPermissions(discordMessageParts[1] ?? "", discordServerID!, message.channel.id, message.member)
                         break
                     }
                     default: {
@@ -98,5 +283,28 @@ try {
     logger.error(e)
 }
 
+// Keep the events of a message in sync when its commands are edited or the message is deleted
+client.on(Events.MessageUpdate, handleMessageUpdate)
+client.on(Events.MessageDelete, handleMessageDelete)
+
+// Track who is interested in an event, for the reminder DMs
+client.on(Events.GuildScheduledEventUserAdd, handleSubscriberAdd)
+client.on(Events.GuildScheduledEventUserRemove, handleSubscriberRemove)
+
+// Record who is in the voice channel of active events and who was interested when they ended
+client.on(Events.VoiceStateUpdate, handleVoiceStateUpdate)
+client.on(Events.GuildScheduledEventUpdate, handleEventStatusUpdate)
+
+// Start and complete the events created by the bot, and post a summary when they ended
+client.on(Events.GuildScheduledEventUpdate, handleLifecycleStatusUpdate)
+
+// Tell the webhooks registered through the HTTP API about created, started and cancelled events
+client.on(Events.GuildScheduledEventCreate, handleWebhookEventCreate)
+client.on(Events.GuildScheduledEventUpdate, handleWebhookEventUpdate)
+client.on(Events.GuildScheduledEventDelete, handleWebhookEventDelete)
+
+// Work with Slash Commands (/event ...)
+client.on(Events.InteractionCreate, handleInteraction)
+
 await client.login(process.env.DISCORD_BOT_TOKEN)
 
@@ -0,0 +1,276 @@
+import { TextChannel, type Guild, type Message, type PartialMessage, type OmitPartialGroupDMChannel } from "discord.js"
+import { logger, client } from "./mainBot"
+import { extractEventdetails, formatFieldErrors } from "./EventDetails"
+import { createNewDiscordEvent, createNewDiscordSchedule, editDiscordEventFromDetails, isCancellable, cancelScheduledEvent } from "./eventFunctions"
+import { eventRepository, type StoredEvent } from "./eventStore"
+import { endSeries } from "./recurringSeries"
+import { untrackScheduledEvent } from "./eventScheduler"
+import { getGuildSettings } from "./guildSettings"
+import { isAuthorized, type PermissionAction } from "./permissions"
+import { splitForceFlag } from "./conflictDetection"
+import { getLanguage, translate, type MessageKey } from "./localization"
+import type { CreationCommand } from "./eventPreview"
+
+interface CreationLine {
+    command: CreationCommand
+    eventInfo: string
+    // The line without prefix, as stored in the `eventRepository`
+    commandText: string
+}
+
+// The events one `New Event` or `New Schedule` line created: a single event, a native recurring event or a bot-managed series
+interface CreatedEventGroup {
+    command: CreationCommand
+    commandText: string
+    events: StoredEvent[]
+    seriesId: string | null
+}
+
+const creationCommands: CreationCommand[] = ["New Event", "New Schedule"]
+
+/**
+ * Finds the `New Event` and `New Schedule` lines of a message.
+ *
+ * @param content - The content of the message.
+ * @param prefix - The command prefix of the guild, without the trailing space.
+ *
+ * @returns The lines in the order of the message.
+ */
+function extractCreationLines(content: string, prefix: string): CreationLine[] {
+    let creationLines: CreationLine[] = []
+
+    for (let line of content.split("\n")) {
+        if (!line.startsWith(prefix + " ")) {
+            continue
+        }
+
+        let commandText = line.slice(prefix.length + 1)
+        let command = creationCommands.find(command => commandText.startsWith(command + ": "))
+        if (command) {
+            creationLines.push({ command: command, eventInfo: commandText.slice(command.length + 2), commandText: commandText })
+        }
+    }
+
+    return creationLines
+}
+
+/**
+ * Groups the stored events of a message by the line that created them.
+ *
+ * @param messageID - The ID of the message.
+ *
+ * @returns The groups that still have upcoming events, in the order they were created.
+ */
+function listCreatedEventGroups(messageID: string): CreatedEventGroup[] {
+    let groups = new Map<string, CreatedEventGroup>()
+
+    for (let storedEvent of eventRepository.listEventsByMessage(messageID)) {
+        let groupKey = storedEvent.seriesId ?? storedEvent.eventId
+        let group = groups.get(groupKey)
+        if (!group) {
+            let command: CreationCommand = storedEvent.seriesId || storedEvent.details.interval != "" ? "New Schedule" : "New Event"
+            group = { command: command, commandText: storedEvent.commandText, events: [], seriesId: storedEvent.seriesId }
+            groups.set(groupKey, group)
+        }
+        group.events.push(storedEvent)
+    }
+
+    return [...groups.values()].filter(group => group.seriesId
+        ? eventRepository.getSeries(group.seriesId) != null
+        : group.events.some(storedEvent => storedEvent.status == "scheduled"))
+}
+
+/**
+ * Cancels the events a line created: a single event is cancelled, recurring events are deleted and bot-managed series ended.
+ *
+ * @param guild - The Discord guild of the events.
+ * @param group - The events of the line.
+ *
+ * @returns A `Promise<void>` that resolves once all events were handled.
+ */
+async function cancelCreatedEventGroup(guild: Guild, group: CreatedEventGroup): Promise<void> {
+    if (group.seriesId) {
+        await endSeries(group.seriesId)
+        return
+    }
+
+    for (let storedEvent of group.events.filter(storedEvent => storedEvent.status == "scheduled")) {
+        let event = await guild.scheduledEvents.fetch(storedEvent.eventId).catch(() => null)
+        if (!event) {
+            untrackScheduledEvent(storedEvent.eventId)
+            eventRepository.updateEventStatus(storedEvent.eventId, "deleted")
+            continue
+        }
+        // Events that already started are left to end on their own
+        if (!isCancellable(event, false)) {
+            continue
+        }
+
+        await cancelScheduledEvent(event, false)
+        logger.info(`Event ${storedEvent.eventId} cancelled, its command line was removed from message ${storedEvent.messageId}.`)
+    }
+}
+
+/**
+ * Keeps the events of a message in sync when its `New Event` and `New Schedule` lines are edited, and replies with what changed.
+ *
+ * ### Example:
+ * ```ts
+ * client.on(Events.MessageUpdate, handleMessageUpdate)
+ * ```
+ *
+ * @param oldMessage - The message before the edit, partial if it was not cached.
+ * @param newMessage - The edited message.
+ *
+ * @returns A `Promise<void>` that resolves once the events were updated and the reply was sent.
+ *
+ * @remarks
+ * - The lines are compared with the command texts stored in the `eventRepository` for this message, unchanged lines keep their events.
+ * - A changed `New Event` line edits its event in place, so the interested members are kept.
+ *   A changed `New Schedule` line ends the old schedule and creates a new one.
+ * - Removed lines cancel their events, added lines create events like a new command (without preview).
+ * - Lines that were already in the message before the edit (e.g. failed ones) are not run again.
+ * - Each change needs the author's `create`, `edit` or `cancel` right, denied changes are listed in the reply.
+ *   A changed `New Event` line whose event can no longer be edited (e.g. it already started) needs `cancel` and `create`.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and listed in the reply when possible.
+ */
+export async function handleMessageUpdate(oldMessage: OmitPartialGroupDMChannel<Message | PartialMessage>, newMessage: OmitPartialGroupDMChannel<Message>): Promise<void> {
+    try {
+        if (!newMessage.inGuild() || newMessage.author.bot || (!oldMessage.partial && oldMessage.content == newMessage.content)) {
+            return
+        }
+
+        let guildSettings = getGuildSettings(newMessage.guildId)
+        let newLines = extractCreationLines(newMessage.content, guildSettings.prefix)
+        let oldLines = oldMessage.partial ? [] : extractCreationLines(oldMessage.content, guildSettings.prefix)
+        let storedCommandTexts = new Set(eventRepository.listEventsByMessage(newMessage.id).map(storedEvent => storedEvent.commandText))
+
+        let removedGroups = listCreatedEventGroups(newMessage.id).filter(group => !newLines.some(line => line.commandText == group.commandText))
+        let addedLines = newLines.filter(line => !storedCommandTexts.has(line.commandText) && !oldLines.some(oldLine => oldLine.commandText == line.commandText))
+        if (removedGroups.length == 0 && addedLines.length == 0) {
+            return
+        }
+
+        logger.info(`Message ${newMessage.id} edited: ${addedLines.length} new or changed line(s), ${removedGroups.length} removed or changed line(s).`)
+        let language = getLanguage(newMessage.guildId, newMessage.author.id)
+        let replyChannel = guildSettings.replyChannelId ?? newMessage.channel.id
+        let attachment = newMessage.attachments.find(attachment => attachment.contentType?.startsWith("image/"))?.url ?? ""
+        let isAllowed = (action: PermissionAction) => isAuthorized(newMessage.member, action)
+        let changes: string[] = []
+
+        for (let line of addedLines) {
+            try {
+                // A changed line replaces the events of the first removed line of the same command
+                let groupIndex = removedGroups.findIndex(group => group.command == line.command)
+                let replacedGroup = groupIndex >= 0 ? removedGroups.splice(groupIndex, 1)[0]! : null
+
+                let requiredActions: PermissionAction[] = replacedGroup ? (line.command == "New Event" ? ["edit"] : ["cancel", "create"]) : ["create"]
+                let missingAction = requiredActions.find(action => !isAllowed(action))
+                if (missingAction) {
+                    changes.push(translate(language, "sync.notAllowed", { command: line.commandText, action: missingAction }))
+                    continue
+                }
+
+                if (replacedGroup) {
+                    let { details: eventDetails, errors } = await extractEventdetails(splitForceFlag(line.eventInfo).eventInfo, line.command, guildSettings)
+                    if (errors.length > 0) {
+                        changes.push(translate(language, "sync.invalid", { command: line.commandText, errors: formatFieldErrors(errors) }))
+                        continue
+                    }
+
+                    let storedEvent = replacedGroup.events.find(storedEvent => storedEvent.status == "scheduled")
+                    let event = line.command == "New Event" && storedEvent ? await newMessage.guild.scheduledEvents.fetch(storedEvent.eventId).catch(() => null) : null
+                    if (event && !event.recurrenceRule && event.isScheduled()) {
+                        let editedEvent = await editDiscordEventFromDetails(newMessage.guild, event, eventDetails)
+                        eventRepository.saveEvent({ ...eventRepository.getEvent(editedEvent.id)!, commandText: line.commandText, updatedAt: new Date() })
+                        changes.push(translate(language, "sync.updated", { name: editedEvent.name, url: editedEvent.url }))
+                        continue
+                    }
+
+                    // The event can no longer be edited in place, so it is replaced like a changed schedule
+                    let missingReplaceAction = (["cancel", "create"] as PermissionAction[]).find(action => !isAllowed(action))
+                    if (missingReplaceAction) {
+                        changes.push(translate(language, "sync.notAllowed", { command: line.commandText, action: missingReplaceAction }))
+                        continue
+                    }
+
+                    await cancelCreatedEventGroup(newMessage.guild, replacedGroup)
+                    changes.push(translate(language, "sync.cancelled", { name: replacedGroup.events[0]!.details.eventName }))
+                }
+
+                let createEvent = line.command == "New Schedule" ? createNewDiscordSchedule : createNewDiscordEvent
+                let commandContext = { authorId: newMessage.author.id, messageId: newMessage.id, commandText: line.commandText }
+                // A replaced line already passed the conflict check when it was first created
+                let outcome = await createEvent(line.eventInfo, attachment, newMessage.guildId, replyChannel, commandContext, replacedGroup != null)
+                let messageKey: MessageKey = outcome == "created" ? "sync.created" : outcome == "pending" ? "sync.pending" : "sync.createFailed"
+                changes.push(translate(language, messageKey, { command: line.commandText, channel: replyChannel }))
+
+            } catch (e) {
+                logger.error(`Failed to sync line "${line.commandText}": ` + e)
+                changes.push(translate(language, "sync.failed", { command: line.commandText, error: String(e) }))
+            }
+        }
+
+        for (let group of removedGroups) {
+            if (!isAllowed("cancel")) {
+                changes.push(translate(language, "sync.notAllowed", { command: group.commandText, action: "cancel" }))
+                continue
+            }
+            await cancelCreatedEventGroup(newMessage.guild, group)
+            changes.push(translate(language, "sync.cancelled", { name: group.events[0]!.details.eventName }))
+        }
+
+        await newMessage.reply({ content: translate(language, "sync.edited") + "\n" + changes.join("\n"), allowedMentions: { parse: [] } })
+
+    } catch (e) {
+        logger.error("Failed to sync edited message: " + e)
+    }
+}
+
+/**
+ * Cancels the events of a deleted message and posts what was cancelled in the reply channel of the events.
+ *
+ * ### Example:
+ * ```ts
+ * client.on(Events.MessageDelete, handleMessageDelete)
+ * ```
+ *
+ * @param message - The deleted message, usually partial.
+ *
+ * @returns A `Promise<void>` that resolves once the events were cancelled.
+ *
+ * @remarks
+ * - Events that already started are left to end on their own, bot-managed series are ended.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged.
+ */
+export async function handleMessageDelete(message: OmitPartialGroupDMChannel<Message | PartialMessage>): Promise<void> {
+    try {
+        if (!message.guildId) {
+            return
+        }
+
+        let groups = listCreatedEventGroups(message.id)
+        if (groups.length == 0) {
+            return
+        }
+
+        logger.info(`Message ${message.id} deleted, cancelling the events of ${groups.length} line(s).`)
+        let guild = await client.guilds.fetch(message.guildId)
+        let language = getLanguage(message.guildId)
+        let changes: string[] = []
+        for (let group of groups) {
+            await cancelCreatedEventGroup(guild, group)
+            changes.push(translate(language, "sync.cancelled", { name: group.events[0]!.details.eventName }))
+        }
+
+        let channel = client.channels.cache.get(groups[0]!.events[0]!.channelId)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send({ content: translate(language, "sync.deleted") + "\n" + changes.join("\n"), allowedMentions: { parse: [] } })
+        }
+
+    } catch (e) {
+        logger.error("Failed to sync deleted message: " + e)
+    }
+}
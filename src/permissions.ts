@@ -0,0 +1,263 @@
+import { PermissionFlagsBits, TextChannel, type GuildMember } from "discord.js"
+import type { Database } from "bun:sqlite"
+import { logger, client } from "./mainBot"
+import { database } from "./database"
+import { getLanguage, translate } from "./localization"
+
+export type PermissionAction = "create" | "edit" | "cancel" | "import"
+export type PermissionTargetType = "role" | "user"
+
+export const permissionActions: PermissionAction[] = ["create", "edit", "cancel", "import"]
+
+export interface PermissionGrant {
+    guildId: string
+    action: PermissionAction
+    targetType: PermissionTargetType
+    targetId: string
+}
+
+/**
+ * Storage of the roles and users that were granted a command right in a guild.
+ */
+export interface PermissionRepository {
+    listGrants(guildID: string): PermissionGrant[]
+    addGrant(grant: PermissionGrant): void
+    removeGrant(grant: PermissionGrant): void
+}
+
+/**
+ * `PermissionRepository` backed by SQLite (via `bun:sqlite`).
+ */
+export class SqlitePermissionRepository implements PermissionRepository {
+    private db: Database
+
+    constructor(db: Database) {
+        this.db = db
+        this.db.run(`CREATE TABLE IF NOT EXISTS permission_grants (
+            guild_id TEXT NOT NULL,
+            action TEXT NOT NULL,
+            target_type TEXT NOT NULL,
+            target_id TEXT NOT NULL,
+            PRIMARY KEY (guild_id, action, target_type, target_id)
+        )`)
+    }
+
+    listGrants(guildID: string): PermissionGrant[] {
+        return this.db.query<{ guild_id: string, action: PermissionAction, target_type: PermissionTargetType, target_id: string }, [string]>(
+            "SELECT * FROM permission_grants WHERE guild_id = ? ORDER BY action"
+        ).all(guildID).map(row => ({
+            guildId: row.guild_id,
+            action: row.action,
+            targetType: row.target_type,
+            targetId: row.target_id,
+        }))
+    }
+
+    addGrant(grant: PermissionGrant): void {
+        this.db.query("INSERT OR IGNORE INTO permission_grants (guild_id, action, target_type, target_id) VALUES (?, ?, ?, ?)")
+            .run(grant.guildId, grant.action, grant.targetType, grant.targetId)
+    }
+
+    removeGrant(grant: PermissionGrant): void {
+        this.db.query("DELETE FROM permission_grants WHERE guild_id = ? AND action = ? AND target_type = ? AND target_id = ?")
+            .run(grant.guildId, grant.action, grant.targetType, grant.targetId)
+    }
+}
+
+export const permissionRepository: PermissionRepository = new SqlitePermissionRepository(database)
+
+/**
+ * Checks whether a member may use the commands of an action.
+ *
+ * ### Example:
+ * ```ts
+ * if (isAuthorized(message.member, "cancel")) {
+ *     await cancelDiscordEvent(...)
+ * }
+ * ```
+ *
+ * @param member - The guild member who sent the command.
+ * @param action - The action the command belongs to.
+ *
+ * @returns `true` if the member may use the command; otherwise, `false`.
+ *
+ * @remarks
+ * - As long as nobody was granted an action in a guild, every member may use it (the behaviour before permissions existed).
+ * - Once an action was granted, only the granted roles and users may use it.
+ * - Members with the "Manage Server" permission may always use every command.
+ */
+export function isAuthorized(member: GuildMember | null, action: PermissionAction): boolean {
+    if (!member) {
+        return false
+    }
+    if (member.permissions.has(PermissionFlagsBits.ManageGuild)) {
+        return true
+    }
+
+    let grants = permissionRepository.listGrants(member.guild.id).filter(grant => grant.action == action)
+    if (grants.length == 0) {
+        return true
+    }
+
+    return grants.some(grant => grant.targetType == "user" ? grant.targetId == member.id : member.roles.cache.has(grant.targetId))
+}
+
+/**
+ * Checks whether a member may use the commands of an action and sends a denial if not.
+ *
+ * ### Example:
+ * ```ts
+ * if (!await authorizeCommand(message.member, "create", message.channel.id, "New Event")) {
+ *     return
+ * }
+ * ```
+ *
+ * @param member - The guild member who sent the command.
+ * @param action - The action the command belongs to.
+ * @param replyChannel - The ID of the channel where the denial will be posted.
+ * @param commandName - The name of the command, used in the denial and the log.
+ *
+ * @returns A `Promise` resolving to `true` if the member may use the command; otherwise, `false`.
+ *
+ * @remarks
+ * - Blocked attempts are logged with the user, guild and command.
+ * - The denial uses the member's language (see `getLanguage`).
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger` and `isAuthorized`.
+ */
+export async function authorizeCommand(member: GuildMember | null, action: PermissionAction, replyChannel: string, commandName: string): Promise<boolean> {
+    if (isAuthorized(member, action)) {
+        return true
+    }
+
+    logger.error(`User ${member?.user.tag} (${member?.id}) is not allowed to use "${commandName}" in guild ${member?.guild.id}.`)
+    let channel = client.channels.cache.get(replyChannel)
+    if (channel && channel.isTextBased()) {
+        let language = getLanguage(member?.guild.id, member?.id ?? null)
+        await (channel as TextChannel).send(translate(language, "permissions.denied", { user: member?.id ?? "", command: commandName, action: action }))
+    }
+
+    return false
+}
+
+/**
+ * Formats the grants of a guild for the `Permissions` command.
+ *
+ * @param guildID - The ID of the guild.
+ * @param language - The language of the list.
+ *
+ * @returns One line per action.
+ */
+function formatGrants(guildID: string, language: string): string {
+    let grants = permissionRepository.listGrants(guildID)
+
+    return permissionActions.map(action => {
+        let targets = grants.filter(grant => grant.action == action).map(grant => grant.targetType == "role" ? `<@&${grant.targetId}>` : `<@${grant.targetId}>`)
+        return `${action}: ${targets.length > 0 ? targets.join(", ") : translate(language, "permissions.everyone")}`
+    }).join("\n")
+}
+
+/**
+ * Shows, grants or revokes the command rights of a guild and sends the result to a specified channel.
+ *
+ * ### Example:
+ * ```ts
+ * await manageDiscordPermissions(
+ *   "grant create,edit @Organizers",
+ *   "123456789012345678",
+ *   "987654321098765432",
+ *   message.member
+ * );
+ * ```
+ *
+ * @param permissionInfo - `"grant|revoke <actions> <role or user>"`, or an empty string to only show the rights.
+ *   - Actions: `create` (New Event, New Schedule), `edit` (Edit Event), `cancel` (Cancel Event, Delete Event), `import` (Import),
+ *     comma-separated or `all`.
+ *   - The role or user is given as mention or ID.
+ * @param guildID - The Discord guild (server) ID the rights belong to.
+ * @param replyChannel - The ID of the Discord channel where the rights or errors will be posted.
+ * @param member - The member who sent the command, changing rights requires the "Manage Server" permission.
+ *
+ * @returns A `Promise<void>` that resolves once the rights were shown or changed.
+ *
+ * @remarks
+ * - See `isAuthorized` for how the grants are evaluated.
+ * - Answers use the language of the member who sent the command.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger` and the `permissionRepository`.
+ */
+export async function manageDiscordPermissions(permissionInfo: string, guildID: string, replyChannel: string, member: GuildMember | null): Promise<void> {
+    logger.info("Invoking Permissions: " + permissionInfo)
+    let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID, member?.id ?? null)
+
+    let permissionParts = permissionInfo.trim().split(/\s+/).filter(part => part != "")
+
+    try {
+        if (permissionParts.length == 0) {
+            await (channel as TextChannel).send({ content: translate(language, "permissions.list", { grants: formatGrants(guildID, language) }), allowedMentions: { parse: [] } })
+            return
+        }
+
+        if (!member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+            logger.error(`User ${member?.id} is not allowed to change the command rights of guild ${guildID}.`)
+            await (channel as TextChannel).send(translate(language, "permissions.manageServer"))
+            return
+        }
+
+        let [operation, actionList, target] = permissionParts
+        operation = operation!.toLowerCase()
+        if ((operation != "grant" && operation != "revoke") || !actionList || !target) {
+            logger.error("Invalid Permissions command: " + permissionInfo)
+            await (channel as TextChannel).send(translate(language, "permissions.format"))
+            return
+        }
+
+        let actions = actionList.toLowerCase() == "all" ? permissionActions : actionList.toLowerCase().split(",") as PermissionAction[]
+        let invalidActions = actions.filter(action => !permissionActions.includes(action))
+        if (invalidActions.length > 0) {
+            logger.error("Unknown permission actions: " + invalidActions.join(", "))
+            await (channel as TextChannel).send(translate(language, "permissions.unknownAction", { actions: invalidActions.join(", "), validActions: permissionActions.join(", ") }))
+            return
+        }
+
+        // Resolve the target as role first, then as user
+        let guild = await client.guilds.fetch(guildID)
+        let targetID = target.replace(/^<@[&!]?(\d+)>$/, "$1")
+        let targetType: PermissionTargetType | null = null
+        if (!target.startsWith("<@") || target.startsWith("<@&")) {
+            targetType = await guild.roles.fetch(targetID).catch(() => null) ? "role" : null
+        }
+        if (!targetType && !target.startsWith("<@&")) {
+            targetType = await guild.members.fetch(targetID).catch(() => null) ? "user" : null
+        }
+        if (!targetType) {
+            logger.error("Unknown permission target: " + target)
+            await (channel as TextChannel).send(translate(language, "permissions.unknownTarget", { target: target }))
+            return
+        }
+
+        for (let action of actions) {
+            let grant: PermissionGrant = { guildId: guildID, action: action, targetType: targetType, targetId: targetID }
+            if (operation == "grant") {
+                permissionRepository.addGrant(grant)
+            }
+            else {
+                permissionRepository.removeGrant(grant)
+            }
+        }
+
+        logger.info(`Command rights of guild ${guildID} changed: ${operation} ${actions.join(",")} ${targetType} ${targetID}`)
+        await (channel as TextChannel).send({ content: translate(language, "permissions.updated", { grants: formatGrants(guildID, language) }), allowedMentions: { parse: [] } })
+
+    } catch (e) {
+        logger.error("Failed to change command rights: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(translate(language, "permissions.failed", { error: String(e) }))
+        }
+    }
+}
@@ -0,0 +1,479 @@
+import { DateTime } from "luxon"
+import { GuildScheduledEventRecurrenceRuleFrequency, type GuildScheduledEventRecurrenceRuleOptions } from "discord.js"
+import { logger } from "./mainBot"
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly"
+
+export interface NthWeekday {
+    // 1 = first, 2 = second, ..., -1 = last
+    n: number
+    // ISO weekday as used by luxon: 1 = Monday, ..., 7 = Sunday
+    weekday: number
+}
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency
+    interval: number
+    byWeekday: number[]
+    byNWeekday: NthWeekday[]
+    byMonthDay: number[]
+    byMonth: number[]
+    count: number | null
+    until: Date | null
+}
+
+const weekdayCodes = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"]
+const weekdayNames = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"]
+
+// Upper bound for the number of periods looked at while expanding, protects against rules that never match
+const MAX_EXPANSION_PERIODS = 5000
+
+/**
+ * Parses the interval field of a schedule into a `RecurrenceRule`.
+ *
+ * ### Example:
+ * ```ts
+ * parseRecurrenceRule("RRULE:FREQ=MONTHLY;BYDAY=2SA;COUNT=6", 1, startTime, "Europe/Berlin");
+ * // Returns: monthly rule on the 2nd Saturday, ending after 6 occurrences
+ *
+ * parseRecurrenceRule("monthly", 1, startTime, "Europe/Berlin");
+ * // Returns: monthly rule on the same nth weekday as startTime (e.g. "every 2nd Saturday")
+ * ```
+ *
+ * @param interval - Either a keyword (`"daily"`, `"weekly"`, `"monthly"`, `"yearly"`) or an RFC 5545 RRULE
+ *   (with or without the `"RRULE:"` prefix). Supported RRULE parts: `FREQ`, `INTERVAL`, `BYDAY` (incl. `2SA`, `-1FR`),
+ *   `BYMONTHDAY`, `BYMONTH`, `COUNT` and `UNTIL`.
+ * @param frequency - The repeat interval used together with a keyword (every `frequency` days/weeks/months/years).
+ * @param startTime - The start of the first occurrence, keyword rules take their weekday/day/month from it.
+ * @param tz - The IANA timezone of the event.
+ *
+ * @returns The parsed `RecurrenceRule`, or `null` if the input is not a valid rule.
+ *
+ * @remarks
+ * - `"monthly"` repeats on the nth weekday of the start date, `"yearly"` on its month and day.
+ * - Errors are logged using `logger.error`.
+ *
+ * @throws No exceptions are thrown; the function returns `null` on error.
+ *
+ * @dependencies
+ * Requires `luxon` and a `logger` utility.
+ */
+export function parseRecurrenceRule(interval: string, frequency: number, startTime: Date, tz: string): RecurrenceRule | null {
+    let ruleText = interval.trim()
+    if (/^(RRULE:)?FREQ=/i.test(ruleText)) {
+        return parseRRule(ruleText.replace(/^RRULE:/i, ""))
+    }
+
+    if (!Number.isInteger(frequency) || frequency < 1) {
+        logger.error("Invalid schedule frequency: " + frequency)
+        return null
+    }
+
+    let start = DateTime.fromJSDate(startTime, { zone: tz })
+    let rule: RecurrenceRule = {
+        frequency: "daily",
+        interval: frequency,
+        byWeekday: [],
+        byNWeekday: [],
+        byMonthDay: [],
+        byMonth: [],
+        count: null,
+        until: null,
+    }
+
+    switch (ruleText.toLowerCase()) {
+        case "daily": {
+            return rule
+        }
+        case "weekly": {
+            return { ...rule, frequency: "weekly", byWeekday: [start.weekday] }
+        }
+        case "monthly": {
+            return { ...rule, frequency: "monthly", byNWeekday: [{ n: Math.ceil(start.day / 7), weekday: start.weekday }] }
+        }
+        case "yearly": {
+            return { ...rule, frequency: "yearly", byMonth: [start.month], byMonthDay: [start.day] }
+        }
+        default: {
+            logger.error("Unknown schedule interval: " + interval)
+            return null
+        }
+    }
+}
+
+/**
+ * Parses the parts of an RFC 5545 RRULE value (without the `"RRULE:"` prefix).
+ *
+ * @param ruleText - The rule, e.g. `"FREQ=WEEKLY;INTERVAL=3;BYDAY=TU,TH;UNTIL=20251231T000000Z"`.
+ *
+ * @returns The parsed `RecurrenceRule`, or `null` if a part is invalid or unsupported.
+ */
+function parseRRule(ruleText: string): RecurrenceRule | null {
+    let rule: RecurrenceRule = {
+        frequency: "daily",
+        interval: 1,
+        byWeekday: [],
+        byNWeekday: [],
+        byMonthDay: [],
+        byMonth: [],
+        count: null,
+        until: null,
+    }
+
+    for (let part of ruleText.split(";").filter(part => part != "")) {
+        let [key, value] = part.split("=")
+        if (!key || !value) {
+            logger.error("Invalid RRULE part: " + part)
+            return null
+        }
+
+        switch (key.toUpperCase()) {
+            case "FREQ": {
+                let frequency = value.toLowerCase()
+                if (!["daily", "weekly", "monthly", "yearly"].includes(frequency)) {
+                    logger.error("Unsupported RRULE frequency: " + value)
+                    return null
+                }
+                rule.frequency = frequency as RecurrenceFrequency
+                break
+            }
+            case "INTERVAL": {
+                rule.interval = +value
+                break
+            }
+            case "BYDAY": {
+                for (let day of value.toUpperCase().split(",")) {
+                    let match = day.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/)
+                    if (!match) {
+                        logger.error("Invalid RRULE weekday: " + day)
+                        return null
+                    }
+                    let weekday = weekdayCodes.indexOf(match[2]!) + 1
+                    if (match[1]) {
+                        rule.byNWeekday.push({ n: +match[1], weekday: weekday })
+                    }
+                    else {
+                        rule.byWeekday.push(weekday)
+                    }
+                }
+                break
+            }
+            case "BYMONTHDAY": {
+                rule.byMonthDay = value.split(",").map(day => +day)
+                break
+            }
+            case "BYMONTH": {
+                rule.byMonth = value.split(",").map(month => +month)
+                break
+            }
+            case "COUNT": {
+                rule.count = +value
+                break
+            }
+            case "UNTIL": {
+                let until = DateTime.fromISO(value, { zone: "utc" })
+                if (!until.isValid) {
+                    logger.error("Invalid RRULE end date: " + value)
+                    return null
+                }
+                rule.until = until.toJSDate()
+                break
+            }
+            default: {
+                logger.error("Unsupported RRULE part: " + key)
+                return null
+            }
+        }
+    }
+
+    let numbers = [rule.interval, rule.count ?? 1, ...rule.byMonthDay, ...rule.byMonth, ...rule.byNWeekday.map(day => day.n)]
+    if (!ruleText.toUpperCase().includes("FREQ=") || numbers.some(value => !Number.isInteger(value))
+        || rule.interval < 1 || (rule.count != null && rule.count < 1)
+        || rule.byMonth.some(month => month < 1 || month > 12)
+        || rule.byMonthDay.some(day => day == 0 || Math.abs(day) > 31)
+        || rule.byNWeekday.some(day => day.n == 0 || Math.abs(day.n) > 5)) {
+        logger.error("Invalid RRULE: " + ruleText)
+        return null
+    }
+
+    return rule
+}
+
+/**
+ * Expands a recurrence rule into the start times of its occurrences.
+ *
+ * ### Example:
+ * ```ts
+ * const next = expandOccurrences(rule, firstStart, "Europe/Berlin", new Date(), 3);
+ * // Returns: the next three start times after now
+ * ```
+ *
+ * @param rule - The `RecurrenceRule` to expand.
+ * @param firstStart - The start of the first occurrence (the RRULE's DTSTART). Its local time of day is kept for all occurrences.
+ * @param tz - The IANA timezone the local time of day refers to.
+ * @param after - Only occurrences starting strictly after this time are returned.
+ * @param limit - The maximum number of occurrences to return.
+ *
+ * @returns Up to `limit` occurrence start times in chronological order.
+ *
+ * @remarks
+ * - `COUNT` is counted from `firstStart`, so occurrences before `after` still use up the count.
+ * - Days that do not exist in a month (e.g. the 31st in April, or a 5th Saturday) are skipped, as in RFC 5545.
+ *
+ * @dependencies
+ * Requires `luxon` for timezone-aware date arithmetic.
+ */
+export function expandOccurrences(rule: RecurrenceRule, firstStart: Date, tz: string, after: Date, limit: number): Date[] {
+    let start = DateTime.fromJSDate(firstStart, { zone: tz })
+    let occurrences: Date[] = []
+    let occurrenceCount = 0
+
+    for (let period = 0; period < MAX_EXPANSION_PERIODS && occurrences.length < limit; period++) {
+        for (let candidate of getPeriodCandidates(rule, start, period)) {
+            if (candidate < start) {
+                continue
+            }
+
+            let candidateDate = candidate.toJSDate()
+            occurrenceCount++
+            if ((rule.count != null && occurrenceCount > rule.count) || (rule.until && candidateDate > rule.until)) {
+                return occurrences
+            }
+
+            if (candidateDate > after) {
+                occurrences.push(candidateDate)
+                if (occurrences.length >= limit) {
+                    break
+                }
+            }
+        }
+    }
+
+    return occurrences
+}
+
+/**
+ * Lists the candidate occurrences within one period (day, week, month or year) of a rule.
+ *
+ * @param rule - The `RecurrenceRule` to expand.
+ * @param start - The first occurrence in the event's timezone.
+ * @param period - The number of intervals since the first occurrence.
+ *
+ * @returns The sorted candidates of that period, with the time of day of `start`.
+ */
+function getPeriodCandidates(rule: RecurrenceRule, start: DateTime, period: number): DateTime[] {
+    let timeOfDay = { hour: start.hour, minute: start.minute, second: 0, millisecond: 0 }
+    let candidates: DateTime[] = []
+
+    switch (rule.frequency) {
+        case "daily": {
+            candidates.push(start.plus({ days: period * rule.interval }))
+            break
+        }
+        case "weekly": {
+            let weekStart = start.startOf("week").plus({ weeks: period * rule.interval })
+            let weekdays = rule.byWeekday.length > 0 ? rule.byWeekday : [start.weekday]
+            candidates = weekdays.map(weekday => weekStart.set({ weekday: weekday as 1 | 2 | 3 | 4 | 5 | 6 | 7 }))
+            break
+        }
+        case "monthly": {
+            let month = start.startOf("month").plus({ months: period * rule.interval })
+            candidates = getMonthCandidates(rule, start, month)
+            break
+        }
+        case "yearly": {
+            let year = start.startOf("year").plus({ years: period * rule.interval })
+            let months = rule.byMonth.length > 0 ? rule.byMonth : [start.month]
+            candidates = months.flatMap(month => getMonthCandidates(rule, start, year.set({ month: month })))
+            break
+        }
+    }
+
+    return candidates
+        .filter(candidate => rule.byMonth.length == 0 || rule.byMonth.includes(candidate.month))
+        .filter(candidate => rule.frequency != "daily" || rule.byWeekday.length == 0 || rule.byWeekday.includes(candidate.weekday))
+        .map(candidate => candidate.set(timeOfDay))
+        .filter((candidate, index, all) => all.findIndex(other => other.toMillis() == candidate.toMillis()) == index)
+        .sort((a, b) => a.toMillis() - b.toMillis())
+}
+
+/**
+ * Lists the candidate days of a single month according to the rule's `BYDAY`/`BYMONTHDAY` parts.
+ *
+ * @param rule - The `RecurrenceRule` to expand.
+ * @param start - The first occurrence, used as default day of month.
+ * @param month - Any point in the month to look at.
+ *
+ * @returns The matching days of that month (days that do not exist are left out).
+ */
+function getMonthCandidates(rule: RecurrenceRule, start: DateTime, month: DateTime): DateTime[] {
+    let firstDay = month.startOf("month")
+    let daysInMonth = firstDay.daysInMonth!
+    let candidates: DateTime[] = []
+
+    for (let nthWeekday of rule.byNWeekday) {
+        let day: number
+        if (nthWeekday.n > 0) {
+            let firstMatch = 1 + ((nthWeekday.weekday - firstDay.weekday + 7) % 7)
+            day = firstMatch + (nthWeekday.n - 1) * 7
+        }
+        else {
+            let lastDay = firstDay.set({ day: daysInMonth })
+            let lastMatch = daysInMonth - ((lastDay.weekday - nthWeekday.weekday + 7) % 7)
+            day = lastMatch + (nthWeekday.n + 1) * 7
+        }
+        if (day >= 1 && day <= daysInMonth) {
+            candidates.push(firstDay.set({ day: day }))
+        }
+    }
+
+    for (let monthDay of rule.byMonthDay) {
+        let day = monthDay > 0 ? monthDay : daysInMonth + monthDay + 1
+        if (day >= 1 && day <= daysInMonth) {
+            candidates.push(firstDay.set({ day: day }))
+        }
+    }
+
+    // Plain weekdays in a monthly/yearly rule mean every such weekday of the month
+    for (let weekday of rule.byWeekday) {
+        for (let day = 1; day <= daysInMonth; day++) {
+            if (firstDay.set({ day: day }).weekday == weekday) {
+                candidates.push(firstDay.set({ day: day }))
+            }
+        }
+    }
+
+    if (rule.byNWeekday.length == 0 && rule.byMonthDay.length == 0 && rule.byWeekday.length == 0 && start.day <= daysInMonth) {
+        candidates.push(firstDay.set({ day: start.day }))
+    }
+
+    return candidates
+}
+
+/**
+ * Converts a recurrence rule into Discord's native recurrence rule, if Discord can express it.
+ *
+ * ### Example:
+ * ```ts
+ * toDiscordRecurrenceRule(weeklyRule, startTime, "Europe/Berlin");
+ * // Returns: { frequency: Weekly, interval: 1, startAt: startTime, byWeekday: [Saturday] }
+ * ```
+ *
+ * @param rule - The `RecurrenceRule` to convert.
+ * @param startTime - The start of the first occurrence.
+ * @param tz - The IANA timezone of the event.
+ *
+ * @returns The Discord recurrence rule options, or `null` if the bot has to materialize the occurrences itself.
+ *
+ * @remarks
+ * - Discord only reliably supports daily rules and weekly rules with an interval of 1 or 2 on the start's weekday.
+ * - Rules with `COUNT`/`UNTIL`, monthly and yearly rules are never native, since the Discord API rejects or ignores them.
+ */
+export function toDiscordRecurrenceRule(rule: RecurrenceRule, startTime: Date, tz: string): GuildScheduledEventRecurrenceRuleOptions | null {
+    if (rule.count != null || rule.until || rule.byMonth.length > 0 || rule.byMonthDay.length > 0 || rule.byNWeekday.length > 0) {
+        return null
+    }
+
+    let startWeekday = DateTime.fromJSDate(startTime, { zone: tz }).weekday
+
+    if (rule.frequency == "daily" && rule.byWeekday.length == 0) {
+        return {
+            frequency: GuildScheduledEventRecurrenceRuleFrequency.Daily,
+            interval: rule.interval,
+            startAt: startTime.toISOString(),
+            byWeekday: [],
+        }
+    }
+
+    if (rule.frequency == "weekly" && rule.interval <= 2 && rule.byWeekday.every(weekday => weekday == startWeekday)) {
+        return {
+            frequency: GuildScheduledEventRecurrenceRuleFrequency.Weekly,
+            interval: rule.interval,
+            startAt: startTime,
+            // Discord counts weekdays from Monday = 0
+            byWeekday: [startWeekday - 1],
+        }
+    }
+
+    return null
+}
+
+/**
+ * Builds a short human readable summary of a recurrence rule.
+ *
+ * ### Example:
+ * ```ts
+ * describeRecurrenceRule(rule);
+ * // Returns: "every 2 months on the 2nd Saturday, 6 times"
+ * ```
+ *
+ * @param rule - The `RecurrenceRule` to describe.
+ *
+ * @returns The summary, used in confirmations and logs.
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+    let unit = { daily: "day", weekly: "week", monthly: "month", yearly: "year" }[rule.frequency]
+    let summary = rule.interval == 1 ? `every ${unit}` : `every ${rule.interval} ${unit}s`
+
+    let days = [
+        ...rule.byNWeekday.map(day => `the ${formatOrdinal(day.n)} ${weekdayNames[day.weekday - 1]}`),
+        ...rule.byWeekday.map(weekday => weekdayNames[weekday - 1]!),
+        ...rule.byMonthDay.map(day => day < 0 ? `the ${formatOrdinal(day)} day` : `the ${formatOrdinal(day)}`),
+    ]
+    if (days.length > 0) {
+        summary += " on " + days.join(", ")
+    }
+    if (rule.byMonth.length > 0) {
+        summary += " in " + rule.byMonth.map(month => DateTime.fromObject({ month: month }).toFormat("MMMM")).join(", ")
+    }
+    if (rule.count != null) {
+        summary += `, ${rule.count} times`
+    }
+    if (rule.until) {
+        summary += `, until ${rule.until.toISOString()}`
+    }
+
+    return summary
+}
+
+/**
+ * Formats a (possibly negative) position as an English ordinal, e.g. `2` as `"2nd"` and `-1` as `"last"`.
+ *
+ * @param n - The position, negative values count from the end.
+ *
+ * @returns The ordinal text.
+ */
+function formatOrdinal(n: number): string {
+    if (n < 0) {
+        return n == -1 ? "last" : `${formatOrdinal(-n)} to last`
+    }
+
+    let suffix = "th"
+    if (n % 100 < 11 || n % 100 > 13) {
+        suffix = { 1: "st", 2: "nd", 3: "rd" }[n % 10] ?? "th"
+    }
+    return n + suffix
+}
+
+/**
+ * Serializes a recurrence rule back into an RFC 5545 RRULE value (without the `"RRULE:"` prefix).
+ *
+ * @param rule - The `RecurrenceRule` to serialize.
+ *
+ * @returns The RRULE, e.g. `"FREQ=MONTHLY;INTERVAL=1;BYDAY=2SA"`.
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+    let parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`]
+    let byDay = [
+        ...rule.byNWeekday.map(day => day.n + weekdayCodes[day.weekday - 1]!),
+        ...rule.byWeekday.map(weekday => weekdayCodes[weekday - 1]!),
+    ]
+
+    if (byDay.length > 0) parts.push("BYDAY=" + byDay.join(","))
+    if (rule.byMonthDay.length > 0) parts.push("BYMONTHDAY=" + rule.byMonthDay.join(","))
+    if (rule.byMonth.length > 0) parts.push("BYMONTH=" + rule.byMonth.join(","))
+    if (rule.count != null) parts.push("COUNT=" + rule.count)
+    if (rule.until) parts.push("UNTIL=" + DateTime.fromJSDate(rule.until, { zone: "utc" }).toFormat("yyyyMMdd'T'HHmmss'Z'"))
+
+    return parts.join(";")
+}
@@ -0,0 +1,557 @@
+import { GuildScheduledEventPrivacyLevel, type Guild, type GuildScheduledEvent } from "discord.js"
+import { randomUUID } from "crypto"
+import { logger, client } from "./mainBot"
+import type { EventDetails } from "./EventDetails"
+import { expandOccurrences, formatRecurrenceRule, parseRecurrenceRule, type RecurrenceRule } from "./recurrenceEngine"
+import { trackScheduledEvent, untrackScheduledEvent, refreshScheduledEvent } from "./eventScheduler"
+import { eventRepository, recordCreatedEvent, type CommandContext, type RecurringSeries, type SeriesException } from "./eventStore"
+import { resolveEventLocation, locationEventOptions } from "./eventLocation"
+
+// Number of upcoming occurrences the bot keeps created for each bot-managed series
+const LOOKAHEAD = +(process.env.RECURRENCE_LOOKAHEAD || 3)
+const ROLL_FORWARD_INTERVAL = 60 * 60 * 1000
+
+// The last queued change of each series, so roll forwards and exceptions of the same series never run side by side
+const seriesQueues = new Map<string, Promise<unknown>>()
+
+export interface SeriesOccurrence {
+    // Start as the rule produces it, identifies the occurrence in exceptions
+    originalStart: Date
+    startTime: Date
+    endTime: Date
+    // The skip or reschedule exception of this occurrence, if any
+    exception: SeriesException | null
+}
+
+/**
+ * Runs a change of a series after the earlier changes of the same series finished.
+ *
+ * @param series - The series, updated in place with its stored state once it is its turn.
+ * @param task - The change, e.g. a roll forward.
+ *
+ * @returns A `Promise` resolving to the result of `task`.
+ *
+ * @remarks
+ * - A change waiting for its turn would otherwise save an outdated `lastOccurrence` and create occurrences twice.
+ * - An unsaved series (e.g. while a recurring Discord event is converted) keeps its state.
+ *
+ * @throws An `Error` if the series was ended while the change waited, and errors of `task`. The following changes still run.
+ */
+async function queueSeriesChange<T>(series: RecurringSeries, task: () => Promise<T>): Promise<T> {
+    let previous = seriesQueues.get(series.seriesId) ?? Promise.resolve()
+    let wasSaved = eventRepository.getSeries(series.seriesId) != null
+    let result = previous.then(() => {
+        let storedSeries = eventRepository.getSeries(series.seriesId)
+        if (wasSaved && !storedSeries) {
+            throw new Error(`Series ${series.seriesId} was ended in the meantime.`)
+        }
+        Object.assign(series, storedSeries ?? {})
+        return task()
+    })
+    let finished = result.catch(() => null)
+    seriesQueues.set(series.seriesId, finished)
+    finished.then(() => {
+        if (seriesQueues.get(series.seriesId) == finished) {
+            seriesQueues.delete(series.seriesId)
+        }
+    })
+
+    return result
+}
+
+/**
+ * Creates a bot-managed series for a recurrence rule Discord cannot express natively and materializes its next occurrences.
+ *
+ * ### Example:
+ * ```ts
+ * const rule = parseRecurrenceRule("RRULE:FREQ=MONTHLY;BYDAY=2SA", 1, eventDetails.startTime, eventDetails.timezone)!
+ * const events = await createMaterializedSeries(guild, eventDetails, rule, "", "987654321098765432")
+ * // Returns: the next RECURRENCE_LOOKAHEAD single events of the series
+ * ```
+ *
+ * @param guild - The Discord guild the series belongs to.
+ * @param eventDetails - The details of the first occurrence, its duration is used for every occurrence.
+ * @param rule - The `RecurrenceRule` describing when the series repeats.
+ * @param discordMessageAttachment - Optional image URL used for every occurrence.
+ * @param replyChannel - The ID of the channel the command came from, used for live pings.
+ * @param commandContext - Who sent which command, stored with the series and every occurrence.
+
+ * @param exceptions - Exceptions the series starts with, e.g. when a recurring Discord event is converted into a series.
+ *
+ * @returns A `Promise` resolving to the created single events in chronological order.
+ *
+ * @remarks
+ * - Only the next `RECURRENCE_LOOKAHEAD` (default 3) occurrences exist as Discord events at any time.
+ *   `rollForwardAllSeries` creates the following ones as earlier occurrences pass.
+ * - Every created occurrence is registered with the live ping scheduler and recorded in the `eventRepository`.
+ *
+ * @throws Errors from the Discord API are passed to the caller.
+ *
+ * @dependencies
+ * - Requires the recurrence engine, `logger` and the `eventRepository`.
+ */
+export async function createMaterializedSeries(guild: Guild, eventDetails: EventDetails, rule: RecurrenceRule, discordMessageAttachment: string, replyChannel: string, commandContext: CommandContext | null, exceptions: SeriesException[] = []): Promise<GuildScheduledEvent[]> {
+    let series = buildMaterializedSeries(guild, eventDetails, rule, discordMessageAttachment, replyChannel, commandContext)
+    series.exceptions = exceptions
+
+    eventRepository.saveSeries(series)
+    let createdEvents = await queueSeriesChange(series, () => rollForwardSeries(guild, series))
+    logger.info(`Bot-managed series ${series.seriesId} created with rule ${series.rule}`)
+
+    return createdEvents
+}
+
+/**
+ * Builds a bot-managed series without saving it or creating any occurrence.
+ *
+ * @param guild - The Discord guild the series belongs to.
+ * @param eventDetails - The details of the first occurrence.
+ * @param rule - The `RecurrenceRule` describing when the series repeats.
+ * @param discordMessageAttachment - Optional image URL used for every occurrence.
+ * @param replyChannel - The ID of the channel used for live pings.
+ * @param commandContext - Who sent which command, or `null` if unknown.
+ *
+ * @returns The `RecurringSeries`, the exception functions (e.g. `skipSeriesOccurrence`) save and materialize it.
+ */
+export function buildMaterializedSeries(guild: Guild, eventDetails: EventDetails, rule: RecurrenceRule, discordMessageAttachment: string, replyChannel: string, commandContext: CommandContext | null): RecurringSeries {
+    return {
+        seriesId: randomUUID(),
+        guildId: guild.id,
+        channelId: replyChannel,
+        authorId: commandContext?.authorId ?? "",
+        messageId: commandContext?.messageId ?? null,
+        commandText: commandContext?.commandText ?? "",
+        eventName: eventDetails.eventName,
+        eventLocation: eventDetails.eventLocation,
+        description: eventDetails.description,
+        image: discordMessageAttachment,
+        timezone: eventDetails.timezone,
+        durationMs: eventDetails.endTime.getTime() - eventDetails.startTime.getTime(),
+        firstStart: eventDetails.startTime.toISOString(),
+        rule: formatRecurrenceRule(rule),
+        // Just before the first start, so the first occurrence itself is materialized
+        lastOccurrence: new Date(eventDetails.startTime.getTime() - 1).toISOString(),
+        exceptions: [],
+    }
+}
+
+/**
+ * Creates the missing upcoming occurrences of a bot-managed series, so that `LOOKAHEAD` of them exist.
+ *
+ * @param guild - The Discord guild the series belongs to.
+ * @param series - The series to roll forward.
+ *
+ * @returns A `Promise` resolving to the newly created events.
+ *
+ * @remarks
+ * - Occurrences that were deleted, cancelled or already completed no longer count as upcoming.
+ *   An occurrence missing in Discord counts as completed once its end passed, otherwise as deleted.
+ * - A series without upcoming and without further occurrences (COUNT/UNTIL reached) is removed.
+ * - The series is saved after every created occurrence, so an error halfway does not create it again on the next run.
+ * - Only called through `queueSeriesChange`.
+ */
+async function rollForwardSeries(guild: Guild, series: RecurringSeries): Promise<GuildScheduledEvent[]> {
+    let scheduledEvents = await guild.scheduledEvents.fetch()
+    let upcomingCount = 0
+
+    // Update the status of the occurrences that passed or were removed in Discord
+    for (let storedEvent of eventRepository.listEventsBySeries(series.seriesId).filter(storedEvent => storedEvent.status == "scheduled")) {
+        let event = scheduledEvents.get(storedEvent.eventId)
+        if (!event) {
+            // Discord also drops completed events from the list, so a missing occurrence whose end passed took place
+            eventRepository.updateEventStatus(storedEvent.eventId, storedEvent.details.endTime.getTime() <= Date.now() ? "completed" : "deleted")
+        }
+        else if (event.isCanceled()) {
+            eventRepository.updateEventStatus(storedEvent.eventId, "cancelled")
+        }
+        else if (event.isCompleted()) {
+            eventRepository.updateEventStatus(storedEvent.eventId, "completed")
+        }
+        else {
+            upcomingCount++
+        }
+    }
+
+    let rule = parseRecurrenceRule(series.rule, 1, new Date(series.firstStart), series.timezone)
+    if (!rule) {
+        logger.error(`Series ${series.seriesId} has an invalid rule: ${series.rule}`)
+        return []
+    }
+
+    let after = new Date(Math.max(new Date(series.lastOccurrence).getTime(), Date.now()))
+    let missingCount = Math.max(LOOKAHEAD - upcomingCount, 0)
+    // Skipped occurrences are passed over, so the lookahead is filled with the following ones
+    let occurrences = missingCount == 0 ? [] : expandSeriesOccurrences(series, after, missingCount + (series.exceptions?.length ?? 0), true)
+    let createdEvents: GuildScheduledEvent[] = []
+    let commandContext: CommandContext = { authorId: series.authorId, messageId: series.messageId, commandText: series.commandText }
+
+    // Resolved once per roll forward, so a deleted channel or missing permission is reported before any occurrence is created
+    let location = occurrences.length > 0 ? await resolveEventLocation(guild, series.eventLocation) : null
+
+    for (let occurrence of occurrences) {
+        if (createdEvents.length >= missingCount) {
+            break
+        }
+        series.lastOccurrence = occurrence.originalStart.toISOString()
+        if (occurrence.exception?.type == "skip") {
+            continue
+        }
+
+        let { startTime, endTime } = occurrence
+        let event = await guild.scheduledEvents.create({
+            name: series.eventName,
+            scheduledStartTime: startTime,
+            scheduledEndTime: endTime,
+            privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
+            ...locationEventOptions(location!),
+            description: series.description,
+            image: series.image || null,
+        })
+
+        let occurrenceDetails: EventDetails = {
+            eventName: series.eventName,
+            startTime: startTime,
+            endTime: endTime,
+            timezone: series.timezone,
+            eventLocation: series.eventLocation,
+            description: series.description,
+            interval: "RRULE:" + series.rule,
+            frequency: 1,
+        }
+        recordCreatedEvent(event.id, guild.id, series.channelId, occurrenceDetails, commandContext, series.seriesId)
+        eventRepository.saveSeries(series)
+
+        createdEvents.push(event)
+        trackScheduledEvent(event, series.channelId, series.timezone)
+        logger.info(`Occurrence of series ${series.seriesId} created for ${startTime.toISOString()}`)
+    }
+
+    if (upcomingCount == 0 && createdEvents.length == 0) {
+        logger.info(`Series ${series.seriesId} has no further occurrences, stop tracking.`)
+        eventRepository.deleteSeries(series.seriesId)
+    }
+    else {
+        eventRepository.saveSeries(series)
+    }
+
+    return createdEvents
+}
+
+/**
+ * Rolls every bot-managed series forward, creating the next occurrences of series whose earlier occurrences passed.
+ *
+ * @returns A `Promise<void>` that resolves once all series were checked.
+ *
+ * @throws No exceptions are thrown to the caller; errors per series are logged.
+ */
+export async function rollForwardAllSeries(): Promise<void> {
+    for (let series of eventRepository.listSeries()) {
+        try {
+            let guild = await client.guilds.fetch(series.guildId)
+            await queueSeriesChange(series, () => rollForwardSeries(guild, series))
+        } catch (e) {
+            logger.error(`Failed to roll forward series ${series.seriesId}: ` + e)
+        }
+    }
+}
+
+/**
+ * Rolls the stored bot-managed series forward after a restart and keeps doing so every hour.
+ *
+ * ### Example:
+ * ```ts
+ * client.once(Events.ClientReady, async () => {
+ *     await startSeriesRollForward()
+ * })
+ * ```
+ *
+ * @returns A `Promise<void>` that resolves after the first roll forward.
+ *
+ * @remarks
+ * - A roll forward waits for the skip, move and end commands of the same series that are running (see `queueSeriesChange`).
+ */
+export async function startSeriesRollForward(): Promise<void> {
+    await rollForwardAllSeries()
+    setInterval(rollForwardAllSeries, ROLL_FORWARD_INTERVAL)
+    logger.info(`Tracking ${eventRepository.listSeries().length} bot-managed series.`)
+}
+
+/**
+ * Finds the bot-managed series an event belongs to.
+ *
+ * @param eventID - The ID of a scheduled event.
+ *
+ * @returns The `RecurringSeries`, or `undefined` if the event is not an occurrence of a bot-managed series.
+ */
+export function findSeriesByEvent(eventID: string): RecurringSeries | undefined {
+    let seriesID = eventRepository.getEvent(eventID)?.seriesId
+    return (seriesID && eventRepository.getSeries(seriesID)) || undefined
+}
+
+/**
+ * Lists all bot-managed series of a guild.
+ *
+ * @param guildID - The ID of the guild.
+ *
+ * @returns The guild's `RecurringSeries`.
+ */
+export function listSeries(guildID: string): RecurringSeries[] {
+    return eventRepository.listSeries(guildID)
+}
+
+/**
+ * Ends a bot-managed series by deleting its upcoming occurrences and forgetting the series.
+ *
+ * @param seriesID - The ID of the series to end.
+ *
+ * @returns A `Promise` resolving to the deleted events.
+ *
+ * @throws Errors from the Discord API are passed to the caller.
+ */
+export async function endSeries(seriesID: string): Promise<GuildScheduledEvent[]> {
+    let series = eventRepository.getSeries(seriesID)
+    if (!series) {
+        return []
+    }
+
+    let guild = await client.guilds.fetch(series.guildId)
+    return queueSeriesChange(series, async () => {
+        let deletedEvents: GuildScheduledEvent[] = []
+
+        for (let storedEvent of eventRepository.listEventsBySeries(seriesID).filter(storedEvent => storedEvent.status == "scheduled")) {
+            let event = await guild.scheduledEvents.fetch(storedEvent.eventId).catch(() => null)
+            if (event) {
+                deletedEvents.push(await event.delete())
+            }
+            untrackScheduledEvent(storedEvent.eventId)
+            eventRepository.updateEventStatus(storedEvent.eventId, "deleted")
+        }
+
+        eventRepository.deleteSeries(seriesID)
+        logger.info(`Series ${seriesID} ended, ${deletedEvents.length} upcoming occurrence(s) deleted.`)
+
+        return deletedEvents
+    })
+}
+
+/**
+ * Expands a bot-managed series into its occurrences, with its skip and reschedule exceptions applied.
+ *
+ * ### Example:
+ * ```ts
+ * const occurrences = expandSeriesOccurrences(series, new Date(), 5)
+ * // Returns: the next 5 occurrences, a rescheduled one with its new start and end
+ * ```
+ *
+ * @param series - The bot-managed series.
+ * @param after - Only occurrences whose original start is strictly after this time are returned.
+ * @param limit - The maximum number of occurrences to expand.
+ * @param includeSkipped - `true` to keep skipped occurrences (marked by their exception), `false` to leave them out.
+ *
+ * @returns The occurrences in the order of their original start.
+ */
+export function expandSeriesOccurrences(series: RecurringSeries, after: Date, limit: number, includeSkipped: boolean = false): SeriesOccurrence[] {
+    let rule = parseRecurrenceRule(series.rule, 1, new Date(series.firstStart), series.timezone)
+    if (!rule) {
+        return []
+    }
+
+    let exceptions = new Map((series.exceptions ?? []).filter(exception => exception.type != "end").map(exception => [exception.originalStart, exception]))
+
+    return expandOccurrences(rule, new Date(series.firstStart), series.timezone, after, limit)
+        .map(originalStart => {
+            let exception = exceptions.get(originalStart.toISOString()) ?? null
+            let isRescheduled = exception?.type == "reschedule"
+            return {
+                originalStart: originalStart,
+                startTime: isRescheduled ? new Date(exception!.newStart!) : originalStart,
+                endTime: isRescheduled ? new Date(exception!.newEnd!) : new Date(originalStart.getTime() + series.durationMs),
+                exception: exception,
+            }
+        })
+        .filter(occurrence => includeSkipped || occurrence.exception?.type != "skip")
+}
+
+/**
+ * Records an exception of a series, replacing an earlier exception of the same occurrence.
+ *
+ * @param series - The series, changed in place and saved.
+ * @param exception - The new exception.
+ */
+function recordSeriesException(series: RecurringSeries, exception: SeriesException): void {
+    series.exceptions = [
+        ...(series.exceptions ?? []).filter(existing => exception.type == "end" || existing.type == "end" || existing.originalStart != exception.originalStart),
+        exception,
+    ]
+    eventRepository.saveSeries(series)
+}
+
+/**
+ * Fetches the Discord event that was already created for an occurrence of a series.
+ *
+ * @param guild - The Discord guild of the series.
+ * @param series - The bot-managed series.
+ * @param startTime - The current start of the occurrence.
+ *
+ * @returns A `Promise` resolving to the event, or `null` if the occurrence was not created yet.
+ */
+async function fetchOccurrenceEvent(guild: Guild, series: RecurringSeries, startTime: Date): Promise<GuildScheduledEvent | null> {
+    let storedEvent = eventRepository.listEventsBySeries(series.seriesId)
+        .find(storedEvent => storedEvent.status == "scheduled" && storedEvent.details.startTime.getTime() == startTime.getTime())
+
+    return storedEvent ? await guild.scheduledEvents.fetch(storedEvent.eventId).catch(() => null) : null
+}
+
+/**
+ * Skips a single occurrence of a bot-managed series.
+ *
+ * ### Example:
+ * ```ts
+ * await skipSeriesOccurrence(guild, series, occurrence, "555555555555555555")
+ * ```
+ *
+ * @param guild - The Discord guild of the series.
+ * @param series - The bot-managed series.
+ * @param occurrence - The occurrence to skip (see `expandSeriesOccurrences`).
+ * @param authorID - The ID of the user who asked for the change, stored with the exception.
+ *
+ * @returns A `Promise<void>` that resolves once the exception was recorded and the series rolled forward.
+ *
+ * @remarks
+ * - An occurrence that was already created is deleted in Discord, the next one is created instead.
+ *
+ * @throws Errors from the Discord API are passed to the caller.
+ */
+export async function skipSeriesOccurrence(guild: Guild, series: RecurringSeries, occurrence: SeriesOccurrence, authorID: string): Promise<void> {
+    return queueSeriesChange(series, async () => {
+        let event = await fetchOccurrenceEvent(guild, series, occurrence.startTime)
+
+        recordSeriesException(series, {
+            type: "skip",
+            originalStart: occurrence.originalStart.toISOString(),
+            newStart: null,
+            newEnd: null,
+            authorId: authorID,
+            createdAt: new Date().toISOString(),
+        })
+
+        if (event) {
+            await event.delete()
+            untrackScheduledEvent(event.id)
+            eventRepository.updateEventStatus(event.id, "deleted")
+        }
+        logger.info(`Occurrence ${occurrence.originalStart.toISOString()} of series ${series.seriesId} skipped.`)
+
+        await rollForwardSeries(guild, series)
+    })
+}
+
+/**
+ * Moves a single occurrence of a bot-managed series to another time.
+ *
+ * ### Example:
+ * ```ts
+ * await rescheduleSeriesOccurrence(guild, series, occurrence, newStart, newEnd, "555555555555555555")
+ * ```
+ *
+ * @param guild - The Discord guild of the series.
+ * @param series - The bot-managed series.
+ * @param occurrence - The occurrence to move (see `expandSeriesOccurrences`).
+ * @param newStart - The new start of the occurrence.
+ * @param newEnd - The new end of the occurrence.
+ * @param authorID - The ID of the user who asked for the change, stored with the exception.
+ *
+ * @returns A `Promise` resolving to the edited Discord event, or `null` if the occurrence was not created yet and gets the new times when it is.
+ *
+ * @throws Errors from the Discord API are passed to the caller.
+ */
+export async function rescheduleSeriesOccurrence(guild: Guild, series: RecurringSeries, occurrence: SeriesOccurrence, newStart: Date, newEnd: Date, authorID: string): Promise<GuildScheduledEvent | null> {
+    return queueSeriesChange(series, async () => {
+        let event = await fetchOccurrenceEvent(guild, series, occurrence.startTime)
+
+        recordSeriesException(series, {
+            type: "reschedule",
+            originalStart: occurrence.originalStart.toISOString(),
+            newStart: newStart.toISOString(),
+            newEnd: newEnd.toISOString(),
+            authorId: authorID,
+            createdAt: new Date().toISOString(),
+        })
+        logger.info(`Occurrence ${occurrence.originalStart.toISOString()} of series ${series.seriesId} moved to ${newStart.toISOString()}.`)
+
+        if (!event) {
+            // Creates the occurrence right away if it is within the lookahead
+            await rollForwardSeries(guild, series)
+            return null
+        }
+
+        let editedEvent = await event.edit({ scheduledStartTime: newStart, scheduledEndTime: newEnd })
+        refreshScheduledEvent(editedEvent)
+        let storedEvent = eventRepository.getEvent(editedEvent.id)
+        if (storedEvent) {
+            eventRepository.updateEventDetails(editedEvent.id, { ...storedEvent.details, startTime: newStart, endTime: newEnd })
+        }
+
+        return editedEvent
+    })
+}
+
+/**
+ * Ends a bot-managed series at a date by adding an `UNTIL` to its rule.
+ *
+ * ### Example:
+ * ```ts
+ * const deletedEvents = await endSeriesAt(guild, series, new Date("2025-12-31T22:59:59Z"), "555555555555555555")
+ * ```
+ *
+ * @param guild - The Discord guild of the series.
+ * @param series - The bot-managed series.
+ * @param until - The last moment an occurrence may start at.
+ * @param authorID - The ID of the user who asked for the change, stored with the exception.
+ *
+ * @returns A `Promise` resolving to the already created occurrences after `until` that were deleted.
+ *
+ * @remarks
+ * - A `COUNT` that ends the series earlier is kept, otherwise it is replaced by the `UNTIL`.
+ * - A series without occurrences left is removed on the following roll forward.
+ *
+ * @throws An `Error` if the rule is invalid, and errors from the Discord API.
+ */
+export async function endSeriesAt(guild: Guild, series: RecurringSeries, until: Date, authorID: string): Promise<GuildScheduledEvent[]> {
+    return queueSeriesChange(series, async () => {
+        let firstStart = new Date(series.firstStart)
+        let rule = parseRecurrenceRule(series.rule, 1, firstStart, series.timezone)
+        if (!rule) {
+            throw new Error(`Series ${series.seriesId} has an invalid rule: ${series.rule}`)
+        }
+
+        let lastCountedStart = rule.count != null ? expandOccurrences(rule, firstStart, series.timezone, new Date(firstStart.getTime() - 1), rule.count).at(-1) : undefined
+        if (!lastCountedStart || lastCountedStart > until) {
+            series.rule = formatRecurrenceRule({ ...rule, count: null, until: rule.until && rule.until < until ? rule.until : until })
+        }
+
+        recordSeriesException(series, {
+            type: "end",
+            originalStart: until.toISOString(),
+            newStart: null,
+            newEnd: null,
+            authorId: authorID,
+            createdAt: new Date().toISOString(),
+        })
+
+        let deletedEvents: GuildScheduledEvent[] = []
+        for (let storedEvent of eventRepository.listEventsBySeries(series.seriesId).filter(storedEvent => storedEvent.status == "scheduled" && storedEvent.details.startTime > until)) {
+            let event = await guild.scheduledEvents.fetch(storedEvent.eventId).catch(() => null)
+            if (event) {
+                deletedEvents.push(await event.delete())
+            }
+            untrackScheduledEvent(storedEvent.eventId)
+            eventRepository.updateEventStatus(storedEvent.eventId, "deleted")
+        }
+        logger.info(`Series ${series.seriesId} ends at ${until.toISOString()}, ${deletedEvents.length} later occurrence(s) deleted.`)
+
+        await rollForwardSeries(guild, series)
+
+        return deletedEvents
+    })
+}
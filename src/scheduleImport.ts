@@ -0,0 +1,450 @@
+import { TextChannel } from "discord.js"
+import { DateTime } from "luxon"
+import { logger, client } from "./mainBot"
+import { eventDetailsFromFields, splitEventFields, formatFieldError } from "./EventDetails"
+import { createDiscordEventFromDetails, createDiscordScheduleFromDetails, formatDateNotes } from "./eventFunctions"
+import type { CommandContext } from "./eventStore"
+import { getGuildSettings } from "./guildSettings"
+
+export type ImportFormat = "csv" | "ics" | "text"
+
+export interface ImportSource {
+    name: string
+    format: ImportFormat
+    content: string
+    // Why the content could not be read (e.g. a failed download), reported instead of its rows
+    error?: string
+}
+
+export interface ImportRow {
+    source: string
+    row: number
+    fields: string[]
+}
+
+// Discord rejects messages longer than 2000 characters
+const MAX_MESSAGE_LENGTH = 2000
+const DOWNLOAD_TIMEOUT = 30 * 1000
+
+// Column order of CSV files and plain text tables, as in the "New Schedule" command
+const importColumns = ["name", "start", "end", "timezone", "location", "description", "interval", "frequency"]
+
+/**
+ * Determines the import format of an attachment from its file name.
+ *
+ * ### Example:
+ * ```ts
+ * getImportFormat("raids.ics");
+ * // Returns: "ics"
+ * ```
+ *
+ * @param fileName - The name of the attached file.
+ *
+ * @returns The `ImportFormat`, or `null` if the file type is not supported.
+ */
+export function getImportFormat(fileName: string): ImportFormat | null {
+    let extension = fileName.toLowerCase().split(".").pop()
+
+    switch (extension) {
+        case "csv": return "csv"
+        case "ics": return "ics"
+        case "txt":
+        case "md": return "text"
+        default: return null
+    }
+}
+
+/**
+ * Downloads an attached file as import source.
+ *
+ * ### Example:
+ * ```ts
+ * const importSource = await downloadImportSource(attachment.name, attachment.url, "csv");
+ * // Returns: { name: "raids.csv", format: "csv", content: "name,start,end\n..." }
+ * ```
+ *
+ * @param name - The file name, used in the report.
+ * @param url - The URL of the attachment.
+ * @param format - The `ImportFormat` of the file.
+ *
+ * @returns A `Promise` resolving to the `ImportSource`, with an `error` instead of content if the download failed or timed out.
+ */
+export async function downloadImportSource(name: string, url: string, format: ImportFormat): Promise<ImportSource> {
+    try {
+        let response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT) })
+        if (!response.ok) {
+            logger.error(`Failed to download ${name}: HTTP ${response.status}`)
+            return { name: name, format: format, content: "", error: `Download failed with HTTP ${response.status}` }
+        }
+        return { name: name, format: format, content: await response.text() }
+    } catch (e) {
+        logger.error(`Failed to download ${name}: ` + e)
+        return { name: name, format: format, content: "", error: "Download failed: " + e }
+    }
+}
+
+/**
+ * Parses an import source into rows of event fields in the order of the `"New Schedule"` command.
+ *
+ * ### Example:
+ * ```ts
+ * parseImportSource({ name: "message", format: "text", content: "Raid; 2025-07-01 20:00; 2025-07-01 22:00; ; Discord; Bring food" });
+ * // Returns: [{ source: "message", row: 1, fields: ["Raid", "2025-07-01 20:00", ...] }]
+ * ```
+ *
+ * @param importSource - The content to parse and its format.
+ *
+ * @returns The parsed rows, empty lines, comments (`#`) and header rows are skipped.
+ *
+ * @remarks
+ * - CSV: comma or semicolon separated, with optional quoting and an optional header row naming the columns.
+ * - Text: one event per line in the `"; "` command format, or a Markdown table with `|` separated columns.
+ * - ICS: one row per `VEVENT`, times are converted into the event's timezone and `RRULE`s are kept.
+ */
+export function parseImportSource(importSource: ImportSource): ImportRow[] {
+    switch (importSource.format) {
+        case "csv": return parseCsvRows(importSource)
+        case "ics": return parseIcsRows(importSource)
+        case "text": return parseTextRows(importSource)
+    }
+}
+
+/**
+ * Parses CSV content into rows, using the header row (if any) to map columns.
+ *
+ * @param importSource - The CSV source.
+ *
+ * @returns The parsed rows.
+ */
+function parseCsvRows(importSource: ImportSource): ImportRow[] {
+    let lines = importSource.content.split(/\r?\n/)
+    let firstLine = lines.find(line => line.trim() != "") ?? ""
+    let delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ","
+
+    let columnOrder = importColumns.map((_, index) => index)
+    let rows: ImportRow[] = []
+
+    lines.forEach((line, index) => {
+        if (line.trim() == "" || line.trim().startsWith("#")) {
+            return
+        }
+
+        let values = splitCsvLine(line, delimiter)
+        let headerNames = values.map(value => value.trim().toLowerCase())
+        if (headerNames.includes("name") && headerNames.includes("start")) {
+            columnOrder = importColumns.map(column => headerNames.indexOf(column))
+            return
+        }
+
+        rows.push({
+            source: importSource.name,
+            row: index + 1,
+            fields: columnOrder.map(column => column >= 0 ? (values[column] ?? "").trim() : ""),
+        })
+    })
+
+    return rows
+}
+
+/**
+ * Splits a single CSV line, respecting double-quoted values (with `""` as escaped quote).
+ *
+ * @param line - The CSV line.
+ * @param delimiter - The column delimiter.
+ *
+ * @returns The column values.
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+    let values: string[] = []
+    let currentValue = ""
+    let quoted = false
+
+    for (let index = 0; index < line.length; index++) {
+        let character = line[index]!
+        if (quoted) {
+            if (character == '"' && line[index + 1] == '"') {
+                currentValue += '"'
+                index++
+            }
+            else if (character == '"') {
+                quoted = false
+            }
+            else {
+                currentValue += character
+            }
+        }
+        else if (character == '"') {
+            quoted = true
+        }
+        else if (character == delimiter) {
+            values.push(currentValue)
+            currentValue = ""
+        }
+        else {
+            currentValue += character
+        }
+    }
+    values.push(currentValue)
+
+    return values
+}
+
+/**
+ * Parses plain text into rows, either in the `"; "` command format or as a Markdown table.
+ *
+ * @param importSource - The text source.
+ *
+ * @returns The parsed rows.
+ */
+function parseTextRows(importSource: ImportSource): ImportRow[] {
+    let rows: ImportRow[] = []
+
+    importSource.content.split(/\r?\n/).forEach((line, index) => {
+        let trimmedLine = line.trim()
+        if (trimmedLine == "" || trimmedLine.startsWith("#") || /^\|?[\s:|-]+\|?$/.test(trimmedLine)) {
+            return
+        }
+
+        let fields = trimmedLine.includes("|")
+            ? trimmedLine.replace(/^\||\|$/g, "").split("|").map(field => field.trim())
+            : splitEventFields(trimmedLine)
+
+        if (fields[0]?.toLowerCase() == "name" && fields[1]?.toLowerCase() == "start") {
+            return
+        }
+
+        rows.push({ source: importSource.name, row: index + 1, fields: fields })
+    })
+
+    return rows
+}
+
+/**
+ * Parses iCalendar content into rows, one per `VEVENT`.
+ *
+ * @param importSource - The ICS source.
+ *
+ * @returns The parsed rows.
+ *
+ * @remarks
+ * - Times with `TZID` keep that timezone, UTC times are converted into the calendar's `X-WR-TIMEZONE` (or UTC).
+ * - All-day events (date only) start at 00:00 of their day.
+ */
+function parseIcsRows(importSource: ImportSource): ImportRow[] {
+    // Unfold continuation lines (RFC 5545, 3.1)
+    let lines = importSource.content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/)
+    let calendarTimezone = "UTC"
+    let rows: ImportRow[] = []
+    let currentEvent: Map<string, { params: string, value: string }> | null = null
+    let eventCount = 0
+
+    for (let line of lines) {
+        let separatorIndex = line.indexOf(":")
+        if (separatorIndex < 0) {
+            continue
+        }
+        let [name, ...params] = line.slice(0, separatorIndex).split(";")
+        let propertyName = name!.toUpperCase()
+        let value = line.slice(separatorIndex + 1)
+
+        if (propertyName == "X-WR-TIMEZONE") {
+            calendarTimezone = value.trim()
+        }
+        else if (propertyName == "BEGIN" && value.trim() == "VEVENT") {
+            currentEvent = new Map()
+        }
+        else if (propertyName == "END" && value.trim() == "VEVENT" && currentEvent) {
+            eventCount++
+            rows.push({ source: importSource.name, row: eventCount, fields: icsEventToFields(currentEvent, calendarTimezone) })
+            currentEvent = null
+        }
+        else if (currentEvent && !currentEvent.has(propertyName)) {
+            currentEvent.set(propertyName, { params: params.join(";"), value: value })
+        }
+    }
+
+    return rows
+}
+
+/**
+ * Converts the properties of one `VEVENT` into import fields.
+ *
+ * @param properties - The event's properties with their parameters.
+ * @param calendarTimezone - The timezone UTC times are converted into.
+ *
+ * @returns The fields in the order of `importColumns`.
+ */
+function icsEventToFields(properties: Map<string, { params: string, value: string }>, calendarTimezone: string): string[] {
+    let unescapeText = (text: string) => text.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1")
+
+    let startProperty = properties.get("DTSTART")
+    let timezone = startProperty?.params.match(/TZID=([^;]+)/i)?.[1] ?? calendarTimezone
+    let toLocalTime = (property: { params: string, value: string } | undefined) => {
+        if (!property) {
+            return ""
+        }
+        let propertyZone = property.params.match(/TZID=([^;]+)/i)?.[1] ?? (property.value.endsWith("Z") ? "utc" : timezone)
+        let format = property.value.includes("T") ? "yyyyMMdd'T'HHmmss" : "yyyyMMdd"
+        let time = DateTime.fromFormat(property.value.replace(/Z$/, ""), format, { zone: propertyZone })
+        return time.isValid ? time.setZone(timezone).toFormat("yyyy-MM-dd HH:mm") : property.value
+    }
+
+    let endTime = toLocalTime(properties.get("DTEND"))
+    let duration = properties.get("DURATION")?.value
+    if (!endTime && duration && startProperty) {
+        let start = DateTime.fromFormat(toLocalTime(startProperty), "yyyy-MM-dd HH:mm", { zone: timezone })
+        endTime = start.plus(luxonDurationFromIcs(duration)).toFormat("yyyy-MM-dd HH:mm")
+    }
+
+    let recurrenceRule = properties.get("RRULE")?.value
+
+    return [
+        unescapeText(properties.get("SUMMARY")?.value ?? ""),
+        toLocalTime(startProperty),
+        endTime,
+        timezone,
+        unescapeText(properties.get("LOCATION")?.value ?? ""),
+        unescapeText(properties.get("DESCRIPTION")?.value ?? ""),
+        recurrenceRule ? "RRULE:" + recurrenceRule : "",
+        recurrenceRule ? "1" : "",
+    ]
+}
+
+/**
+ * Converts an iCalendar duration (e.g. `PT1H30M`) into a luxon duration object.
+ *
+ * @param duration - The iCalendar duration.
+ *
+ * @returns The duration as object with weeks, days, hours, minutes and seconds.
+ */
+function luxonDurationFromIcs(duration: string): { weeks: number, days: number, hours: number, minutes: number, seconds: number } {
+    let match = duration.match(/P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?/)
+    return {
+        weeks: +(match?.[1] ?? 0),
+        days: +(match?.[2] ?? 0),
+        hours: +(match?.[3] ?? 0),
+        minutes: +(match?.[4] ?? 0),
+        seconds: +(match?.[5] ?? 0),
+    }
+}
+
+/**
+ * Imports all events of one or more posted schedules and replies with a per-row report.
+ *
+ * ### Example:
+ * ```ts
+ * await importDiscordSchedule(
+ *   [{ name: "raids.csv", format: "csv", content: "name,start,end\nRaid,2025-07-01 20:00,2025-07-01 22:00" }],
+ *   "",
+ *   "123456789012345678",
+ *   "987654321098765432",
+ *   { authorId: "555555555555555555", messageId: "444444444444444444" }
+ * );
+ * ```
+ *
+ * @param importSources - The attachments and/or message block to import.
+ * @param discordMessageAttachment - Optional image URL used for every imported event.
+ * @param guildID - The Discord guild (server) ID where the events should be created.
+ * @param replyChannel - The ID of the Discord channel where the report will be posted.
+ * @param importContext - The author and message of the Import command; every row is stored with its own fields as command text.
+ *
+ * @returns A `Promise<void>` that resolves once all rows were processed and the report was sent.
+ *
+ * @remarks
+ * - Rows with an interval create a schedule via `createDiscordScheduleFromDetails`, all others a single event.
+ * - Every row is validated field by field with `eventDetailsFromFields`; a failing row does not stop the import.
+ * - The report lists every row with ✅ or ❌ and the reason, split into several messages if needed.
+ *   Sources that could not be read (see `downloadImportSource`) are listed with ❌ as well.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger`, and the event creation functions from `eventFunctions`.
+ */
+export async function importDiscordSchedule(importSources: ImportSource[], discordMessageAttachment: string, guildID: string, replyChannel: string, importContext: Omit<CommandContext, "commandText"> | null = null): Promise<void> {
+    logger.info(`Invoking Import of ${importSources.length} source(s): ` + importSources.map(importSource => importSource.name).join(", "))
+    let channel = client.channels.cache.get(replyChannel)
+
+    let failedSources = importSources.filter(importSource => importSource.error != null)
+    let rows = importSources.filter(importSource => importSource.error == null).flatMap(importSource => parseImportSource(importSource))
+    if (rows.length == 0 && failedSources.length == 0) {
+        logger.error("Import contained no events.")
+        await (channel as TextChannel).send("Nothing to import. Attach a .csv, .ics or .txt file or add one event per line below the Import command.")
+        return
+    }
+
+    let reportLines: string[] = failedSources.map(importSource => `❌ ${importSource.name}: ${importSource.error}`)
+    let createdCount = 0
+    let guildSettings = getGuildSettings(guildID)
+
+    try {
+        let guild = await client.guilds.fetch(guildID)
+
+        for (let row of rows) {
+            let rowLabel = `${row.source} row ${row.row}`
+            let fields = importColumns.map((_, index) => row.fields[index] ?? "")
+            let isSchedule = fields[6] != ""
+            let { details: eventDetails, errors } = eventDetailsFromFields(fields, isSchedule ? "New Schedule" : "New Event", guildSettings)
+
+            if (errors.length > 0) {
+                reportLines.push(`❌ ${rowLabel}: ${errors.map(error => formatFieldError(error)).join("; ")}`)
+                continue
+            }
+
+            let commandContext: CommandContext | null = importContext ? { ...importContext, commandText: fields.join("; ") } : null
+
+            try {
+                if (isSchedule) {
+                    let { event, scheduleSummary } = await createDiscordScheduleFromDetails(guild, eventDetails, discordMessageAttachment, replyChannel, commandContext)
+                    reportLines.push(`✅ ${rowLabel}: "${eventDetails.eventName}" ${scheduleSummary} <${event.url}>` + formatDateNotes(eventDetails))
+                }
+                else {
+                    let event = await createDiscordEventFromDetails(guild, eventDetails, discordMessageAttachment, replyChannel, commandContext)
+                    reportLines.push(`✅ ${rowLabel}: "${eventDetails.eventName}" <${event.url}>` + formatDateNotes(eventDetails))
+                }
+                createdCount++
+            } catch (e) {
+                logger.error(`Failed to import ${rowLabel}: ` + e)
+                reportLines.push(`❌ ${rowLabel}: ${e}`)
+            }
+        }
+    } catch (e) {
+        logger.error("Failed to import schedule: " + e)
+        reportLines.push("Import aborted: " + e)
+    }
+
+    logger.info(`Import finished: ${createdCount} of ${rows.length} event(s) created.`)
+    reportLines.unshift(`Import finished: ${createdCount} of ${rows.length} event(s) created.`)
+
+    if (channel && channel.isTextBased()) {
+        for (let message of splitIntoMessages(reportLines)) {
+            await (channel as TextChannel).send(message)
+        }
+    }
+}
+
+/**
+ * Joins report lines into as few Discord messages as possible without exceeding the message length limit.
+ *
+ * @param lines - The report lines.
+ *
+ * @returns The messages to send.
+ */
+function splitIntoMessages(lines: string[]): string[] {
+    let messages: string[] = []
+    let currentMessage = ""
+
+    for (let line of lines) {
+        let shortenedLine = line.length > MAX_MESSAGE_LENGTH ? line.slice(0, MAX_MESSAGE_LENGTH - 1) + "…" : line
+        if (currentMessage.length + shortenedLine.length + 1 > MAX_MESSAGE_LENGTH) {
+            messages.push(currentMessage)
+            currentMessage = ""
+        }
+        currentMessage += (currentMessage == "" ? "" : "\n") + shortenedLine
+    }
+    if (currentMessage != "") {
+        messages.push(currentMessage)
+    }
+
+    return messages
+}
@@ -0,0 +1,410 @@
+import { TextChannel, type Guild, type GuildScheduledEvent } from "discord.js"
+import { DateTime } from "luxon"
+import { logger, client } from "./mainBot"
+import { splitEventFields, type EventDetails } from "./EventDetails"
+import { findScheduledEvents, checkTimeInPast, startTimeBeforeEndTime } from "./additionalFunctions"
+import { parseDateTime, parseDuration } from "./dateParser"
+import { parseRecurrenceRule } from "./recurrenceEngine"
+import { eventRepository, type RecurringSeries } from "./eventStore"
+import { buildMaterializedSeries, expandSeriesOccurrences, findSeriesByEvent, skipSeriesOccurrence, rescheduleSeriesOccurrence, endSeriesAt, type SeriesOccurrence } from "./recurringSeries"
+import { cancelScheduledEvent, type CommandOutcome } from "./eventFunctions"
+import { discordRuleToRRule } from "./calendarExport"
+import { getGuildSettings } from "./guildSettings"
+import { getLanguage, translate, formatEventTime } from "./localization"
+
+export type SeriesChange = "skip" | "move" | "end"
+
+// Minimum and maximum number of fields after the event identifier, the new end of "move" is optional
+const fieldCounts: Record<SeriesChange, [number, number]> = { skip: [1, 1], move: [2, 3], end: [1, 1] }
+// Enough for the occurrences of a single day, even of hourly rules
+const DAY_OCCURRENCE_LIMIT = 48
+
+/**
+ * Parses the date of an occurrence, a date without time covers the whole day.
+ *
+ * @param input - The date, with or without time.
+ * @param timezone - The IANA timezone the date is meant in.
+ * @param locale - The locale used for ambiguous numeric dates.
+ *
+ * @returns The first and last moment meant (equal if a time was given), or `null` if the date could not be read.
+ */
+function parseOccurrenceDate(input: string, timezone: string, locale: string): { from: Date, to: Date } | null {
+    let parsedDateTime = parseDateTime(input, timezone, locale)
+    if (parsedDateTime && parsedDateTime.hasDate) {
+        return { from: parsedDateTime.dateTime.toJSDate(), to: parsedDateTime.dateTime.toJSDate() }
+    }
+
+    let parsedDate = parseDateTime(input + " 00:00", timezone, locale)
+    if (!parsedDate) {
+        return null
+    }
+
+    return { from: parsedDate.dateTime.startOf("day").toJSDate(), to: parsedDate.dateTime.endOf("day").toJSDate() }
+}
+
+/**
+ * Parses the new start and end of a moved occurrence.
+ *
+ * @param startInput - The new start, a time without date keeps the occurrence's day.
+ * @param endInput - The new end or a duration (e.g. `2h`), empty to keep the occurrence's duration.
+ * @param occurrence - The occurrence that is moved.
+ * @param timezone - The IANA timezone of the series.
+ * @param locale - The locale used for ambiguous numeric dates.
+ *
+ * @returns The new start and end, or `null` if one of them could not be read.
+ */
+function parseNewTimes(startInput: string, endInput: string, occurrence: SeriesOccurrence, timezone: string, locale: string): { startTime: Date, endTime: Date } | null {
+    let occurrenceDay = DateTime.fromJSDate(occurrence.startTime, { zone: timezone })
+    let parsedStart = parseDateTime(startInput, timezone, locale, occurrence.startTime)
+    if (!parsedStart) {
+        return null
+    }
+
+    let startDateTime = parsedStart.hasDate ? parsedStart.dateTime : occurrenceDay.set({ hour: parsedStart.dateTime.hour, minute: parsedStart.dateTime.minute, second: 0, millisecond: 0 })
+    let startTime = startDateTime.toJSDate()
+    if (endInput == "") {
+        return { startTime: startTime, endTime: new Date(startTime.getTime() + occurrence.endTime.getTime() - occurrence.startTime.getTime()) }
+    }
+
+    let duration = parseDuration(endInput)
+    if (duration != null) {
+        return { startTime: startTime, endTime: new Date(startTime.getTime() + duration) }
+    }
+
+    let parsedEnd = parseDateTime(endInput, timezone, locale, startTime)
+    if (!parsedEnd) {
+        return null
+    }
+
+    let endDateTime = parsedEnd.hasDate ? parsedEnd.dateTime : startDateTime.set({ hour: parsedEnd.dateTime.hour, minute: parsedEnd.dateTime.minute })
+    return { startTime: startTime, endTime: endDateTime.toJSDate() }
+}
+
+/**
+ * Builds an unsaved bot-managed series from a recurring Discord event, so single occurrences can be changed.
+ *
+ * @param guild - The Discord guild of the event.
+ * @param event - The recurring Discord event.
+ * @param replyChannel - The ID of the channel used for live pings, if the event was not created by the bot.
+ *
+ * @returns The `RecurringSeries` starting at the event's next occurrence, or `null` if its rule cannot be read.
+ *
+ * @remarks
+ * - Discord cannot store exceptions of its own recurrence rules and the API does not set their end, so the event is replaced by the series once the author confirmed it
+ *   (see `confirmConversion`).
+ * - Stored details (author, command, timezone) of events created by the bot are taken over.
+ */
+function buildSeriesFromEvent(guild: Guild, event: GuildScheduledEvent, replyChannel: string): RecurringSeries | null {
+    let storedEvent = eventRepository.getEvent(event.id)
+    let timezone = storedEvent?.details.timezone ?? getGuildSettings(guild.id).timezone
+    let startTime = event.scheduledStartAt!
+    let rule = parseRecurrenceRule("RRULE:" + discordRuleToRRule(event.recurrenceRule!), 1, startTime, timezone)
+    if (!rule) {
+        return null
+    }
+
+    let durationMs = storedEvent ? storedEvent.details.endTime.getTime() - storedEvent.details.startTime.getTime() : 60 * 60 * 1000
+    let eventDetails: EventDetails = {
+        eventName: event.name,
+        startTime: startTime,
+        endTime: event.scheduledEndAt ?? new Date(startTime.getTime() + durationMs),
+        timezone: timezone,
+        eventLocation: storedEvent?.details.eventLocation ?? (event.channelId ? `<#${event.channelId}>` : event.entityMetadata?.location ?? ""),
+        description: event.description ?? "",
+        interval: storedEvent?.details.interval ?? "",
+        frequency: storedEvent?.details.frequency ?? 1,
+    }
+    let commandContext = storedEvent
+        ? { authorId: storedEvent.authorId, messageId: storedEvent.messageId, commandText: storedEvent.commandText }
+        : { authorId: event.creatorId ?? "", messageId: null, commandText: "" }
+
+    return buildMaterializedSeries(guild, eventDetails, rule, event.coverImageURL({ size: 4096 }) ?? "", storedEvent?.channelId ?? replyChannel, commandContext)
+}
+
+/**
+ * Asks the author to confirm that a recurring Discord event is replaced by a bot-managed series.
+ *
+ * @param channel - The channel of the command.
+ * @param event - The recurring Discord event.
+ * @param authorID - The ID of the user who sent the command, only their answer counts.
+ * @param language - The language of the question.
+ *
+ * @returns A `Promise` resolving to `true` if the author agreed within a minute; otherwise, `false`.
+ *
+ * @remarks
+ * - The replacement gets new event IDs and links, and the Interested marks of the event are lost.
+ */
+async function confirmConversion(channel: TextChannel, event: GuildScheduledEvent, authorID: string, language: string): Promise<boolean> {
+    let confirmAnswer = translate(language, "series.confirmAnswer")
+    await channel.send(translate(language, "series.confirmConversion", { name: event.name, answer: confirmAnswer }))
+    let answers = await channel.awaitMessages({ filter: answer => answer.author.id == authorID, max: 1, time: 60_000 })
+
+    return answers.first()?.content.trim().toLowerCase() == confirmAnswer.toLowerCase()
+}
+
+/**
+ * Finds the occurrences of a series on a date, by their original or their rescheduled start.
+ *
+ * @param series - The bot-managed series.
+ * @param from - The first moment of the date.
+ * @param to - The last moment of the date, equal to `from` if a time was given.
+ *
+ * @returns The matching occurrences, skipped ones included.
+ */
+function findOccurrencesOn(series: RecurringSeries, from: Date, to: Date): SeriesOccurrence[] {
+    let isMatch = (date: Date) => date >= from && date <= to
+    let occurrences = expandSeriesOccurrences(series, new Date(from.getTime() - 1), DAY_OCCURRENCE_LIMIT, true)
+        .filter(occurrence => occurrence.originalStart <= to)
+
+    // Occurrences moved onto this date from another day
+    for (let exception of series.exceptions ?? []) {
+        if (exception.type != "reschedule" || !isMatch(new Date(exception.newStart!)) || occurrences.some(occurrence => occurrence.originalStart.toISOString() == exception.originalStart)) {
+            continue
+        }
+        occurrences.push({ originalStart: new Date(exception.originalStart), startTime: new Date(exception.newStart!), endTime: new Date(exception.newEnd!), exception: exception })
+    }
+
+    return occurrences.filter(occurrence => isMatch(occurrence.originalStart) || isMatch(occurrence.startTime))
+}
+
+/**
+ * Lists the upcoming exceptions of a series for the confirmation.
+ *
+ * @param series - The bot-managed series.
+ * @param language - The language of the confirmation.
+ *
+ * @returns One line per exception, sorted by date.
+ */
+function formatSeriesExceptions(series: RecurringSeries, language: string): string {
+    return (series.exceptions ?? [])
+        .filter(exception => new Date(exception.newStart ?? exception.originalStart) > new Date())
+        .sort((first, second) => first.originalStart.localeCompare(second.originalStart))
+        .map(exception => translate(language, `series.exception.${exception.type}`, {
+            time: formatEventTime(new Date(exception.originalStart), series.timezone, language),
+            newTime: exception.newStart ? formatEventTime(new Date(exception.newStart), series.timezone, language) : "",
+        }))
+        .join("\n")
+}
+
+/**
+ * Skips or moves a single occurrence of a recurring schedule, or ends the schedule at a date, and sends feedback to a specified channel.
+ *
+ * ### Example:
+ * ```ts
+ * await changeDiscordSeries("skip", "Weekly Raid; 24.12.2025", "123456789012345678", "987654321098765432", "555555555555555555", null);
+ * await changeDiscordSeries("move", "Weekly Raid; 31.12.2025; 19:00", "123456789012345678", "987654321098765432", "555555555555555555", null);
+ * await changeDiscordSeries("end", "Weekly Raid; 30.06.2026", "123456789012345678", "987654321098765432", "555555555555555555", null);
+ * ```
+ *
+ * @param change - `"skip"`, `"move"` or `"end"`.
+ * @param seriesInfo - A semicolon-separated string starting with the event ID or exact name (optional when replying to a confirmation):
+ *   - skip: `"Event ID or Name; Date of the occurrence"`
+ *   - move: `"Event ID or Name; Date of the occurrence; New Start; New End or Duration (optional)"`
+ *   - end: `"Event ID or Name; Date of the last occurrence"`
+ * @param guildID - The Discord guild (server) ID the schedule belongs to.
+ * @param replyChannel - The ID of the Discord channel where confirmations or error messages will be posted.
+ * @param authorID - The ID of the user who sent the command, stored with the exception.
+ * @param referencedEventID - The event ID taken from the bot message the command replied to, or `null`.
+ *
+ * @returns A `Promise` resolving to `"done"` once the schedule was changed, `"cancelled"` if the author did not confirm
+ *   the replacement of a recurring Discord event, or `"failed"` (the reason is posted when possible).
+ *
+ * @remarks
+ * - Dates are read in the schedule's timezone. A date without time matches the occurrence of that day,
+ *   the time is only needed if there are several. Moved occurrences also match by their new date.
+ * - A moved occurrence without new end keeps its duration, a new start without date stays on the occurrence's day.
+ * - End Series keeps the occurrences up to the end of the given day and deletes the later ones.
+ * - The changes are recorded as exceptions of the bot-managed series (see `expandSeriesOccurrences`)
+ *   and the already created Discord events are deleted or edited. The confirmation lists all upcoming exceptions.
+ * - Recurring Discord events can neither store single exceptions nor get an end date through the API,
+ *   so they are deleted and replaced by a bot-managed series with the same rule once the author confirmed it.
+ *   A recurring Discord event without occurrence up to the end date is deleted right away.
+ *
+ * @throws No exceptions are thrown to the caller. Errors are logged and communicated through Discord messages when possible.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger`, `findScheduledEvents` and the bot-managed series (see `recurringSeries.ts`).
+ */
+export async function changeDiscordSeries(change: SeriesChange, seriesInfo: string, guildID: string, replyChannel: string, authorID: string, referencedEventID: string | null): Promise<CommandOutcome> {
+    // Log the Input-Info
+    logger.info(`Invoking Series Change (${change}): ` + seriesInfo)
+    let channel = client.channels.cache.get(replyChannel)
+    let language = getLanguage(guildID, authorID)
+    let guildSettings = getGuildSettings(guildID)
+
+    try {
+        // Split the Series Info String into Identifier and Dates, the identifier can be left out when replying
+        let seriesInfoParts = splitEventFields(seriesInfo).filter(part => part != "")
+        let [minFields, maxFields] = fieldCounts[change]
+        let identifier = referencedEventID
+        let startsWithDate = seriesInfoParts[0] != undefined && parseOccurrenceDate(seriesInfoParts[0], guildSettings.timezone, guildSettings.locale) != null
+        if (!referencedEventID || seriesInfoParts.length > maxFields || (seriesInfoParts.length > minFields && !startsWithDate)) {
+            identifier = seriesInfoParts.shift() ?? null
+        }
+
+        if (!identifier) {
+            logger.error("No schedule to change given: " + seriesInfo)
+            await (channel as TextChannel).send(translate(language, "series.missingEvent"))
+            return "failed"
+        }
+
+        let [dateInput, newStartInput, newEndInput] = seriesInfoParts
+        if (seriesInfoParts.length < minFields || seriesInfoParts.length > maxFields) {
+            logger.error(`Invalid Series Change (${change}): ` + seriesInfo)
+            await (channel as TextChannel).send(translate(language, `series.format.${change}`))
+            return "failed"
+        }
+
+        let guild = await client.guilds.fetch(guildID)
+        let matchingEvents = await findScheduledEvents(guild, identifier)
+
+        if (matchingEvents.length == 0) {
+            logger.error("No event found for: " + identifier)
+            await (channel as TextChannel).send(translate(language, "event.notFound", { identifier: identifier }))
+            return "failed"
+        }
+
+        // All occurrences of a bot-managed series share their name, so they count as one match
+        let matchingSeries = new Map(matchingEvents.map(event => [findSeriesByEvent(event.id)?.seriesId ?? event.id, event]))
+        if (matchingSeries.size > 1) {
+            logger.error("Multiple schedules found for: " + identifier)
+            let eventLines = [...matchingSeries.values()].map(event => `- ${event.id}: ${event.scheduledStartAt?.toISOString()}`).join("\n")
+            await (channel as TextChannel).send(translate(language, "edit.ambiguous", { identifier: identifier, events: eventLines }))
+            return "failed"
+        }
+
+        let event = matchingEvents[0]!
+        let series = findSeriesByEvent(event.id)
+        let nativeEvent = !series && event.recurrenceRule ? event : null
+        if (nativeEvent) {
+            if (nativeEvent.isActive()) {
+                await (channel as TextChannel).send(translate(language, "series.activeNative", { name: nativeEvent.name }))
+                return "failed"
+            }
+            series = buildSeriesFromEvent(guild, nativeEvent, replyChannel) ?? undefined
+        }
+
+        if (!series) {
+            logger.error(`Event "${event.name}" (${event.id}) is not recurring.`)
+            await (channel as TextChannel).send(translate(language, "series.notRecurring", { name: event.name }))
+            return "failed"
+        }
+
+        // The recurring Discord event is deleted before the series creates any occurrence, so no duplicates are left if that fails
+        let replaceDiscordEvent = async (recurringEvent: GuildScheduledEvent): Promise<boolean> => {
+            if (!(await confirmConversion(channel as TextChannel, recurringEvent, authorID, language))) {
+                logger.info(`Replacement of recurring event ${recurringEvent.id} not confirmed.`)
+                await (channel as TextChannel).send(translate(language, "series.conversionAborted", { name: recurringEvent.name }))
+                return false
+            }
+            await cancelScheduledEvent(recurringEvent, true)
+            return true
+        }
+
+        let date = parseOccurrenceDate(dateInput!, series.timezone, guildSettings.locale)
+        if (!date) {
+            await (channel as TextChannel).send(translate(language, "series.invalidDate", { date: dateInput! }))
+            return "failed"
+        }
+
+        let confirmation: string
+        if (change == "end") {
+            if (checkTimeInPast(date.to)) {
+                await (channel as TextChannel).send(translate(language, "series.inPast", { name: series.eventName }))
+                return "failed"
+            }
+
+            let formattedDate = formatEventTime(date.to, series.timezone, language)
+            if (nativeEvent && nativeEvent.scheduledStartAt && nativeEvent.scheduledStartAt > date.to) {
+                await cancelScheduledEvent(nativeEvent, true)
+                logger.info(`Recurring event ${nativeEvent.id} has no occurrence up to ${date.to.toISOString()}, deleted.`)
+                await (channel as TextChannel).send(translate(language, "series.endedNativeDeleted", { name: nativeEvent.name, date: formattedDate }))
+                return "done"
+            }
+            if (nativeEvent && !(await replaceDiscordEvent(nativeEvent))) {
+                return "cancelled"
+            }
+
+            let deletedEvents = await endSeriesAt(guild, series, date.to, authorID)
+            confirmation = translate(language, "series.ended", { name: series.eventName, date: formattedDate, count: deletedEvents.length })
+        }
+        else {
+            let occurrences = findOccurrencesOn(series, date.from, date.to)
+            if (occurrences.length == 0) {
+                await (channel as TextChannel).send(translate(language, "series.noOccurrence", { name: series.eventName, date: dateInput! }))
+                return "failed"
+            }
+            if (occurrences.length > 1) {
+                let occurrenceLines = occurrences.map(occurrence => "- " + formatEventTime(occurrence.startTime, series!.timezone, language)).join("\n")
+                await (channel as TextChannel).send(translate(language, "series.ambiguousOccurrence", { name: series.eventName, date: dateInput!, occurrences: occurrenceLines }))
+                return "failed"
+            }
+
+            let occurrence = occurrences[0]!
+            if (checkTimeInPast(occurrence.startTime)) {
+                await (channel as TextChannel).send(translate(language, "series.inPast", { name: series.eventName }))
+                return "failed"
+            }
+
+            if (change == "skip") {
+                if (occurrence.exception?.type == "skip") {
+                    await (channel as TextChannel).send(translate(language, "series.alreadySkipped", { name: series.eventName, time: formatEventTime(occurrence.originalStart, series.timezone, language) }))
+                    return "failed"
+                }
+                if (nativeEvent && !(await replaceDiscordEvent(nativeEvent))) {
+                    return "cancelled"
+                }
+
+                await skipSeriesOccurrence(guild, series, occurrence, authorID)
+                confirmation = translate(language, "series.skipped", { name: series.eventName, time: formatEventTime(occurrence.startTime, series.timezone, language) })
+            }
+            else {
+                let newTimes = parseNewTimes(newStartInput!, newEndInput ?? "", occurrence, series.timezone, guildSettings.locale)
+                if (!newTimes) {
+                    await (channel as TextChannel).send(translate(language, "series.invalidDate", { date: [newStartInput, newEndInput].filter(Boolean).join("; ") }))
+                    return "failed"
+                }
+                if (checkTimeInPast(newTimes.startTime)) {
+                    await (channel as TextChannel).send(translate(language, "edit.inPast"))
+                    return "failed"
+                }
+                if (startTimeBeforeEndTime(newTimes.startTime, newTimes.endTime)) {
+                    await (channel as TextChannel).send(translate(language, "edit.endBeforeStart"))
+                    return "failed"
+                }
+                if (nativeEvent && !(await replaceDiscordEvent(nativeEvent))) {
+                    return "cancelled"
+                }
+
+                let editedEvent = await rescheduleSeriesOccurrence(guild, series, occurrence, newTimes.startTime, newTimes.endTime, authorID)
+                confirmation = translate(language, "series.moved", {
+                    name: series.eventName,
+                    originalTime: formatEventTime(occurrence.startTime, series.timezone, language),
+                    time: formatEventTime(newTimes.startTime, series.timezone, language),
+                }) + (editedEvent ? " " + editedEvent.url : "")
+            }
+        }
+
+        if (nativeEvent) {
+            logger.info(`Recurring event ${nativeEvent.id} replaced by bot-managed series ${series.seriesId}.`)
+            confirmation = translate(language, "series.converted", { name: series.eventName }) + "\n" + confirmation
+        }
+
+        let exceptionLines = formatSeriesExceptions(series, language)
+        if (exceptionLines != "") {
+            confirmation += "\n" + translate(language, "series.exceptions", { exceptions: exceptionLines })
+        }
+
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(confirmation)
+        }
+        return "done"
+
+    } catch (e) {
+        logger.error("Failed to change schedule: " + e)
+        if (channel && channel.isTextBased()) {
+            await (channel as TextChannel).send(translate(language, "series.failed", { error: String(e) })).catch(() => null)
+        }
+        return "failed"
+    }
+}
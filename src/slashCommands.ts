@@ -0,0 +1,384 @@
+import { ActionRowBuilder, MessageFlags, ModalBuilder, SlashCommandBuilder, TextInputBuilder, TextInputStyle, type AutocompleteInteraction, type ChatInputCommandInteraction, type Interaction, type ModalSubmitInteraction } from "discord.js"
+import { logger, client } from "./mainBot"
+import { eventDetailsFromFields, formatFieldErrors } from "./EventDetails"
+import { createDiscordEventFromDetails, createDiscordScheduleFromDetails, editDiscordEvent, cancelDiscordEvent, formatDateNotes } from "./eventFunctions"
+import { getGuildSettings } from "./guildSettings"
+import { isAuthorized, type PermissionAction } from "./permissions"
+import type { CommandContext } from "./eventStore"
+import { replyWithEventList, isEventListButton, handleEventListButton } from "./eventList"
+import { findEventConflicts, requestConflictConfirmation, isConflictButton, handleConflictButton } from "./conflictDetection"
+import { isPreviewButton, handlePreviewButton } from "./eventPreview"
+import { getLanguage, translate, formatEventTime } from "./localization"
+
+interface PendingCreation {
+    subcommand: string
+    fields: string[]
+    attachment: string
+    context: CommandContext
+    // Skip the conflict check for overlapping events
+    force: boolean
+}
+
+// Discord allows 25 autocomplete choices
+const MAX_CHOICES = 25
+// Options of /event create and /event schedule wait this long for the description modal
+const MODAL_TIMEOUT = 15 * 60 * 1000
+
+const timezones = Intl.supportedValuesOf("timeZone")
+const pendingCreations = new Map<string, PendingCreation>()
+
+const subcommandActions: Record<string, PermissionAction> = {
+    create: "create",
+    schedule: "create",
+    edit: "edit",
+    cancel: "cancel",
+}
+
+/**
+ * The `/event` application command with one subcommand per bot operation.
+ */
+export const eventCommand = new SlashCommandBuilder()
+    .setName("event")
+    .setDescription("Create and manage scheduled events")
+    .setDMPermission(false)
+    .addSubcommand(subcommand => subcommand
+        .setName("create")
+        .setDescription("Create a one-time event, the description is asked in a form")
+        .addStringOption(option => option.setName("name").setDescription("Name of the event").setRequired(true).setMaxLength(100))
+        .addStringOption(option => option.setName("start").setDescription("Start, e.g. 2025-06-20 18:00, 20.06. 6pm, next Friday 19:30").setRequired(true))
+        .addStringOption(option => option.setName("end").setDescription("End, e.g. 2025-06-20 20:00, 20:00 or a duration like 2h").setRequired(true))
+        .addStringOption(option => option.setName("timezone").setDescription("IANA timezone, default: the server's timezone").setAutocomplete(true))
+        .addStringOption(option => option.setName("location").setDescription("Location or voice/stage channel, default: the server's location").setMaxLength(100))
+        .addAttachmentOption(option => option.setName("image").setDescription("Cover image"))
+        .addBooleanOption(option => option.setName("force").setDescription("Create even if it overlaps events at the same location")))
+    .addSubcommand(subcommand => subcommand
+        .setName("schedule")
+        .setDescription("Create a recurring event, the description is asked in a form")
+        .addStringOption(option => option.setName("name").setDescription("Name of the event").setRequired(true).setMaxLength(100))
+        .addStringOption(option => option.setName("start").setDescription("Start of the first occurrence, e.g. 2025-06-20 18:00").setRequired(true))
+        .addStringOption(option => option.setName("end").setDescription("End of the first occurrence, e.g. 20:00 or 2h").setRequired(true))
+        .addStringOption(option => option.setName("interval").setDescription("daily, weekly, monthly, yearly or an RRULE").setRequired(true).setAutocomplete(true))
+        .addIntegerOption(option => option.setName("frequency").setDescription("Repeat every n intervals, default 1").setMinValue(1))
+        .addStringOption(option => option.setName("timezone").setDescription("IANA timezone, default: the server's timezone").setAutocomplete(true))
+        .addStringOption(option => option.setName("location").setDescription("Location or voice/stage channel, default: the server's location").setMaxLength(100))
+        .addAttachmentOption(option => option.setName("image").setDescription("Cover image"))
+        .addBooleanOption(option => option.setName("force").setDescription("Create even if it overlaps events at the same location")))
+    .addSubcommand(subcommand => subcommand
+        .setName("edit")
+        .setDescription("Change an event, only the given fields are updated")
+        .addStringOption(option => option.setName("event").setDescription("The event to edit").setRequired(true).setAutocomplete(true))
+        .addStringOption(option => option.setName("name").setDescription("New name").setMaxLength(100))
+        .addStringOption(option => option.setName("start").setDescription("New start, e.g. 2025-06-20 18:00"))
+        .addStringOption(option => option.setName("end").setDescription("New end, e.g. 2025-06-20 20:00"))
+        .addStringOption(option => option.setName("timezone").setDescription("Timezone of the new times").setAutocomplete(true))
+        .addStringOption(option => option.setName("location").setDescription("New location or voice/stage channel").setMaxLength(100))
+        .addStringOption(option => option.setName("description").setDescription("New description").setMaxLength(1000))
+        .addAttachmentOption(option => option.setName("image").setDescription("New cover image")))
+    .addSubcommand(subcommand => subcommand
+        .setName("cancel")
+        .setDescription("Cancel or delete an event")
+        .addStringOption(option => option.setName("event").setDescription("The event to cancel").setRequired(true).setAutocomplete(true))
+        .addBooleanOption(option => option.setName("series").setDescription("End the whole recurring series"))
+        .addBooleanOption(option => option.setName("notify").setDescription("Post a cancellation notice with the ping role"))
+        .addBooleanOption(option => option.setName("delete").setDescription("Delete the event instead of cancelling it")))
+    .addSubcommand(subcommand => subcommand
+        .setName("list")
+        .setDescription("List the upcoming events of this server")
+        .addStringOption(option => option.setName("from").setDescription("Only events starting from, e.g. today, 2025-06-20"))
+        .addStringOption(option => option.setName("to").setDescription("Only events starting until, e.g. next Friday, 2025-06-30"))
+        .addStringOption(option => option.setName("search").setDescription("Only events whose name contains this text"))
+        .addBooleanOption(option => option.setName("mine").setDescription("Only events created by you")))
+
+/**
+ * Registers the application commands with Discord.
+ *
+ * ### Example:
+ * ```ts
+ * client.once(Events.ClientReady, async () => {
+ *     await registerSlashCommands()
+ * })
+ * ```
+ *
+ * @returns A `Promise<void>` that resolves once the commands are registered.
+ *
+ * @remarks
+ * - With `SLASH_COMMAND_GUILD_ID` set, the commands are only registered for that guild, where changes show up immediately (useful for testing).
+ *   Otherwise they are registered globally.
+ *
+ * @throws No exceptions are thrown to the caller; errors are logged.
+ */
+export async function registerSlashCommands(): Promise<void> {
+    try {
+        let guildID = process.env.SLASH_COMMAND_GUILD_ID
+        if (guildID) {
+            await client.application?.commands.set([eventCommand.toJSON()], guildID)
+        }
+        else {
+            await client.application?.commands.set([eventCommand.toJSON()])
+        }
+        logger.info(`Slash commands registered ${guildID ? "for guild " + guildID : "globally"}.`)
+    } catch (e) {
+        logger.error("Failed to register slash commands: " + e)
+    }
+}
+
+/**
+ * Suggests timezones, intervals or events while an option is typed.
+ *
+ * @param interaction - The autocomplete interaction.
+ */
+async function handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    let focusedOption = interaction.options.getFocused(true)
+    let typedValue = focusedOption.value.toLowerCase()
+    let choices: { name: string, value: string }[] = []
+
+    switch (focusedOption.name) {
+        case "timezone": {
+            choices = timezones
+                .filter(timezone => timezone.toLowerCase().includes(typedValue.replace(/ /g, "_")))
+                .map(timezone => ({ name: timezone, value: timezone }))
+            break
+        }
+        case "interval": {
+            choices = ["daily", "weekly", "monthly", "yearly", "RRULE:FREQ=MONTHLY;BYDAY=1SA"]
+                .filter(interval => interval.toLowerCase().startsWith(typedValue))
+                .map(interval => ({ name: interval, value: interval }))
+            if (typedValue.startsWith("rrule:") || typedValue.startsWith("freq=")) {
+                choices.unshift({ name: focusedOption.value.slice(0, 100), value: focusedOption.value.slice(0, 100) })
+            }
+            break
+        }
+        case "event": {
+            let scheduledEvents = await interaction.guild!.scheduledEvents.fetch()
+            choices = [...scheduledEvents.values()]
+                .filter(event => !event.isCompleted() && !event.isCanceled() && event.name.toLowerCase().includes(typedValue))
+                .sort((first, second) => (first.scheduledStartTimestamp ?? 0) - (second.scheduledStartTimestamp ?? 0))
+                .map(event => ({ name: `${event.name} (${event.scheduledStartAt?.toISOString().slice(0, 16).replace("T", " ")} UTC)`.slice(0, 100), value: event.id }))
+            break
+        }
+    }
+
+    await interaction.respond(choices.slice(0, MAX_CHOICES))
+}
+
+/**
+ * Shows the description form for `/event create` and `/event schedule` and keeps the options until it is submitted.
+ *
+ * @param interaction - The slash command interaction.
+ * @param subcommand - `"create"` or `"schedule"`.
+ */
+async function showDescriptionModal(interaction: ChatInputCommandInteraction, subcommand: string): Promise<void> {
+    let options = interaction.options
+    let fields = [
+        options.getString("name", true),
+        options.getString("start", true),
+        options.getString("end", true),
+        options.getString("timezone") ?? "",
+        options.getString("location") ?? "",
+        "",
+        options.getString("interval") ?? "",
+        String(options.getInteger("frequency") ?? 1),
+    ]
+
+    pendingCreations.set(interaction.id, {
+        subcommand: subcommand,
+        fields: fields,
+        attachment: options.getAttachment("image")?.url ?? "",
+        force: options.getBoolean("force") ?? false,
+        context: {
+            authorId: interaction.user.id,
+            messageId: null,
+            commandText: `/event ${subcommand} ` + interaction.options.data[0]?.options?.map(option => `${option.name}=${option.attachment?.url ?? option.value}`).join(" "),
+        },
+    })
+    setTimeout(() => pendingCreations.delete(interaction.id), MODAL_TIMEOUT)
+
+    let descriptionInput = new TextInputBuilder()
+        .setCustomId("description")
+        .setLabel("Description")
+        .setStyle(TextInputStyle.Paragraph)
+        .setMaxLength(1000)
+        .setRequired(false)
+
+    let modal = new ModalBuilder()
+        .setCustomId(`event-${subcommand}:${interaction.id}`)
+        .setTitle(fields[0]!.slice(0, 45))
+        .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(descriptionInput))
+
+    await interaction.showModal(modal)
+}
+
+/**
+ * Creates the event or schedule once the description form was submitted.
+ *
+ * @param interaction - The modal submit interaction.
+ *
+ * @remarks
+ * - Validation errors are only shown to the author, the confirmation is posted publicly so it can be replied to like `!dmb` confirmations.
+ * - Overlaps with events at the same location are answered with a conflict warning unless the `force` option was set.
+ */
+async function handleDescriptionModal(interaction: ModalSubmitInteraction): Promise<void> {
+    let pendingID = interaction.customId.split(":")[1] ?? ""
+    let pendingCreation = pendingCreations.get(pendingID)
+    let language = getLanguage(interaction.guildId, interaction.user.id)
+    if (!pendingCreation) {
+        await interaction.reply({ content: translate(language, "slash.formExpired"), flags: MessageFlags.Ephemeral })
+        return
+    }
+    pendingCreations.delete(pendingID)
+
+    let guildSettings = getGuildSettings(interaction.guildId)
+    let isSchedule = pendingCreation.subcommand == "schedule"
+    let fields = pendingCreation.fields.slice(0, isSchedule ? 8 : 6)
+    fields[5] = interaction.fields.getTextInputValue("description")
+
+    let { details: eventDetails, errors } = eventDetailsFromFields(fields, isSchedule ? "New Schedule" : "New Event", guildSettings)
+    if (errors.length > 0) {
+        logger.error(`Invalid /event ${pendingCreation.subcommand}: ${fields.slice(0, 5).join("; ")}\n` + formatFieldErrors(errors))
+        await interaction.reply({ content: translate(language, "slash.invalid", { errors: formatFieldErrors(errors) }), flags: MessageFlags.Ephemeral })
+        return
+    }
+
+    await interaction.deferReply()
+    let replyChannel = guildSettings.replyChannelId ?? interaction.channelId!
+
+    try {
+        let guild = await client.guilds.fetch(interaction.guildId!)
+        let startTime = formatEventTime(eventDetails.startTime, eventDetails.timezone, language)
+        let createEvent = async (): Promise<string> => {
+            if (isSchedule) {
+                let { event, scheduleSummary } = await createDiscordScheduleFromDetails(guild, eventDetails, pendingCreation.attachment, replyChannel, pendingCreation.context)
+                return translate(language, "create.scheduleCreated", { name: eventDetails.eventName, time: startTime, schedule: scheduleSummary, url: event.url }) + formatDateNotes(eventDetails, language)
+            }
+            let event = await createDiscordEventFromDetails(guild, eventDetails, pendingCreation.attachment, replyChannel, pendingCreation.context)
+            return translate(language, "create.created", { name: eventDetails.eventName, time: startTime, url: event.url }) + formatDateNotes(eventDetails, language)
+        }
+
+        let conflicts = pendingCreation.force ? [] : await findEventConflicts(guild, eventDetails)
+        if (conflicts.length > 0) {
+            logger.info(`/event ${pendingCreation.subcommand} "${eventDetails.eventName}" overlaps ${conflicts.length} event(s), asking for confirmation.`)
+            await interaction.editReply(requestConflictConfirmation(conflicts, interaction.user.id, async () => {
+                try {
+                    await interaction.followUp(await createEvent())
+                } catch (e) {
+                    logger.error("Failed to create event: " + e)
+                    await interaction.followUp(translate(language, "create.failed", { error: String(e) }))
+                }
+            }, language))
+            return
+        }
+
+        await interaction.editReply(await createEvent())
+    } catch (e) {
+        logger.error("Failed to create event: " + e)
+        await interaction.editReply(translate(language, "create.failed", { error: String(e) }))
+    }
+}
+
+/**
+ * Handles all interactions of the `/event` command: autocomplete, the subcommands, the description form and the event list buttons.
+ *
+ * ### Example:
+ * ```ts
+ * client.on(Events.InteractionCreate, handleInteraction)
+ * ```
+ *
+ * @param interaction - Any interaction received by the bot.
+ *
+ * @remarks
+ * - `create` and `schedule` use the same validation and creation functions as `!dmb New Event` and `!dmb New Schedule`.
+ * - `edit` and `cancel` run `editDiscordEvent` and `cancelDiscordEvent`, whose confirmations are posted in the reply channel
+ *   while the author gets an ephemeral acknowledgement.
+ * - Command rights are checked with `isAuthorized` like for `!dmb` commands; denials are ephemeral and logged.
+ *
+ * @throws No exceptions are thrown to the caller; errors are logged and answered ephemerally when possible.
+ *
+ * @dependencies
+ * - Requires access to the Discord `client` object, `logger`, the guild settings and the event functions.
+ */
+export async function handleInteraction(interaction: Interaction): Promise<void> {
+    try {
+        if (!interaction.inCachedGuild()) {
+            return
+        }
+
+        if (interaction.isAutocomplete() && interaction.commandName == "event") {
+            await handleAutocomplete(interaction)
+            return
+        }
+
+        if (interaction.isButton() && isEventListButton(interaction.customId)) {
+            await handleEventListButton(interaction)
+            return
+        }
+
+        if (interaction.isButton() && isConflictButton(interaction.customId)) {
+            await handleConflictButton(interaction)
+            return
+        }
+
+        if (interaction.isButton() && isPreviewButton(interaction.customId)) {
+            await handlePreviewButton(interaction)
+            return
+        }
+
+        if (interaction.isModalSubmit() && interaction.customId.startsWith("event-")) {
+            await handleDescriptionModal(interaction)
+            return
+        }
+
+        if (!interaction.isChatInputCommand() || interaction.commandName != "event") {
+            return
+        }
+
+        let subcommand = interaction.options.getSubcommand()
+        let language = getLanguage(interaction.guildId, interaction.user.id)
+        logger.info(`Invoking /event ${subcommand} by ${interaction.user.tag}`)
+
+        let action = subcommandActions[subcommand]
+        if (action && !isAuthorized(interaction.member, action)) {
+            logger.error(`User ${interaction.user.tag} (${interaction.user.id}) is not allowed to use "/event ${subcommand}" in guild ${interaction.guildId}.`)
+            await interaction.reply({ content: translate(language, "slash.notAllowed", { subcommand: subcommand, action: action }), flags: MessageFlags.Ephemeral })
+            return
+        }
+
+        let replyChannel = getGuildSettings(interaction.guildId).replyChannelId ?? interaction.channelId
+
+        switch (subcommand) {
+            case "create":
+            case "schedule": {
+                await showDescriptionModal(interaction, subcommand)
+                break
+            }
+            case "edit": {
+                let updates = ["name", "start", "end", "timezone", "location", "description"]
+                    .filter(key => interaction.options.getString(key) != null)
+                    .map(key => `${key}=${interaction.options.getString(key)}`)
+                let eventInfo = [interaction.options.getString("event", true), ...updates].join("; ")
+
+                await interaction.reply({ content: translate(language, "slash.updating"), flags: MessageFlags.Ephemeral })
+                let outcome = await editDiscordEvent(eventInfo, interaction.options.getAttachment("image")?.url ?? "", interaction.guildId, replyChannel, null, interaction.user.id)
+                await interaction.editReply(translate(language, outcome == "done" ? "slash.done" : "slash.notDone", { channel: replyChannel }))
+                break
+            }
+            case "cancel": {
+                let flags = ["series", "notify"].filter(flag => interaction.options.getBoolean(flag))
+                let eventInfo = [interaction.options.getString("event", true), ...flags].join("; ")
+
+                await interaction.reply({ content: translate(language, "slash.cancelling"), flags: MessageFlags.Ephemeral })
+                let outcome = await cancelDiscordEvent(eventInfo, interaction.guildId, replyChannel, interaction.user.id, null, interaction.options.getBoolean("delete") ?? false)
+                await interaction.editReply(translate(language, outcome == "done" ? "slash.done" : "slash.notDone", { channel: replyChannel }))
+                break
+            }
+            case "list": {
+                await replyWithEventList(interaction)
+                break
+            }
+        }
+    } catch (e) {
+        logger.error("Failed to handle interaction: " + e)
+        if (interaction.isRepliable() && !interaction.replied && !interaction.deferred) {
+            await interaction.reply({ content: translate(getLanguage(interaction.guildId, interaction.user.id), "slash.failed", { error: String(e) }), flags: MessageFlags.Ephemeral }).catch(() => null)
+        }
+    }
+}
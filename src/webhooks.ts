@@ -0,0 +1,280 @@
+import type { GuildScheduledEvent, PartialGuildScheduledEvent } from "discord.js"
+import type { Database } from "bun:sqlite"
+import { createHmac, randomBytes, randomUUID } from "crypto"
+import { logger } from "./mainBot"
+import { database } from "./database"
+import { eventRepository } from "./eventStore"
+import { toApiEvent } from "./eventApi"
+
+export type WebhookEventType = "event.created" | "event.started" | "event.cancelled"
+
+export interface Webhook {
+    webhookId: string
+    guildId: string
+    url: string
+    // Key of the HMAC-SHA256 signature sent with every delivery
+    secret: string
+    events: WebhookEventType[]
+    createdAt: Date
+}
+
+export const webhookEventTypes: WebhookEventType[] = ["event.created", "event.started", "event.cancelled"]
+
+// Deliveries that take longer are aborted and logged as failed
+const DELIVERY_TIMEOUT = 10 * 1000
+const SIGNATURE_HEADER = "X-Event-Manager-Signature"
+
+/**
+ * Storage of the outgoing webhooks registered through the HTTP API.
+ */
+export interface WebhookRepository {
+    saveWebhook(webhook: Webhook): void
+    getWebhook(webhookID: string): Webhook | null
+    listWebhooks(guildID: string): Webhook[]
+    deleteWebhook(webhookID: string): void
+}
+
+interface WebhookRow {
+    webhook_id: string
+    guild_id: string
+    url: string
+    secret: string
+    events: string
+    created_at: string
+}
+
+/**
+ * `WebhookRepository` backed by SQLite (via `bun:sqlite`).
+ *
+ * @remarks
+ * - The subscribed event types are stored comma-separated.
+ */
+export class SqliteWebhookRepository implements WebhookRepository {
+    private db: Database
+
+    constructor(db: Database) {
+        this.db = db
+        this.db.run(`CREATE TABLE IF NOT EXISTS webhooks (
+            webhook_id TEXT PRIMARY KEY,
+            guild_id TEXT NOT NULL,
+            url TEXT NOT NULL,
+            secret TEXT NOT NULL,
+            events TEXT NOT NULL,
+            created_at TEXT NOT NULL
+        )`)
+        this.db.run("CREATE INDEX IF NOT EXISTS webhooks_guild ON webhooks (guild_id)")
+    }
+
+    saveWebhook(webhook: Webhook): void {
+        this.db.query("INSERT OR REPLACE INTO webhooks (webhook_id, guild_id, url, secret, events, created_at) VALUES (?, ?, ?, ?, ?, ?)").run(
+            webhook.webhookId,
+            webhook.guildId,
+            webhook.url,
+            webhook.secret,
+            webhook.events.join(","),
+            webhook.createdAt.toISOString(),
+        )
+    }
+
+    getWebhook(webhookID: string): Webhook | null {
+        let row = this.db.query<WebhookRow, [string]>("SELECT * FROM webhooks WHERE webhook_id = ?").get(webhookID)
+        return row ? this.toWebhook(row) : null
+    }
+
+    listWebhooks(guildID: string): Webhook[] {
+        return this.db.query<WebhookRow, [string]>("SELECT * FROM webhooks WHERE guild_id = ? ORDER BY created_at").all(guildID).map(row => this.toWebhook(row))
+    }
+
+    deleteWebhook(webhookID: string): void {
+        this.db.query("DELETE FROM webhooks WHERE webhook_id = ?").run(webhookID)
+    }
+
+    private toWebhook(row: WebhookRow): Webhook {
+        return {
+            webhookId: row.webhook_id,
+            guildId: row.guild_id,
+            url: row.url,
+            secret: row.secret,
+            events: row.events.split(",") as WebhookEventType[],
+            createdAt: new Date(row.created_at),
+        }
+    }
+}
+
+export const webhookRepository: WebhookRepository = new SqliteWebhookRepository(database)
+
+/**
+ * Registers a new outgoing webhook for a guild.
+ *
+ * ### Example:
+ * ```ts
+ * const webhook = registerWebhook("123456789012345678", "https://example.org/discord-events", ["event.created"])
+ * // webhook.secret: 64 hex characters, needed to verify the deliveries
+ * ```
+ *
+ * @param guildID - The ID of the guild whose events are delivered.
+ * @param url - The `http` or `https` URL the events are posted to.
+ * @param events - The event types to deliver, all types if empty.
+ *
+ * @returns The stored `Webhook`, including its generated secret.
+ */
+export function registerWebhook(guildID: string, url: string, events: WebhookEventType[]): Webhook {
+    let webhook: Webhook = {
+        webhookId: randomUUID(),
+        guildId: guildID,
+        url: url,
+        secret: randomBytes(32).toString("hex"),
+        events: events.length > 0 ? events : webhookEventTypes,
+        createdAt: new Date(),
+    }
+    webhookRepository.saveWebhook(webhook)
+    logger.info(`Webhook ${webhook.webhookId} registered for guild ${guildID}: ${url}`)
+
+    return webhook
+}
+
+/**
+ * Signs a webhook body the way receivers can verify it.
+ *
+ * ### Example:
+ * ```ts
+ * signWebhookBody('{"type":"event.created",...}', webhook.secret)
+ * // Returns: "sha256=3f1c…"
+ * ```
+ *
+ * @param body - The exact JSON body that is sent.
+ * @param secret - The secret of the webhook.
+ *
+ * @returns The value of the `X-Event-Manager-Signature` header.
+ */
+export function signWebhookBody(body: string, secret: string): string {
+    return "sha256=" + createHmac("sha256", secret).update(body).digest("hex")
+}
+
+/**
+ * Posts an event to all webhooks of its guild that subscribed to the event type.
+ *
+ * ### Example:
+ * ```ts
+ * await deliverWebhooks("event.created", event.guildId, toApiEvent(event))
+ * ```
+ *
+ * @param type - The `WebhookEventType`.
+ * @param guildID - The ID of the guild the event belongs to.
+ * @param eventData - The event as returned by the HTTP API (see `toApiEvent`).
+ *
+ * @returns A `Promise<void>` that resolves once all deliveries finished or failed.
+ *
+ * @remarks
+ * - The body is `{ type, guildId, event, timestamp }`, signed with the webhook's secret in the `X-Event-Manager-Signature` header.
+ * - Deliveries are not retried, failures and non-2xx answers are logged.
+ *
+ * @throws No exceptions are thrown to the caller; errors are logged.
+ */
+export async function deliverWebhooks(type: WebhookEventType, guildID: string, eventData: object): Promise<void> {
+    let webhooks = webhookRepository.listWebhooks(guildID).filter(webhook => webhook.events.includes(type))
+    if (webhooks.length == 0) {
+        return
+    }
+
+    let body = JSON.stringify({ type: type, guildId: guildID, event: eventData, timestamp: new Date().toISOString() })
+    await Promise.all(webhooks.map(async webhook => {
+        try {
+            let response = await fetch(webhook.url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "User-Agent": "Event-Manager-Bot",
+                    [SIGNATURE_HEADER]: signWebhookBody(body, webhook.secret),
+                },
+                body: body,
+                signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+            })
+            if (!response.ok) {
+                logger.error(`Webhook ${webhook.webhookId} answered ${type} with HTTP ${response.status}.`)
+            }
+        } catch (e) {
+            logger.error(`Failed to deliver ${type} to webhook ${webhook.webhookId}: ` + e)
+        }
+    }))
+}
+
+/**
+ * Delivers `event.created` for every new scheduled event, including events created in Discord directly.
+ *
+ * ### Example:
+ * ```ts
+ * client.on(Events.GuildScheduledEventCreate, handleWebhookEventCreate)
+ * ```
+ *
+ * @param event - The created event.
+ *
+ * @returns A `Promise<void>` that resolves once the webhooks were called.
+ */
+export async function handleWebhookEventCreate(event: GuildScheduledEvent): Promise<void> {
+    await deliverWebhooks("event.created", event.guildId, toApiEvent(event))
+}
+
+/**
+ * Delivers `event.started` and `event.cancelled` when the status of a scheduled event changes.
+ *
+ * ### Example:
+ * ```ts
+ * client.on(Events.GuildScheduledEventUpdate, handleWebhookEventUpdate)
+ * ```
+ *
+ * @param oldEvent - The event before the update, `null` if it was not cached.
+ * @param newEvent - The event after the update.
+ *
+ * @returns A `Promise<void>` that resolves once the webhooks were called.
+ *
+ * @remarks
+ * - Without a cached old event, a new status of active or cancelled is delivered anyway.
+ */
+export async function handleWebhookEventUpdate(oldEvent: GuildScheduledEvent | PartialGuildScheduledEvent | null, newEvent: GuildScheduledEvent): Promise<void> {
+    let oldStatus = oldEvent && !oldEvent.partial ? oldEvent.status : null
+    if (oldStatus == newEvent.status) {
+        return
+    }
+
+    if (newEvent.isActive()) {
+        await deliverWebhooks("event.started", newEvent.guildId, toApiEvent(newEvent))
+    }
+    else if (newEvent.isCanceled()) {
+        await deliverWebhooks("event.cancelled", newEvent.guildId, toApiEvent(newEvent))
+    }
+}
+
+/**
+ * Delivers `event.cancelled` when an upcoming scheduled event is deleted.
+ *
+ * ### Example:
+ * ```ts
+ * client.on(Events.GuildScheduledEventDelete, handleWebhookEventDelete)
+ * ```
+ *
+ * @param event - The deleted event, partial if it was not cached.
+ *
+ * @returns A `Promise<void>` that resolves once the webhooks were called.
+ *
+ * @remarks
+ * - Deleting events that already ended or were cancelled before is not delivered again.
+ * - For partial events, only the ID and the details stored in the `eventRepository` are known.
+ */
+export async function handleWebhookEventDelete(event: GuildScheduledEvent | PartialGuildScheduledEvent): Promise<void> {
+    if (!event.partial) {
+        if (event.isCompleted() || event.isCanceled()) {
+            return
+        }
+        await deliverWebhooks("event.cancelled", event.guildId, { ...toApiEvent(event), status: "deleted" })
+        return
+    }
+
+    let storedEvent = eventRepository.getEvent(event.id)
+    await deliverWebhooks("event.cancelled", event.guildId, {
+        id: event.id,
+        name: storedEvent?.details.eventName ?? null,
+        start: storedEvent?.details.startTime.toISOString() ?? null,
+        status: "deleted",
+    })
+}